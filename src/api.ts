@@ -0,0 +1,157 @@
+import type { FileMetadataResolver, ForceReadModeSettings, FrontmatterOverride } from './matcher';
+import { normalizeVaultPath } from './path-utils';
+import { appendRules, removeRules, setRuleList, type RuleListTarget } from './rule-actions';
+import { buildPathTesterLines, buildPathTesterResult, describeDecidingRule } from './rule-diagnostics';
+import { isReadOnlyMode, type EnforcedViewMode } from './rule-modes';
+import { TEMPORARY_OVERRIDE_MAX_MS } from './temporary-overrides';
+
+/*
+ * Bumped only for breaking changes. Additions are listed in
+ * `READ_ONLY_VIEW_API_FEATURES`, so consumers should check `hasFeature`
+ * before calling a method added after version 1.
+ */
+export const READ_ONLY_VIEW_API_VERSION = 1;
+
+export const READ_ONLY_VIEW_API_FEATURES = [
+	'isReadOnly',
+	'getMode',
+	'explain',
+	'addRule',
+	'removeRule',
+	'lockTemporarily',
+	'unlockTemporarily',
+] as const;
+
+export type ReadOnlyViewApiFeature = typeof READ_ONLY_VIEW_API_FEATURES[number];
+
+export type ReadOnlyExplanation = {
+	path: string;
+	readOnly: boolean;
+	mode: EnforcedViewMode | null;
+	decidingRule: string;
+	includeMatches: string[];
+	excludeMatches: string[];
+	tagMatches: string[];
+	frontmatterOverride: FrontmatterOverride;
+	temporaryUnlockRemainingMs: number | null;
+	temporaryLockRemainingMs: number | null;
+	lines: string[];
+};
+
+export type RuleChangeResult = {
+	changed: boolean;
+	rules: string[];
+	duplicates: string[];
+	rejectedByLimit: string[];
+	warnings: string[];
+};
+
+export interface ReadOnlyViewApi {
+	readonly version: number;
+	readonly features: readonly ReadOnlyViewApiFeature[];
+	hasFeature: (feature: string) => boolean;
+	isReadOnly: (path: string) => boolean;
+	getMode: (path: string) => EnforcedViewMode | null;
+	explain: (path: string) => ReadOnlyExplanation;
+	addRule: (rule: string, list?: RuleListTarget) => Promise<RuleChangeResult>;
+	removeRule: (rule: string, list?: RuleListTarget) => Promise<RuleChangeResult>;
+	lockTemporarily: (path: string, durationMs: number) => Promise<number>;
+	unlockTemporarily: (path: string, durationMs: number) => Promise<number>;
+}
+
+export interface ReadOnlyViewApiDependencies {
+	getSettings: () => ForceReadModeSettings;
+	resolveMetadata?: FileMetadataResolver;
+	getEnforcedMode: (path: string) => EnforcedViewMode | null;
+	getTemporaryUnlockRemainingMs: (path: string) => number | null;
+	getTemporaryLockRemainingMs: (path: string) => number | null;
+	saveRules: (reason: string) => Promise<void>;
+	lockTemporarily: (path: string, durationMs: number) => Promise<number>;
+	unlockTemporarily: (path: string, durationMs: number) => Promise<number>;
+}
+
+// Durations come from other plugins and scripts, so they are checked before reaching a timer.
+function toOverrideDuration(durationMs: number): number {
+	if (typeof durationMs !== 'number' || !Number.isFinite(durationMs)) {
+		throw new RangeError(`Duration must be a finite number of milliseconds, got ${String(durationMs)}.`);
+	}
+	return Math.min(TEMPORARY_OVERRIDE_MAX_MS, Math.max(1, durationMs));
+}
+
+/*
+ * Exposed as `plugin.api` for other plugins and scripts. Queries include
+ * temporary unlocks and locks, so they agree with what the workspace shows.
+ * Rule changes go through the same normalization, dedupe and limits as the
+ * file menu and are saved and applied to open notes before resolving.
+ */
+class DefaultReadOnlyViewApi implements ReadOnlyViewApi {
+	readonly version = READ_ONLY_VIEW_API_VERSION;
+	readonly features = READ_ONLY_VIEW_API_FEATURES;
+
+	constructor(private readonly dependencies: ReadOnlyViewApiDependencies) {}
+
+	hasFeature(feature: string): boolean {
+		return (READ_ONLY_VIEW_API_FEATURES as readonly string[]).includes(feature);
+	}
+
+	isReadOnly(path: string): boolean {
+		return isReadOnlyMode(this.getMode(path));
+	}
+
+	getMode(path: string): EnforcedViewMode | null {
+		return this.dependencies.getEnforcedMode(normalizeVaultPath(path));
+	}
+
+	explain(path: string): ReadOnlyExplanation {
+		const settings = this.dependencies.getSettings();
+		const result = buildPathTesterResult(path, settings, this.dependencies.resolveMetadata);
+		const mode = this.getMode(result.testPath);
+		return {
+			path: result.testPath,
+			readOnly: isReadOnlyMode(mode),
+			mode,
+			decidingRule: describeDecidingRule(result, settings),
+			includeMatches: result.includeMatches,
+			excludeMatches: result.excludeMatches,
+			tagMatches: result.tagMatches,
+			frontmatterOverride: result.frontmatterOverride,
+			temporaryUnlockRemainingMs: this.dependencies.getTemporaryUnlockRemainingMs(result.testPath),
+			temporaryLockRemainingMs: this.dependencies.getTemporaryLockRemainingMs(result.testPath),
+			lines: buildPathTesterLines(result, settings),
+		};
+	}
+
+	async addRule(rule: string, list: RuleListTarget = 'include'): Promise<RuleChangeResult> {
+		const settings = this.dependencies.getSettings();
+		const result = appendRules(settings, list, [rule]);
+		const changed = result.added.length > 0;
+		if (changed) {
+			setRuleList(settings, list, result.rules);
+			await this.dependencies.saveRules(`api-add-${list}-rule`);
+		}
+		return { changed, rules: result.added, duplicates: result.duplicates, rejectedByLimit: result.rejectedByLimit, warnings: result.warnings };
+	}
+
+	async removeRule(rule: string, list: RuleListTarget = 'include'): Promise<RuleChangeResult> {
+		const settings = this.dependencies.getSettings();
+		const result = removeRules(settings, list, [rule]);
+		const changed = result.removed.length > 0;
+		if (changed) {
+			setRuleList(settings, list, result.rules);
+			await this.dependencies.saveRules(`api-remove-${list}-rule`);
+		}
+		return { changed, rules: result.removed, duplicates: [], rejectedByLimit: [], warnings: [] };
+	}
+
+	async lockTemporarily(path: string, durationMs: number): Promise<number> {
+		return await this.dependencies.lockTemporarily(normalizeVaultPath(path), toOverrideDuration(durationMs));
+	}
+
+	async unlockTemporarily(path: string, durationMs: number): Promise<number> {
+		return await this.dependencies.unlockTemporarily(normalizeVaultPath(path), toOverrideDuration(durationMs));
+	}
+}
+
+export function createReadOnlyViewApi(dependencies: ReadOnlyViewApiDependencies): ReadOnlyViewApi {
+	return new DefaultReadOnlyViewApi(dependencies);
+}
@@ -0,0 +1,129 @@
+import type { EnforcedViewMode } from './rule-modes';
+
+// "Toggle Reading view" (Ctrl/Cmd+E) and "Toggle Live Preview/Source mode".
+export const MODE_COMMAND_IDS = ['markdown:toggle-preview', 'editor:toggle-source'] as const;
+
+export type ModeCommandId = typeof MODE_COMMAND_IDS[number];
+
+/*
+ * Commands live in the undocumented `app.commands.commands` registry. Only the
+ * callback fields are typed; each one that exists is wrapped and restored on
+ * uninstall.
+ */
+type CommandCallbacks = {
+	callback?: (...args: unknown[]) => unknown;
+	checkCallback?: (checking: boolean, ...args: unknown[]) => unknown;
+	editorCallback?: (...args: unknown[]) => unknown;
+	editorCheckCallback?: (checking: boolean, ...args: unknown[]) => unknown;
+};
+
+export type CommandRegistry = Record<string, CommandCallbacks | undefined>;
+
+export type MarkdownViewModeState = {
+	mode?: string;
+	source?: boolean;
+};
+
+export interface CommandInterceptorDependencies {
+	getCommands: () => CommandRegistry | null;
+	shouldBlock: (commandId: ModeCommandId) => boolean;
+	onBlocked: (commandId: ModeCommandId) => void;
+	logDebug: (message: string, payload?: Record<string, unknown>) => void;
+}
+
+export interface CommandInterceptorService {
+	install: () => void;
+	uninstall: () => void;
+}
+
+/*
+ * The view mode a leaf would end up in after running a mode command, or null
+ * when the command does not change it. Leaving Reading view returns to the
+ * editor mode kept in the `source` flag.
+ */
+export function predictModeAfterCommand(commandId: ModeCommandId, state: MarkdownViewModeState): EnforcedViewMode | null {
+	const isSource = state.source === true;
+	if (commandId === 'markdown:toggle-preview') {
+		if (state.mode === 'preview') {
+			return isSource ? 'source' : 'live';
+		}
+		return 'reading';
+	}
+	if (state.mode !== 'source') {
+		return null;
+	}
+	return isSource ? 'live' : 'source';
+}
+
+class DefaultCommandInterceptorService implements CommandInterceptorService {
+	private readonly restores: Array<() => void> = [];
+
+	constructor(private readonly dependencies: CommandInterceptorDependencies) {}
+
+	install(): void {
+		if (this.restores.length > 0) {
+			return;
+		}
+		const commands = this.dependencies.getCommands();
+		for (const commandId of MODE_COMMAND_IDS) {
+			const command = commands?.[commandId];
+			if (!command) {
+				this.dependencies.logDebug('mode-command-missing', { commandId });
+				continue;
+			}
+			this.wrapCommand(commandId, command);
+		}
+	}
+
+	uninstall(): void {
+		for (const restore of this.restores.splice(0)) {
+			restore();
+		}
+	}
+
+	// A blocked command stays available (so the hotkey is consumed) but does nothing.
+	private wrapCommand(commandId: ModeCommandId, command: CommandCallbacks): void {
+		const { callback, checkCallback, editorCallback, editorCheckCallback } = command;
+		const block = (): boolean => {
+			if (!this.dependencies.shouldBlock(commandId)) {
+				return false;
+			}
+			this.dependencies.onBlocked(commandId);
+			return true;
+		};
+		const isBlocked = () => this.dependencies.shouldBlock(commandId);
+
+		if (callback) {
+			command.callback = (...args) => (block() ? undefined : callback.apply(command, args));
+		}
+		if (editorCallback) {
+			command.editorCallback = (...args) => (block() ? undefined : editorCallback.apply(command, args));
+		}
+		if (checkCallback) {
+			command.checkCallback = (checking, ...args) => {
+				if (checking && isBlocked()) {
+					return true;
+				}
+				return !checking && block() ? true : checkCallback.call(command, checking, ...args);
+			};
+		}
+		if (editorCheckCallback) {
+			command.editorCheckCallback = (checking, ...args) => {
+				if (checking && isBlocked()) {
+					return true;
+				}
+				return !checking && block() ? true : editorCheckCallback.call(command, checking, ...args);
+			};
+		}
+		this.restores.push(() => {
+			command.callback = callback;
+			command.checkCallback = checkCallback;
+			command.editorCallback = editorCallback;
+			command.editorCheckCallback = editorCheckCallback;
+		});
+	}
+}
+
+export function createCommandInterceptorService(dependencies: CommandInterceptorDependencies): CommandInterceptorService {
+	return new DefaultCommandInterceptorService(dependencies);
+}
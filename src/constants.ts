@@ -4,3 +4,4 @@ export const RULE_WARNING_STRONG_THRESHOLD = 150;
 export const RULE_LIMIT_INCLUDE_MAX = 200;
 export const RULE_LIMIT_EXCLUDE_MAX = 300;
 export const RULE_LIMIT_TOTAL_MAX = 400;
+export const RULE_LIMIT_TAG_MAX = 200;
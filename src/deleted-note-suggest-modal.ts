@@ -0,0 +1,26 @@
+import { App, SuggestModal } from 'obsidian';
+import type { DeletedNote } from './file-operation-guard';
+
+export class DeletedNoteSuggestModal extends SuggestModal<DeletedNote> {
+	constructor(
+		app: App,
+		private readonly notes: DeletedNote[],
+		private readonly onChoose: (note: DeletedNote) => void,
+	) {
+		super(app);
+		this.setPlaceholder('Restore deleted protected note');
+	}
+
+	getSuggestions(query: string): DeletedNote[] {
+		const normalizedQuery = query.trim().toLowerCase();
+		return [...this.notes].reverse().filter((note) => note.path.toLowerCase().includes(normalizedQuery));
+	}
+
+	renderSuggestion(note: DeletedNote, el: HTMLElement): void {
+		el.setText(`${note.path} (deleted ${new Date(note.deletedAt).toLocaleTimeString()})`);
+	}
+
+	onChooseSuggestion(note: DeletedNote): void {
+		this.onChoose(note);
+	}
+}
@@ -0,0 +1,162 @@
+import { Annotation, EditorState, StateField, type Extension, type Text, type Transaction, type TransactionSpec } from '@codemirror/state';
+import { editorInfoField } from 'obsidian';
+
+export type EditorLockBlockReason = 'locked' | 'append-only' | 'frontmatter';
+
+export interface EditorLockDependencies {
+	isLockedPath: (path: string) => boolean;
+	isAppendOnlyPath?: (path: string) => boolean;
+	isFrontmatterLockedPath?: (path: string) => boolean;
+	onBlockedChange?: (path: string, transaction: Transaction, reason: EditorLockBlockReason) => void;
+}
+
+// The CodeMirror editor behind an Obsidian `Editor`.
+export interface ReloadableEditorView {
+	readonly state: EditorState;
+	dispatch(spec: TransactionSpec): void;
+}
+
+// Typing, paste and drop (`input.*`), deletion and cut, moving lines or text, and undo/redo.
+const USER_EDIT_EVENTS = ['input', 'delete', 'move', 'undo', 'redo'] as const;
+
+// Marks a change that loads the saved content of the note into the editor (see `reloadEditorContent`).
+export const fileReloadAnnotation = Annotation.define<boolean>();
+
+function getEditorPath(state: EditorState): string | undefined {
+	return state.field(editorInfoField, false)?.file?.path;
+}
+
+export function isUserEdit(transaction: Transaction): boolean {
+	return USER_EDIT_EVENTS.some((event) => transaction.isUserEvent(event));
+}
+
+function isFileReload(transaction: Transaction): boolean {
+	return transaction.annotation(fileReloadAnnotation) === true;
+}
+
+/*
+ * Replaces the editor text with `content`, past the lock. Only the differing
+ * middle part is replaced so the cursor stays where it was. Returns false when
+ * the editor already shows `content`.
+ */
+export function reloadEditorContent(view: ReloadableEditorView, content: string): boolean {
+	const current = view.state.doc.toString();
+	if (current === content) {
+		return false;
+	}
+	let start = 0;
+	const maxPrefix = Math.min(current.length, content.length);
+	while (start < maxPrefix && current.charCodeAt(start) === content.charCodeAt(start)) {
+		start++;
+	}
+	let end = 0;
+	const maxSuffix = maxPrefix - start;
+	while (end < maxSuffix && current.charCodeAt(current.length - 1 - end) === content.charCodeAt(content.length - 1 - end)) {
+		end++;
+	}
+	view.dispatch({
+		changes: { from: start, to: current.length - end, insert: content.slice(start, content.length - end) },
+		annotations: fileReloadAnnotation.of(true),
+	});
+	return true;
+}
+
+/*
+ * End of the closing `---` (or `...`) line of a frontmatter block that starts
+ * on the first line, or null when the note has no complete frontmatter.
+ */
+export function getFrontmatterEnd(doc: Text): number | null {
+	if (doc.lines < 2 || doc.line(1).text.trimEnd() !== '---') {
+		return null;
+	}
+	for (let lineNumber = 2; lineNumber <= doc.lines; lineNumber++) {
+		const line = doc.line(lineNumber);
+		const text = line.text.trimEnd();
+		if (text === '---' || text === '...') {
+			return line.to;
+		}
+	}
+	return null;
+}
+
+// A line break typed right after the closing delimiter starts the body and is allowed.
+function touchesFrontmatter(transaction: Transaction, frontmatterEnd: number): boolean {
+	let touches = false;
+	transaction.changes.iterChanges((fromA, toA, _fromB, _toB, inserted) => {
+		if (fromA < frontmatterEnd || (fromA === frontmatterEnd && (toA > fromA || inserted.sliceString(0, 1) !== '\n'))) {
+			touches = true;
+		}
+	});
+	return touches;
+}
+
+/*
+ * Rejects every change to the text of an editor showing a locked note,
+ * whether typed by the user or dispatched by a command, a template or another
+ * plugin. Only changes marked with `fileReloadAnnotation` pass; the plugin
+ * re-applies a blocked change with it once the change turns out to load the
+ * saved file (after an outside change or sync), so the editor never drifts
+ * from the file. Selection, scrolling and folding still work, so a locked note
+ * keeps its Live preview rendering. The note is looked up per transaction, so
+ * rule changes and temporary unlocks apply to open editors right away.
+ *
+ * Append-only notes accept a change only when it starts at or after the
+ * protected end: the end of the text when the editor opened, the note became
+ * append-only or the saved file was reloaded, moved along with accepted edits.
+ * Text added in the session can still be corrected.
+ *
+ * Frontmatter-locked notes reject changes inside the frontmatter block and
+ * leave the body editable.
+ */
+export function createEditorLockExtension(dependencies: EditorLockDependencies): Extension {
+	const isAppendOnly = (path: string | undefined): path is string =>
+		path !== undefined && dependencies.isAppendOnlyPath?.(path) === true;
+
+	const appendBoundaryField = StateField.define<number>({
+		create: (state) => state.doc.length,
+		update: (boundary, transaction) => {
+			if (!isAppendOnly(getEditorPath(transaction.startState)) || isFileReload(transaction)) {
+				return transaction.newDoc.length;
+			}
+			// Text inserted right at the boundary is new text, so the boundary stays before it.
+			return transaction.changes.mapPos(boundary, -1);
+		},
+	});
+
+	const filter = EditorState.transactionFilter.of((transaction) => {
+		if (!transaction.docChanged || isFileReload(transaction)) {
+			return transaction;
+		}
+		const path = getEditorPath(transaction.startState);
+		if (!path) {
+			return transaction;
+		}
+		if (dependencies.isLockedPath(path)) {
+			dependencies.onBlockedChange?.(path, transaction, 'locked');
+			return [];
+		}
+		if (dependencies.isFrontmatterLockedPath?.(path) === true) {
+			const frontmatterEnd = getFrontmatterEnd(transaction.startState.doc);
+			if (frontmatterEnd === null || !touchesFrontmatter(transaction, frontmatterEnd)) {
+				return transaction;
+			}
+			dependencies.onBlockedChange?.(path, transaction, 'frontmatter');
+			return [];
+		}
+		if (!isAppendOnly(path)) {
+			return transaction;
+		}
+		const boundary = transaction.startState.field(appendBoundaryField);
+		let touchesExistingText = false;
+		transaction.changes.iterChangedRanges((fromA) => {
+			touchesExistingText = touchesExistingText || fromA < boundary;
+		});
+		if (!touchesExistingText) {
+			return transaction;
+		}
+		dependencies.onBlockedChange?.(path, transaction, 'append-only');
+		return [];
+	});
+
+	return [appendBoundaryField, filter];
+}
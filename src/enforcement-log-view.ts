@@ -0,0 +1,117 @@
+import { ItemView, type WorkspaceLeaf } from 'obsidian';
+import { filterEnforcementLogEntries, type EnforcementLogEntry } from './enforcement-log';
+
+export const VIEW_TYPE_ENFORCEMENT_LOG = 'read-only-view-enforcement-log';
+const ENFORCEMENT_LOG_REFRESH_DELAY_MS = 300;
+// Only the newest matching entries are rendered.
+const ENFORCEMENT_LOG_RENDER_LIMIT = 300;
+
+export interface EnforcementLogViewHost {
+	getEnforcementLogEntries: () => EnforcementLogEntry[];
+	clearEnforcementLog: () => Promise<void>;
+}
+
+export class EnforcementLogView extends ItemView {
+	private fileQuery = '';
+	private reasonQuery = '';
+	private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+	private summaryEl: HTMLElement | null = null;
+	private listEl: HTMLElement | null = null;
+
+	constructor(leaf: WorkspaceLeaf, private readonly host: EnforcementLogViewHost) {
+		super(leaf);
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_ENFORCEMENT_LOG;
+	}
+
+	getDisplayText(): string {
+		return 'Read-only enforcement log';
+	}
+
+	getIcon(): string {
+		return 'scroll-text';
+	}
+
+	async onOpen(): Promise<void> {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass('read-only-view-report');
+
+		const toolbarEl = contentEl.createDiv({ cls: 'read-only-view-report-toolbar' });
+		const fileFilterEl = toolbarEl.createEl('input', {
+			type: 'search',
+			placeholder: 'Filter by file',
+			cls: 'read-only-view-report-filter',
+		});
+		fileFilterEl.addEventListener('input', () => {
+			this.fileQuery = fileFilterEl.value;
+			this.render();
+		});
+		const reasonFilterEl = toolbarEl.createEl('input', {
+			type: 'search',
+			placeholder: 'Filter by event or reason',
+			cls: 'read-only-view-report-filter',
+		});
+		reasonFilterEl.addEventListener('input', () => {
+			this.reasonQuery = reasonFilterEl.value;
+			this.render();
+		});
+		const clearButton = toolbarEl.createEl('button', { text: 'Clear' });
+		clearButton.addEventListener('click', () => {
+			void this.host.clearEnforcementLog();
+		});
+
+		this.summaryEl = contentEl.createDiv({ cls: 'read-only-view-report-summary' });
+		this.listEl = contentEl.createDiv({ cls: 'read-only-view-report-list' });
+		this.render();
+	}
+
+	async onClose(): Promise<void> {
+		if (this.refreshTimer) {
+			clearTimeout(this.refreshTimer);
+			this.refreshTimer = null;
+		}
+		this.contentEl.empty();
+	}
+
+	requestRefresh(): void {
+		if (this.refreshTimer) {
+			return;
+		}
+		this.refreshTimer = setTimeout(() => {
+			this.refreshTimer = null;
+			this.render();
+		}, ENFORCEMENT_LOG_REFRESH_DELAY_MS);
+	}
+
+	private render(): void {
+		if (!this.summaryEl || !this.listEl) {
+			return;
+		}
+		const entries = this.host.getEnforcementLogEntries();
+		const matches = filterEnforcementLogEntries(entries, this.fileQuery, this.reasonQuery);
+		this.summaryEl.setText(
+			matches.length === entries.length
+				? `${entries.length} entries`
+				: `${matches.length} of ${entries.length} entries`,
+		);
+
+		this.listEl.empty();
+		if (matches.length === 0) {
+			this.listEl.createDiv({ cls: 'read-only-view-report-empty', text: 'No entries.' });
+			return;
+		}
+		for (const entry of matches.slice(-ENFORCEMENT_LOG_RENDER_LIMIT).reverse()) {
+			const entryEl = this.listEl.createDiv({ cls: 'read-only-view-report-entry' });
+			entryEl.createDiv({
+				text: `${new Date(entry.at).toLocaleString()} · ${entry.event}${entry.filePath ? ` · ${entry.filePath}` : ''}`,
+			});
+			const details = [entry.reason ? `reason=${entry.reason}` : '', entry.details].filter(Boolean).join(', ');
+			if (details) {
+				entryEl.createDiv({ cls: 'read-only-view-report-matches', text: details });
+			}
+		}
+	}
+}
@@ -0,0 +1,172 @@
+export const ENFORCEMENT_LOG_FILE_NAME = 'enforcement-log.json';
+// Oldest entries are dropped beyond this count.
+export const ENFORCEMENT_LOG_CAP = 1000;
+// Entries are written in batches; a burst of enforcement events causes one write.
+const ENFORCEMENT_LOG_SAVE_DELAY_MS = 2000;
+
+// `logDebug` messages kept in the enforcement log; `ensure-preview-skip` only when something prevented a switch.
+const ENFORCEMENT_LOG_EVENTS = new Set([
+	'ensure-preview',
+	'ensure-preview-skip',
+	'ensure-preview-fallback',
+	'editor-lock-blocked',
+	'rendered-edit-blocked',
+	'mode-command-blocked',
+	'write-guard',
+	'file-operation-refused',
+	'deleted-notes-not-kept',
+]);
+
+export type EnforcementLogEntry = {
+	at: number;
+	event: string;
+	filePath: string | null;
+	reason: string | null;
+	details: string;
+};
+
+export interface EnforcementLogDependencies {
+	isEnabled: () => boolean;
+	load: () => Promise<string | null>;
+	save: (data: string) => Promise<void>;
+	onChange?: () => void;
+	now?: () => number;
+}
+
+export interface EnforcementLogService {
+	load: () => Promise<void>;
+	record: (event: string, payload?: Record<string, unknown>) => boolean;
+	getEntries: () => EnforcementLogEntry[];
+	clear: () => Promise<void>;
+	flush: () => Promise<void>;
+	dispose: () => void;
+}
+
+export function shouldRecordEnforcementEvent(event: string, payload?: Record<string, unknown>): boolean {
+	if (!ENFORCEMENT_LOG_EVENTS.has(event)) {
+		return false;
+	}
+	return event !== 'ensure-preview-skip' || payload?.skipReason !== 'already-in-mode';
+}
+
+// Everything but the path and reason, as `key=value` pairs.
+function formatDetails(payload: Record<string, unknown>): string {
+	return Object.entries(payload)
+		.filter(([key, value]) => key !== 'filePath' && key !== 'reason' && value !== undefined)
+		.map(([key, value]) => `${key}=${typeof value === 'string' ? value : JSON.stringify(value)}`)
+		.join(', ');
+}
+
+function isEnforcementLogEntry(value: unknown): value is EnforcementLogEntry {
+	const entry = value as Partial<EnforcementLogEntry> | null;
+	return typeof entry?.at === 'number' && typeof entry.event === 'string' && typeof entry.details === 'string';
+}
+
+export function filterEnforcementLogEntries(entries: EnforcementLogEntry[], fileQuery: string, reasonQuery: string): EnforcementLogEntry[] {
+	const normalizedFileQuery = fileQuery.trim().toLowerCase();
+	const normalizedReasonQuery = reasonQuery.trim().toLowerCase();
+	return entries.filter((entry) => {
+		if (normalizedFileQuery && !(entry.filePath ?? '').toLowerCase().includes(normalizedFileQuery)) {
+			return false;
+		}
+		if (!normalizedReasonQuery) {
+			return true;
+		}
+		return [entry.event, entry.reason ?? '', entry.details].some((text) => text.toLowerCase().includes(normalizedReasonQuery));
+	});
+}
+
+/*
+ * Ring buffer of enforcement events fed from `logDebug`, independent of the
+ * debug setting, and stored as JSON in the plugin folder. File paths are
+ * recorded as formatted for the debug log, so they are redacted unless
+ * verbose paths are on.
+ */
+class DefaultEnforcementLogService implements EnforcementLogService {
+	private entries: EnforcementLogEntry[] = [];
+	private saveTimer: ReturnType<typeof setTimeout> | null = null;
+	private readonly now: () => number;
+
+	constructor(private readonly dependencies: EnforcementLogDependencies) {
+		this.now = dependencies.now ?? (() => Date.now());
+	}
+
+	async load(): Promise<void> {
+		const data = await this.dependencies.load();
+		if (data === null) {
+			return;
+		}
+		try {
+			const parsed: unknown = JSON.parse(data);
+			const loaded = Array.isArray(parsed) ? parsed.filter(isEnforcementLogEntry) : [];
+			// Entries recorded before loading finished come after the stored ones.
+			this.entries = [...loaded, ...this.entries].slice(-ENFORCEMENT_LOG_CAP);
+		} catch {
+			// An unreadable file is replaced on the next save.
+			return;
+		}
+		this.dependencies.onChange?.();
+	}
+
+	record(event: string, payload: Record<string, unknown> = {}): boolean {
+		if (!this.dependencies.isEnabled() || !shouldRecordEnforcementEvent(event, payload)) {
+			return false;
+		}
+		this.entries.push({
+			at: this.now(),
+			event,
+			filePath: typeof payload.filePath === 'string' ? payload.filePath : null,
+			reason: typeof payload.reason === 'string' ? payload.reason : null,
+			details: formatDetails(payload),
+		});
+		if (this.entries.length > ENFORCEMENT_LOG_CAP) {
+			this.entries.splice(0, this.entries.length - ENFORCEMENT_LOG_CAP);
+		}
+		this.scheduleSave();
+		this.dependencies.onChange?.();
+		return true;
+	}
+
+	getEntries(): EnforcementLogEntry[] {
+		return [...this.entries];
+	}
+
+	async clear(): Promise<void> {
+		this.entries = [];
+		this.dependencies.onChange?.();
+		await this.flush(true);
+	}
+
+	async flush(force = false): Promise<void> {
+		if (!this.saveTimer && !force) {
+			return;
+		}
+		this.cancelSave();
+		await this.dependencies.save(JSON.stringify(this.entries));
+	}
+
+	dispose(): void {
+		this.cancelSave();
+	}
+
+	private scheduleSave(): void {
+		if (this.saveTimer) {
+			return;
+		}
+		this.saveTimer = setTimeout(() => {
+			this.saveTimer = null;
+			void this.dependencies.save(JSON.stringify(this.entries));
+		}, ENFORCEMENT_LOG_SAVE_DELAY_MS);
+	}
+
+	private cancelSave(): void {
+		if (this.saveTimer) {
+			clearTimeout(this.saveTimer);
+			this.saveTimer = null;
+		}
+	}
+}
+
+export function createEnforcementLogService(dependencies: EnforcementLogDependencies): EnforcementLogService {
+	return new DefaultEnforcementLogService(dependencies);
+}
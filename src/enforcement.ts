@@ -1,22 +1,33 @@
 import { MarkdownView, WorkspaceLeaf, type ViewState } from 'obsidian';
-import { shouldForceReadOnly, type ForceReadModeSettings } from './matcher';
+import { applyTemporaryLock, resolveEnforcedMode, type FileMetadataResolver, type ForceReadModeSettings } from './matcher';
+import { applyModeButtonControl } from './mode-switch-controls';
+import { isReadOnlyMode, satisfiesEnforcedMode, type EnforcedViewMode } from './rule-modes';
 
 export interface EnforcementDependencies {
 	getSettings: () => ForceReadModeSettings;
 	getMarkdownLeaves: () => WorkspaceLeaf[];
 	logDebug: (message: string, payload?: Record<string, unknown>) => void;
 	formatPathForDebug: (path: string, verbosePaths: boolean) => string;
+	resolveMetadata?: FileMetadataResolver;
+	isTemporarilyUnlocked?: (path: string) => boolean;
+	isTemporarilyLocked?: (path: string) => boolean;
+	onLeafChecked?: (path: string, mode: EnforcedViewMode | null, reason: string) => void;
 	now?: () => number;
 }
 
 export interface EnforcementService {
 	applyAllOpenMarkdownLeaves: (reason: string) => Promise<void>;
 	applyReadOnlyForLeaf: (leaf: WorkspaceLeaf, reason: string) => Promise<void>;
+	ensureMode: (leaf: WorkspaceLeaf, mode: EnforcedViewMode, reason: string) => Promise<void>;
 	ensurePreview: (leaf: WorkspaceLeaf, reason: string) => Promise<void>;
 }
 
 const LEAF_FORCE_PREVIEW_THROTTLE_MS = 120;
 const LAYOUT_CHANGE_FORCE_PREVIEW_THROTTLE_MS = 700;
+// Makes the Properties panel of a frontmatter-locked note non-interactive (see styles.css).
+export const PROPERTIES_LOCKED_CLASS = 'read-only-view-properties-locked';
+// Makes the Properties panel and task checkboxes of a read-only note non-interactive.
+export const RENDERED_EDITS_LOCKED_CLASS = 'read-only-view-rendered-edits-locked';
 
 function waitForNextFrame(): Promise<void> {
 	if (typeof requestAnimationFrame === 'function') {
@@ -27,6 +38,34 @@ function waitForNextFrame(): Promise<void> {
 	return Promise.resolve();
 }
 
+type MarkdownModeState = {
+	mode?: string;
+	source?: boolean;
+};
+
+/*
+ * Reading is `mode: preview`; Live preview and Source share `mode: source` and
+ * differ in the `source` flag. The locked, append-only and frontmatter-locked
+ * editors open in Live preview, and the editor extension in `editor-lock.ts`
+ * filters their changes.
+ */
+function toMarkdownModeState(mode: EnforcedViewMode): MarkdownModeState {
+	if (mode === 'reading') {
+		return { mode: 'preview' };
+	}
+	return { mode: 'source', source: mode === 'source' };
+}
+
+function getStateViewMode(state: MarkdownModeState | undefined): EnforcedViewMode | null {
+	if (state?.mode === 'preview') {
+		return 'reading';
+	}
+	if (state?.mode === 'source') {
+		return state.source === true ? 'source' : 'live';
+	}
+	return null;
+}
+
 function isLayoutChangeReason(reason: string): boolean {
 	return reason.includes('workspace-events:layout-change');
 }
@@ -86,39 +125,45 @@ class DefaultEnforcementService implements EnforcementService {
 		}
 
 		const file = leaf.view.file;
-		if (!file) {
-			return;
+		const isCandidate = file !== null && file.extension === 'md' && this.dependencies.isTemporarilyUnlocked?.(file.path) !== true;
+		const settings = this.dependencies.getSettings();
+		let targetMode = isCandidate ? resolveEnforcedMode(file.path, settings, this.dependencies.resolveMetadata) : null;
+		if (isCandidate && this.dependencies.isTemporarilyLocked?.(file.path) === true) {
+			targetMode = applyTemporaryLock(targetMode, settings);
 		}
-		if (file.extension !== 'md') {
-			return;
+		// The leaf may have switched to a note with another mode, so the classes are reset on every pass.
+		leaf.view.containerEl.toggleClass(PROPERTIES_LOCKED_CLASS, targetMode === 'frontmatter');
+		leaf.view.containerEl.toggleClass(RENDERED_EDITS_LOCKED_CLASS, settings.blockRenderedEdits && isReadOnlyMode(targetMode));
+		applyModeButtonControl(leaf.view, settings.modeSwitchControl, isReadOnlyMode(targetMode));
+		if (file !== null && file.extension === 'md') {
+			this.dependencies.onLeafChecked?.(file.path, targetMode, reason);
 		}
-		if (this.getLeafMode(leaf) === 'preview') {
+		if (targetMode === null || satisfiesEnforcedMode(this.getLeafMode(leaf), targetMode)) {
 			return;
 		}
 
-		const settings = this.dependencies.getSettings();
-		if (!shouldForceReadOnly(file.path, settings)) {
-			return;
-		}
-
-		await this.ensurePreview(leaf, reason);
+		await this.ensureMode(leaf, targetMode, reason);
 	}
 
-	private getLeafMode(leaf: WorkspaceLeaf): string | null {
+	private getLeafMode(leaf: WorkspaceLeaf): EnforcedViewMode | null {
 		if (!(leaf.view instanceof MarkdownView)) {
 			return null;
 		}
-		const stateMode = (leaf.getViewState().state as { mode?: string } | undefined)?.mode;
-		if (stateMode) {
-			return stateMode;
+		const state = leaf.getViewState().state as MarkdownModeState | undefined;
+		if (state?.mode) {
+			return getStateViewMode(state);
 		}
 		if (typeof leaf.view.getMode === 'function') {
-			return leaf.view.getMode();
+			return getStateViewMode({ mode: leaf.view.getMode() });
 		}
 		return null;
 	}
 
 	async ensurePreview(leaf: WorkspaceLeaf, reason: string): Promise<void> {
+		await this.ensureMode(leaf, 'reading', reason);
+	}
+
+	async ensureMode(leaf: WorkspaceLeaf, targetMode: EnforcedViewMode, reason: string): Promise<void> {
 		if (!(leaf.view instanceof MarkdownView)) {
 			return;
 		}
@@ -130,11 +175,12 @@ class DefaultEnforcementService implements EnforcementService {
 		const filePath = this.dependencies.formatPathForDebug(file.path, settings.debugVerbosePaths);
 
 		const beforeMode = this.getLeafMode(leaf);
-		if (beforeMode === 'preview') {
+		if (satisfiesEnforcedMode(beforeMode, targetMode)) {
 			this.dependencies.logDebug('ensure-preview-skip', {
 				reason,
 				filePath,
-				skipReason: 'already-preview',
+				targetMode,
+				skipReason: 'already-in-mode',
 			});
 			return;
 		}
@@ -148,6 +194,7 @@ class DefaultEnforcementService implements EnforcementService {
 			this.dependencies.logDebug('ensure-preview-skip', {
 				reason,
 				filePath,
+				targetMode,
 				skipReason: 'throttled',
 				throttleMs,
 			});
@@ -159,6 +206,7 @@ class DefaultEnforcementService implements EnforcementService {
 			this.dependencies.logDebug('ensure-preview-skip', {
 				reason,
 				filePath,
+				targetMode,
 				skipReason: 'non-markdown-state',
 			});
 			return;
@@ -168,7 +216,7 @@ class DefaultEnforcementService implements EnforcementService {
 			...currentState,
 			state: {
 				...currentState.state,
-				mode: 'preview',
+				...toMarkdownModeState(targetMode),
 			},
 		};
 
@@ -182,15 +230,17 @@ class DefaultEnforcementService implements EnforcementService {
 			this.dependencies.logDebug('ensure-preview-skip', {
 				reason,
 				filePath,
+				targetMode,
 				skipReason: 'non-markdown-state-after-frame',
 			});
 			return;
 		}
-		if ((refreshedState.state as { mode?: string } | undefined)?.mode === 'preview') {
+		if (satisfiesEnforcedMode(getStateViewMode(refreshedState.state as MarkdownModeState | undefined), targetMode)) {
 			this.dependencies.logDebug('ensure-preview-skip', {
 				reason,
 				filePath,
-				skipReason: 'already-preview-after-frame',
+				targetMode,
+				skipReason: 'already-in-mode-after-frame',
 			});
 			return;
 		}
@@ -206,16 +256,19 @@ class DefaultEnforcementService implements EnforcementService {
 			this.dependencies.logDebug('ensure-preview-fallback', {
 				reason,
 				filePath,
+				targetMode,
 				errorType: errorInfo.errorType,
 				errorMessage: errorInfo.errorMessage,
 			});
 			await leaf.setViewState(nextState, false);
 		}
 
-		const afterMode = (leaf.getViewState().state as { mode?: string } | undefined)?.mode ?? this.getLeafMode(leaf);
+		const afterMode = this.getLeafMode(leaf);
+		// `ensure-preview*` names predate the other modes; kept so existing log filters still match.
 		this.dependencies.logDebug('ensure-preview', {
 			reason,
 			filePath,
+			targetMode,
 			beforeMode,
 			afterMode,
 		});
@@ -0,0 +1,167 @@
+import type { WorkspaceLeaf } from 'obsidian';
+
+export const EXPLORER_BADGE_CLASS = 'read-only-view-explorer-locked';
+export const EXPLORER_BADGE_CHUNK_SIZE = 500;
+const EXPLORER_BADGE_REFRESH_DELAY_MS = 100;
+
+/*
+ * The file explorer keeps one item per vault path in the undocumented
+ * `fileItems` map; `selfEl` is the clickable title row. Only the fields used
+ * here are typed, and every access is guarded.
+ */
+type ExplorerFileItem = {
+	selfEl?: HTMLElement;
+	file?: {
+		path: string;
+		extension?: string;
+		children?: unknown[];
+	};
+};
+
+type ExplorerView = {
+	fileItems?: Record<string, ExplorerFileItem>;
+};
+
+export interface ExplorerBadgeDependencies {
+	getExplorerLeaves: () => WorkspaceLeaf[];
+	isReadOnlyFile: (path: string) => boolean;
+	isFolderLocked: (path: string) => boolean;
+	logDebug: (message: string, payload?: Record<string, unknown>) => void;
+}
+
+export interface ExplorerBadgeService {
+	scheduleRefresh: (reason: string) => void;
+	refreshPaths: (paths: string[]) => void;
+	refreshNewExplorers: () => void;
+	clear: () => void;
+}
+
+function getFileItems(leaf: WorkspaceLeaf): Record<string, ExplorerFileItem> | null {
+	const fileItems = (leaf.view as unknown as ExplorerView | undefined)?.fileItems;
+	return fileItems && typeof fileItems === 'object' ? fileItems : null;
+}
+
+class DefaultExplorerBadgeService implements ExplorerBadgeService {
+	private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+	private chunkTimer: ReturnType<typeof setTimeout> | null = null;
+	private pendingReasons = new Set<string>();
+	private seenExplorerViews = new WeakSet<object>();
+
+	constructor(private readonly dependencies: ExplorerBadgeDependencies) {}
+
+	scheduleRefresh(reason: string): void {
+		this.pendingReasons.add(reason);
+		if (this.refreshTimer) {
+			return;
+		}
+		this.refreshTimer = setTimeout(() => {
+			this.refreshTimer = null;
+			const reasons = Array.from(this.pendingReasons);
+			this.pendingReasons.clear();
+			this.refreshAll(reasons);
+		}, EXPLORER_BADGE_REFRESH_DELAY_MS);
+	}
+
+	refreshPaths(paths: string[]): void {
+		for (const leaf of this.dependencies.getExplorerLeaves()) {
+			const fileItems = getFileItems(leaf);
+			if (!fileItems) {
+				continue;
+			}
+			for (const path of paths) {
+				const item = fileItems[path];
+				if (item) {
+					this.applyBadge(item);
+				}
+			}
+		}
+	}
+
+	// Explorer items are rebuilt when the explorer view is (re)opened, so a new view needs a full pass.
+	refreshNewExplorers(): void {
+		const hasNewExplorer = this.dependencies.getExplorerLeaves().some((leaf) => {
+			const view = leaf.view as object | undefined;
+			return view !== undefined && !this.seenExplorerViews.has(view);
+		});
+		if (hasNewExplorer) {
+			this.scheduleRefresh('explorer-opened');
+		}
+	}
+
+	clear(): void {
+		this.cancelTimers();
+		for (const leaf of this.dependencies.getExplorerLeaves()) {
+			for (const item of Object.values(getFileItems(leaf) ?? {})) {
+				item.selfEl?.removeClass(EXPLORER_BADGE_CLASS);
+			}
+		}
+	}
+
+	private refreshAll(reasons: string[]): void {
+		if (this.chunkTimer) {
+			clearTimeout(this.chunkTimer);
+			this.chunkTimer = null;
+		}
+		const leaves = this.dependencies.getExplorerLeaves();
+		for (const leaf of leaves) {
+			if (leaf.view) {
+				this.seenExplorerViews.add(leaf.view);
+			}
+		}
+		const items = leaves.flatMap((leaf) => Object.values(getFileItems(leaf) ?? {}));
+		this.dependencies.logDebug('explorer-badges-refresh', {
+			reasons,
+			itemCount: items.length,
+		});
+		this.processChunk(items, 0);
+	}
+
+	// Large vaults are processed in chunks so one refresh never blocks the UI for long.
+	private processChunk(items: ExplorerFileItem[], start: number): void {
+		const end = Math.min(items.length, start + EXPLORER_BADGE_CHUNK_SIZE);
+		for (let index = start; index < end; index++) {
+			const item = items[index];
+			if (item) {
+				this.applyBadge(item);
+			}
+		}
+		if (end >= items.length) {
+			this.chunkTimer = null;
+			return;
+		}
+		this.chunkTimer = setTimeout(() => {
+			this.processChunk(items, end);
+		}, 0);
+	}
+
+	private applyBadge(item: ExplorerFileItem): void {
+		const { selfEl, file } = item;
+		if (!selfEl || !file) {
+			return;
+		}
+		const isFolder = Array.isArray(file.children);
+		const locked = isFolder
+			? this.dependencies.isFolderLocked(file.path)
+			: file.extension === 'md' && this.dependencies.isReadOnlyFile(file.path);
+		// Reading classList is cheap; only write when the state actually changes.
+		if (selfEl.classList.contains(EXPLORER_BADGE_CLASS) !== locked) {
+			selfEl.toggleClass(EXPLORER_BADGE_CLASS, locked);
+		}
+	}
+
+	private cancelTimers(): void {
+		if (this.refreshTimer) {
+			clearTimeout(this.refreshTimer);
+			this.refreshTimer = null;
+		}
+		if (this.chunkTimer) {
+			clearTimeout(this.chunkTimer);
+			this.chunkTimer = null;
+		}
+		this.pendingReasons.clear();
+	}
+}
+
+export function createExplorerBadgeService(dependencies: ExplorerBadgeDependencies): ExplorerBadgeService {
+	return new DefaultExplorerBadgeService(dependencies);
+}
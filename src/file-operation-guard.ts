@@ -0,0 +1,193 @@
+import type { FileOperationGuardMode } from './matcher';
+import { normalizeVaultPath } from './path-utils';
+
+// Deleted protected notes kept in memory for restoring.
+export const DELETED_NOTE_CAP = 50;
+
+export type FileOperation = 'delete' | 'rename';
+
+type GuardedFile = { path: string };
+
+// The `Vault` and `FileManager` methods that are wrapped.
+export interface GuardableVault {
+	trash(file: GuardedFile, system: boolean): Promise<void>;
+	delete(file: GuardedFile, force?: boolean): Promise<void>;
+	rename(file: GuardedFile, newPath: string): Promise<void>;
+}
+
+export interface GuardableFileManager {
+	trashFile(file: GuardedFile): Promise<void>;
+	renameFile(file: GuardedFile, newPath: string): Promise<void>;
+}
+
+type GuardedMethod =
+	| { owner: 'vault'; name: keyof GuardableVault; operation: FileOperation }
+	| { owner: 'fileManager'; name: keyof GuardableFileManager; operation: FileOperation };
+
+/*
+ * The file explorer, the delete/move commands and most plugins go through
+ * `fileManager`; the vault methods catch the rest. `fileManager` calls the
+ * vault methods itself, so an operation already confirmed for a path passes
+ * the inner call without asking again.
+ */
+const GUARDED_METHODS: readonly GuardedMethod[] = [
+	{ owner: 'fileManager', name: 'trashFile', operation: 'delete' },
+	{ owner: 'fileManager', name: 'renameFile', operation: 'rename' },
+	{ owner: 'vault', name: 'trash', operation: 'delete' },
+	{ owner: 'vault', name: 'delete', operation: 'delete' },
+	{ owner: 'vault', name: 'rename', operation: 'rename' },
+];
+
+export type FileOperationTargets = {
+	vault: GuardableVault | null;
+	fileManager: GuardableFileManager | null;
+};
+
+export type FileOperationRequest = {
+	operation: FileOperation;
+	path: string;
+	newPath: string | null;
+	protectedNotes: string[];
+};
+
+export type DeletedNote = {
+	path: string;
+	content: string;
+	deletedAt: number;
+};
+
+export interface FileOperationGuardDependencies {
+	getMode: () => FileOperationGuardMode;
+	getTargets: () => FileOperationTargets;
+	// Read-only notes affected by the operation: the note itself or the notes inside a folder.
+	getProtectedNotes: (path: string) => string[];
+	confirm: (request: FileOperationRequest) => Promise<boolean>;
+	onRefused: (request: FileOperationRequest, reason: 'blocked' | 'cancelled') => void;
+	readFile: (path: string) => Promise<string | null>;
+	logDebug: (message: string, payload?: Record<string, unknown>) => void;
+	now?: () => number;
+}
+
+export interface FileOperationGuardService {
+	install: () => void;
+	uninstall: () => void;
+	getDeletedNotes: () => DeletedNote[];
+	takeDeletedNote: (path: string) => DeletedNote | null;
+}
+
+function getOperationPath(file: unknown): string | null {
+	const path = (file as { path?: unknown } | null)?.path;
+	return typeof path === 'string' ? normalizeVaultPath(path) : null;
+}
+
+/*
+ * Asks before (or refuses) deleting, renaming and moving read-only notes and
+ * folders that contain them. The content of protected notes is kept before a
+ * confirmed deletion so they can be restored afterwards.
+ */
+class DefaultFileOperationGuardService implements FileOperationGuardService {
+	private readonly restores: Array<() => void> = [];
+	private readonly approvedPaths = new Set<string>();
+	private deletedNotes: DeletedNote[] = [];
+	private readonly now: () => number;
+
+	constructor(private readonly dependencies: FileOperationGuardDependencies) {
+		this.now = dependencies.now ?? (() => Date.now());
+	}
+
+	install(): void {
+		if (this.restores.length > 0) {
+			return;
+		}
+		const targets = this.dependencies.getTargets();
+		for (const method of GUARDED_METHODS) {
+			const owner = targets[method.owner];
+			// Methods are swapped by name, so they are read and written through `Reflect`.
+			const original: unknown = owner ? Reflect.get(owner, method.name) : undefined;
+			if (!owner || typeof original !== 'function') {
+				this.dependencies.logDebug('file-operation-method-missing', { method: `${method.owner}.${method.name}` });
+				continue;
+			}
+			const wrapped = (file: unknown, ...args: unknown[]) => this.guard(method.operation, file, args, (): unknown => Reflect.apply(original, owner, [file, ...args]));
+			Reflect.set(owner, method.name, wrapped);
+			this.restores.push(() => {
+				Reflect.set(owner, method.name, original);
+			});
+		}
+	}
+
+	uninstall(): void {
+		for (const restore of this.restores.splice(0)) {
+			restore();
+		}
+		this.approvedPaths.clear();
+	}
+
+	getDeletedNotes(): DeletedNote[] {
+		return [...this.deletedNotes];
+	}
+
+	takeDeletedNote(path: string): DeletedNote | null {
+		const normalizedPath = normalizeVaultPath(path);
+		const index = this.deletedNotes.findIndex((note) => note.path === normalizedPath);
+		if (index === -1) {
+			return null;
+		}
+		const [note] = this.deletedNotes.splice(index, 1);
+		return note ?? null;
+	}
+
+	private async guard(operation: FileOperation, file: unknown, args: unknown[], runOriginal: () => unknown): Promise<unknown> {
+		const path = getOperationPath(file);
+		const mode = this.dependencies.getMode();
+		if (mode === 'off' || path === null || this.approvedPaths.has(path)) {
+			return await runOriginal();
+		}
+		const protectedNotes = this.dependencies.getProtectedNotes(path);
+		if (protectedNotes.length === 0) {
+			return await runOriginal();
+		}
+		const newPath = operation === 'rename' && typeof args[0] === 'string' ? normalizeVaultPath(args[0]) : null;
+		const request: FileOperationRequest = { operation, path, newPath, protectedNotes };
+		if (mode === 'block') {
+			this.dependencies.onRefused(request, 'blocked');
+			return undefined;
+		}
+		if (!(await this.dependencies.confirm(request))) {
+			this.dependencies.onRefused(request, 'cancelled');
+			return undefined;
+		}
+
+		this.approvedPaths.add(path);
+		try {
+			if (operation === 'delete') {
+				await this.rememberDeletedNotes(protectedNotes);
+			}
+			return await runOriginal();
+		} finally {
+			this.approvedPaths.delete(path);
+		}
+	}
+
+	private async rememberDeletedNotes(paths: string[]): Promise<void> {
+		const keptPaths = paths.slice(0, DELETED_NOTE_CAP);
+		if (keptPaths.length < paths.length) {
+			this.dependencies.logDebug('deleted-notes-not-kept', { kept: keptPaths.length, skipped: paths.length - keptPaths.length });
+		}
+		for (const path of keptPaths) {
+			const content = await this.dependencies.readFile(path);
+			if (content === null) {
+				continue;
+			}
+			this.deletedNotes = this.deletedNotes.filter((note) => note.path !== path);
+			this.deletedNotes.push({ path, content, deletedAt: this.now() });
+		}
+		if (this.deletedNotes.length > DELETED_NOTE_CAP) {
+			this.deletedNotes.splice(0, this.deletedNotes.length - DELETED_NOTE_CAP);
+		}
+	}
+}
+
+export function createFileOperationGuardService(dependencies: FileOperationGuardDependencies): FileOperationGuardService {
+	return new DefaultFileOperationGuardService(dependencies);
+}
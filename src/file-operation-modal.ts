@@ -0,0 +1,79 @@
+import { App, Modal, Setting } from 'obsidian';
+import { DELETED_NOTE_CAP, type FileOperationRequest } from './file-operation-guard';
+
+// Lists at most this many affected notes.
+const LISTED_NOTE_CAP = 10;
+
+export function describeFileOperation(request: FileOperationRequest): string {
+	if (request.operation === 'delete') {
+		return `Delete ${request.path}`;
+	}
+	return request.newPath ? `Move ${request.path} to ${request.newPath}` : `Rename ${request.path}`;
+}
+
+// Closing the modal without a choice cancels the operation.
+export class FileOperationModal extends Modal {
+	private decided = false;
+
+	constructor(
+		app: App,
+		private readonly request: FileOperationRequest,
+		private readonly onDecide: (confirmed: boolean) => void,
+	) {
+		super(app);
+	}
+
+	onOpen(): void {
+		const { contentEl, titleEl } = this;
+		const { operation, protectedNotes } = this.request;
+		titleEl.setText(operation === 'delete' ? 'Delete protected notes?' : 'Move protected notes?');
+		contentEl.createEl('p', {
+			text: operation === 'delete'
+				? `${describeFileOperation(this.request)}? These read-only notes would be deleted:`
+				: `${describeFileOperation(this.request)}? Rules that match these read-only notes by path may stop matching:`,
+		});
+		const listEl = contentEl.createEl('ul', { cls: 'read-only-view-file-operation-notes' });
+		for (const path of protectedNotes.slice(0, LISTED_NOTE_CAP)) {
+			listEl.createEl('li', { text: path });
+		}
+		if (protectedNotes.length > LISTED_NOTE_CAP) {
+			listEl.createEl('li', { text: `${protectedNotes.length - LISTED_NOTE_CAP} more` });
+		}
+		if (operation === 'delete' && protectedNotes.length > DELETED_NOTE_CAP) {
+			contentEl.createEl('p', {
+				text: `Only the first ${DELETED_NOTE_CAP} of these notes can be restored afterwards; the other ${protectedNotes.length - DELETED_NOTE_CAP} cannot.`,
+			});
+		}
+
+		new Setting(contentEl)
+			.addButton((button) => {
+				button
+					.setButtonText('Cancel')
+					.onClick(() => {
+						this.decide(false);
+					});
+			})
+			.addButton((button) => {
+				button
+					.setButtonText(operation === 'delete' ? 'Delete anyway' : 'Move anyway')
+					.setWarning()
+					.onClick(() => {
+						this.decide(true);
+					});
+			});
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+		if (!this.decided) {
+			this.decided = true;
+			this.onDecide(false);
+		}
+	}
+
+	private decide(confirmed: boolean): void {
+		this.decided = true;
+		this.onDecide(confirmed);
+		this.close();
+	}
+}
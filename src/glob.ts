@@ -0,0 +1,358 @@
+/*
+ * Glob syntax on top of `*`, `**`, `?` and `/**\/`:
+ * - `{a,b}` alternation (nestable; a group without a top-level comma is literal)
+ * - `[abc]`, `[a-z]`, `[!x]` / `[^x]` character classes (never match `/`)
+ * - `@(a|b)`, `?(a|b)`, `!(a|b)`, `*(a|b)`, `+(a|b)` extglob groups
+ * - `\` escapes the next special character
+ *
+ * Unclosed or invalid constructs are matched literally and reported as issues
+ * for the rule diagnostics.
+ */
+
+const EXTGLOB_PREFIXES = '?*+@!';
+// `!(...)` inlines the rest of the pattern, so every further negation doubles the regex.
+export const GLOB_MAX_NEGATIONS = 4;
+export const GLOB_ESCAPABLE_CHARACTERS = '*?[]{}()|,!@+';
+
+export type CompiledGlob = {
+	source: string;
+	issues: string[];
+};
+
+type ClassItem = { from: string; to: string };
+
+type ParsedClass = {
+	negated: boolean;
+	items: ClassItem[];
+};
+
+function escapeRegexLiteral(value: string): string {
+	return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function escapeClassCharacter(value: string): string {
+	return /[\\\]^[-]/.test(value) ? `\\${value}` : value;
+}
+
+function isExtglobOpener(pattern: string, index: number): boolean {
+	const prefix = pattern[index];
+	return prefix !== undefined && EXTGLOB_PREFIXES.includes(prefix) && pattern[index + 1] === '(';
+}
+
+// Index of the `]` closing the class opened at `start`, or -1. Classes never span a `/`.
+function findClassEnd(pattern: string, start: number): number {
+	let index = start + 1;
+	if (pattern[index] === '!' || pattern[index] === '^') {
+		index += 1;
+	}
+	if (pattern[index] === ']') {
+		index += 1;
+	}
+	while (index < pattern.length) {
+		const char = pattern[index];
+		if (char === '/') {
+			return -1;
+		}
+		if (char === '\\') {
+			index += 2;
+			continue;
+		}
+		if (char === ']') {
+			return index;
+		}
+		index += 1;
+	}
+	return -1;
+}
+
+function parseClass(body: string): ParsedClass | string {
+	let index = 0;
+	const negated = body[0] === '!' || body[0] === '^';
+	if (negated) {
+		index = 1;
+	}
+	const readChar = (): string | undefined => {
+		const char = body[index];
+		if (char === '\\' && index + 1 < body.length) {
+			index += 2;
+			return body[index - 1];
+		}
+		index += 1;
+		return char;
+	};
+
+	const items: ClassItem[] = [];
+	while (index < body.length) {
+		const from = readChar();
+		if (from === undefined) {
+			break;
+		}
+		if (body[index] === '-' && index + 1 < body.length) {
+			index += 1;
+			const to = readChar() ?? from;
+			if (to < from) {
+				return `Character class range "${from}-${to}" is reversed.`;
+			}
+			items.push({ from, to });
+			continue;
+		}
+		items.push({ from, to: from });
+	}
+	return { negated, items };
+}
+
+class GlobCompiler {
+	private readonly closers = new Map<number, number>();
+	private readonly classes = new Map<number, ParsedClass>();
+	// Extglob groups over a limit: paired so they nest correctly, but matched literally.
+	private readonly literalGroups = new Set<number>();
+	private readonly issues: string[] = [];
+	private groupCounter = 0;
+
+	constructor(private readonly pattern: string) {
+		this.scan();
+	}
+
+	compile(): CompiledGlob {
+		return {
+			source: `^${this.compileRange(0, this.pattern.length)}$`,
+			issues: this.issues,
+		};
+	}
+
+	// One linear pass pairs every bracket up front, so compiling never has to backtrack.
+	private scan(): void {
+		const { pattern } = this;
+		const stack: Array<{ index: number; closer: string }> = [];
+		let negations = 0;
+		let segmentHasNegation = false;
+		for (let index = 0; index < pattern.length; index++) {
+			const char = pattern[index];
+			if (char === '\\') {
+				index += 1;
+				continue;
+			}
+			if (char === '/') {
+				segmentHasNegation = false;
+			}
+			if (char === '[') {
+				const end = findClassEnd(pattern, index);
+				if (end === -1) {
+					this.issues.push(`Unclosed "[" at position ${index + 1} is matched literally.`);
+					continue;
+				}
+				const parsed = parseClass(pattern.slice(index + 1, end));
+				if (typeof parsed === 'string') {
+					this.issues.push(`${parsed} The class is matched literally.`);
+					continue;
+				}
+				this.closers.set(index, end);
+				this.classes.set(index, parsed);
+				index = end;
+				continue;
+			}
+			if (char === '{') {
+				stack.push({ index, closer: '}' });
+				continue;
+			}
+			if (isExtglobOpener(pattern, index)) {
+				// Chained negations in one segment backtrack exponentially.
+				if (char === '!' && segmentHasNegation) {
+					this.issues.push(`"!(" at position ${index + 1} is matched literally: only one "!(...)" per path segment is supported.`);
+					this.literalGroups.add(index + 1);
+				} else if (char === '!' && negations === GLOB_MAX_NEGATIONS) {
+					this.issues.push(`"!(" at position ${index + 1} is matched literally: at most ${GLOB_MAX_NEGATIONS} "!(...)" groups are supported.`);
+					this.literalGroups.add(index + 1);
+				} else if (char === '!') {
+					negations += 1;
+					segmentHasNegation = true;
+				}
+				stack.push({ index: index + 1, closer: ')' });
+				index += 1;
+				continue;
+			}
+			const open = stack[stack.length - 1];
+			if (open && char === open.closer) {
+				stack.pop();
+				this.closers.set(open.index, index);
+			}
+		}
+		for (const open of stack) {
+			this.issues.push(`Unclosed "${this.pattern[open.index] ?? ''}" at position ${open.index + 1} is matched literally.`);
+		}
+	}
+
+	private splitTopLevel(start: number, end: number, separator: string): Array<[number, number]> {
+		const ranges: Array<[number, number]> = [];
+		let rangeStart = start;
+		for (let index = start; index < end; index++) {
+			const char = this.pattern[index];
+			if (char === '\\') {
+				index += 1;
+				continue;
+			}
+			const closer = this.closers.get(index);
+			if (closer !== undefined) {
+				index = closer;
+				continue;
+			}
+			if (char === separator) {
+				ranges.push([rangeStart, index]);
+				rangeStart = index + 1;
+			}
+		}
+		ranges.push([rangeStart, end]);
+		return ranges;
+	}
+
+	private compileAlternatives(ranges: Array<[number, number]>): string {
+		return `(?:${ranges.map(([start, end]) => this.compileRange(start, end)).join('|')})`;
+	}
+
+	private compileRange(start: number, end: number): string {
+		const { pattern } = this;
+		let source = '';
+		for (let index = start; index < end; index++) {
+			const char = pattern[index];
+			if (char === undefined) {
+				continue;
+			}
+			if (char === '\\' && index + 1 < end) {
+				source += escapeRegexLiteral(pattern[index + 1] ?? '');
+				index += 1;
+				continue;
+			}
+			if (pattern.startsWith('/**/', index) && index + 4 <= end) {
+				source += '/(?:.*/)?';
+				index += 3;
+				continue;
+			}
+
+			const extglobCloser = isExtglobOpener(pattern, index) && !this.literalGroups.has(index + 1)
+				? this.closers.get(index + 1)
+				: undefined;
+			if (extglobCloser !== undefined && extglobCloser < end) {
+				source += this.compileExtglob(char, index + 2, extglobCloser, end);
+				index = extglobCloser;
+				continue;
+			}
+
+			if (char === '*') {
+				if (pattern[index + 1] === '*' && index + 1 < end) {
+					source += '.*';
+					index += 1;
+				} else {
+					source += '[^/]*';
+				}
+				continue;
+			}
+			if (char === '?') {
+				source += '[^/]';
+				continue;
+			}
+
+			const closer = this.closers.get(index);
+			if (char === '[' && closer !== undefined) {
+				source += this.compileClass(index);
+				index = closer;
+				continue;
+			}
+			if (char === '{' && closer !== undefined && closer < end) {
+				const alternatives = this.splitTopLevel(index + 1, closer, ',');
+				if (alternatives.length > 1) {
+					source += this.compileAlternatives(alternatives);
+					index = closer;
+					continue;
+				}
+			}
+			source += escapeRegexLiteral(char);
+		}
+		return source;
+	}
+
+	private compileClass(index: number): string {
+		const parsed = this.classes.get(index);
+		if (!parsed) {
+			return '';
+		}
+		const items = parsed.items
+			.map((item) => (item.from === item.to
+				? escapeClassCharacter(item.from)
+				: `${escapeClassCharacter(item.from)}-${escapeClassCharacter(item.to)}`))
+			.join('');
+		return `(?!/)[${parsed.negated ? '^' : ''}${items}]`;
+	}
+
+	/*
+	 * `?(...)`, `*(...)` and `+(...)` use an atomic group (lookahead +
+	 * backreference), so an optional or repeated group never backtracks into its
+	 * alternatives and matching stays linear. `!(...)` rejects the alternatives
+	 * followed by the rest of the enclosing range; `scan` limits how many there
+	 * are.
+	 */
+	private compileExtglob(kind: string, start: number, closer: number, rangeEnd: number): string {
+		const group = this.compileAlternatives(this.splitTopLevel(start, closer, '|'));
+		if (kind === '@') {
+			return group;
+		}
+		if (kind === '!') {
+			const rest = this.compileRange(closer + 1, rangeEnd);
+			const anchor = rangeEnd === this.pattern.length ? '$' : '';
+			return `(?:(?!${group}${rest}${anchor})[^/]*?)`;
+		}
+		const name = `g${this.groupCounter++}`;
+		const atomic = `(?:(?=(?<${name}>${group}))\\k<${name}>)`;
+		if (kind === '?') {
+			return `${atomic}?`;
+		}
+		return kind === '+' ? `${atomic}+` : `${atomic}*`;
+	}
+}
+
+export function compileGlob(pattern: string): CompiledGlob {
+	return new GlobCompiler(pattern).compile();
+}
+
+export function getGlobSyntaxIssues(pattern: string): string[] {
+	return compileGlob(pattern).issues;
+}
+
+// Index of the first unescaped character that gives the pattern glob meaning, or -1.
+export function findGlobSyntaxIndex(pattern: string): number {
+	for (let index = 0; index < pattern.length; index++) {
+		const char = pattern[index];
+		if (char === '\\') {
+			index += 1;
+			continue;
+		}
+		if (char === '*' || char === '?' || char === '[' || char === '{' || isExtglobOpener(pattern, index)) {
+			return index;
+		}
+	}
+	return -1;
+}
+
+export function hasGlobSyntax(pattern: string): boolean {
+	return findGlobSyntaxIndex(pattern) !== -1;
+}
+
+export function unescapeGlobLiteral(value: string): string {
+	return value.replace(/\\(.)/g, '$1');
+}
+
+// Text before the first glob construct, with escapes resolved.
+export function getGlobLiteralPrefix(pattern: string): string {
+	const index = findGlobSyntaxIndex(pattern);
+	return unescapeGlobLiteral(index === -1 ? pattern : pattern.slice(0, index));
+}
+
+// Escapes a vault path so it matches itself literally as a glob.
+export function escapeGlobLiteral(path: string): string {
+	let escaped = '';
+	for (let index = 0; index < path.length; index++) {
+		const char = path[index] ?? '';
+		const isSpecial = '*?[]{}'.includes(char) || (EXTGLOB_PREFIXES.includes(char) && path[index + 1] === '(');
+		escaped += isSpecial ? `\\${char}` : char;
+	}
+	return escaped;
+}
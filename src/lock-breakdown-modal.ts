@@ -0,0 +1,38 @@
+import { App, Modal } from 'obsidian';
+import type { ForceReadModeSettings } from './matcher';
+import { buildPathTesterLines, describeDecidingRule, type PathTesterResult } from './rule-diagnostics';
+import { formatRemainingTime } from './temporary-overrides';
+
+export class LockBreakdownModal extends Modal {
+	constructor(
+		app: App,
+		private readonly result: PathTesterResult,
+		private readonly settings: ForceReadModeSettings,
+		private readonly temporaryUnlockRemainingMs: number | null,
+	) {
+		super(app);
+	}
+
+	onOpen(): void {
+		const { contentEl, titleEl } = this;
+		titleEl.setText(this.result.testPath);
+		contentEl.addClass('read-only-view-lock-breakdown');
+
+		contentEl.createEl('div', {
+			cls: 'read-only-view-lock-breakdown-decision',
+			text: `Decided by: ${describeDecidingRule(this.result, this.settings)}`,
+		});
+		if (this.temporaryUnlockRemainingMs !== null) {
+			contentEl.createEl('div', {
+				text: `Temporarily unlocked: ${formatRemainingTime(this.temporaryUnlockRemainingMs)} left`,
+			});
+		}
+		for (const line of buildPathTesterLines(this.result, this.settings)) {
+			contentEl.createEl('div', { text: line });
+		}
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+}
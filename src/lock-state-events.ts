@@ -0,0 +1,107 @@
+import type { LockStatus } from './lock-status';
+import type { ForceReadModeSettings, RuleMode } from './matcher';
+import { normalizeVaultPath } from './path-utils';
+
+// Triggered on `app.workspace`; listen with `app.workspace.on(LOCK_STATE_CHANGED_EVENT, (payload) => ...)`.
+export const LOCK_STATE_CHANGED_EVENT = 'read-only-view:lock-state-changed';
+export const RULES_SAVED_EVENT = 'read-only-view:rules-saved';
+export const ENABLED_CHANGED_EVENT = 'read-only-view:enabled-changed';
+
+// Last known states are kept for the most recently checked notes only.
+const LOCK_STATE_CAP = 500;
+
+export type LockStateChangedPayload = {
+	path: string;
+	oldState: LockStatus;
+	newState: LockStatus;
+	reason: string;
+};
+
+export type RulesSavedPayload = {
+	reason: string;
+	profileName: string;
+	ruleMode: RuleMode;
+};
+
+export type EnabledChangedPayload = {
+	oldState: boolean;
+	newState: boolean;
+	reason: string;
+};
+
+// Changes to anything that decides which notes are protected; other settings do not fire `RULES_SAVED_EVENT`.
+export function buildRulesKey(settings: ForceReadModeSettings): string {
+	return JSON.stringify([
+		settings.activeProfileName,
+		settings.ruleMode,
+		settings.includeRules,
+		settings.excludeRules,
+		settings.orderedRules,
+		settings.tagRules,
+		settings.useGlobPatterns,
+		settings.caseSensitive,
+	]);
+}
+
+export interface LockStateEventsDependencies {
+	onChange: (payload: LockStateChangedPayload) => void;
+}
+
+export interface LockStateEventsService {
+	observe: (path: string, state: LockStatus, reason: string) => boolean;
+	renamePath: (oldPath: string, newPath: string) => void;
+	forgetPath: (path: string) => void;
+	clear: () => void;
+}
+
+/*
+ * Remembers the lock state each open note was last checked in and reports a
+ * change when a later check disagrees. The first check of a note only records
+ * its state, so opening a note does not count as a change.
+ */
+class DefaultLockStateEventsService implements LockStateEventsService {
+	private readonly states = new Map<string, LockStatus>();
+
+	constructor(private readonly dependencies: LockStateEventsDependencies) {}
+
+	observe(path: string, state: LockStatus, reason: string): boolean {
+		const normalizedPath = normalizeVaultPath(path);
+		const oldState = this.states.get(normalizedPath);
+		if (oldState === state) {
+			return false;
+		}
+		if (oldState === undefined && this.states.size >= LOCK_STATE_CAP) {
+			const oldestPath = this.states.keys().next();
+			if (!oldestPath.done) {
+				this.states.delete(oldestPath.value);
+			}
+		}
+		this.states.set(normalizedPath, state);
+		if (oldState === undefined) {
+			return false;
+		}
+		this.dependencies.onChange({ path: normalizedPath, oldState, newState: state, reason });
+		return true;
+	}
+
+	renamePath(oldPath: string, newPath: string): void {
+		const normalizedOldPath = normalizeVaultPath(oldPath);
+		const state = this.states.get(normalizedOldPath);
+		this.states.delete(normalizedOldPath);
+		if (state !== undefined) {
+			this.states.set(normalizeVaultPath(newPath), state);
+		}
+	}
+
+	forgetPath(path: string): void {
+		this.states.delete(normalizeVaultPath(path));
+	}
+
+	clear(): void {
+		this.states.clear();
+	}
+}
+
+export function createLockStateEventsService(dependencies: LockStateEventsDependencies): LockStateEventsService {
+	return new DefaultLockStateEventsService(dependencies);
+}
@@ -0,0 +1,26 @@
+import { formatRemainingTime } from './temporary-overrides';
+
+// Lock state of a note as shown in the status bar and reported by lock state events.
+export type LockStatus = 'read-only' | 'append-only' | 'frontmatter-locked' | 'live-preview' | 'source-mode' | 'editable' | 'temporarily-unlocked';
+
+export function formatLockStatusText(status: LockStatus, remainingMs: number | null = null): string {
+	if (status === 'read-only') {
+		return 'Read-only';
+	}
+	if (status === 'append-only') {
+		return 'Append-only';
+	}
+	if (status === 'frontmatter-locked') {
+		return 'Frontmatter locked';
+	}
+	if (status === 'live-preview') {
+		return 'Live preview enforced';
+	}
+	if (status === 'source-mode') {
+		return 'Source mode enforced';
+	}
+	if (status !== 'temporarily-unlocked') {
+		return 'Editable';
+	}
+	return remainingMs === null ? 'Unlocked temporarily' : `Unlocked temporarily (${formatRemainingTime(remainingMs)} left)`;
+}
@@ -1,22 +1,105 @@
+import { Transaction } from '@codemirror/state';
 import {
+	Notice,
 	Plugin,
 	MarkdownView,
+	TFile,
+	TFolder,
 	WorkspaceLeaf,
+	type Menu,
+	type TAbstractFile,
 } from 'obsidian';
 import {
+	applyTemporaryLock,
 	DEFAULT_SETTINGS,
+	type FileMetadataResolver,
 	type ForceReadModeSettings,
+	isFolderFullyCovered,
 	normalizeVaultPath,
-	shouldForceReadOnly,
+	resolveEnforcedMode,
 } from './matcher';
+import { createReadOnlyViewApi, type ReadOnlyViewApi } from './api';
 import {
 	canRunDisableCommand,
 	canRunEnableCommand,
 	shouldReapplyAfterEnabledChange,
 } from './command-controls';
+import {
+	createCommandInterceptorService,
+	predictModeAfterCommand,
+	type CommandInterceptorService,
+	type CommandRegistry,
+	type MarkdownViewModeState,
+	type ModeCommandId,
+} from './command-interceptor';
+import { createEditorLockExtension, isUserEdit, reloadEditorContent, type ReloadableEditorView } from './editor-lock';
 import { createEnforcementService, type EnforcementService } from './enforcement';
+import { createEnforcementLogService, ENFORCEMENT_LOG_FILE_NAME, type EnforcementLogEntry, type EnforcementLogService } from './enforcement-log';
+import { EnforcementLogView, VIEW_TYPE_ENFORCEMENT_LOG } from './enforcement-log-view';
+import { createExplorerBadgeService, type ExplorerBadgeService } from './explorer-badges';
+import { DeletedNoteSuggestModal } from './deleted-note-suggest-modal';
+import {
+	createFileOperationGuardService,
+	type DeletedNote,
+	type FileOperationGuardService,
+	type FileOperationRequest,
+} from './file-operation-guard';
+import { describeFileOperation, FileOperationModal } from './file-operation-modal';
+import { LockBreakdownModal } from './lock-breakdown-modal';
+import {
+	buildRulesKey,
+	createLockStateEventsService,
+	ENABLED_CHANGED_EVENT,
+	LOCK_STATE_CHANGED_EVENT,
+	RULES_SAVED_EVENT,
+	type EnabledChangedPayload,
+	type LockStateEventsService,
+	type RulesSavedPayload,
+} from './lock-state-events';
+import { formatLockStatusText, type LockStatus } from './lock-status';
+import { createMetadataResolver } from './metadata';
+import { applyEditMenuControl, VIEW_MENU_SOURCES } from './mode-switch-controls';
 import { createPopoverObserverService, type PopoverObserverService } from './popover-observer';
+import { RuleProfileSuggestModal } from './profile-suggest-modal';
+import { ProtectedNotesView, VIEW_TYPE_PROTECTED_NOTES } from './protected-notes-view';
+import {
+	getNextProfileName,
+	normalizeProfiles,
+	switchProfile,
+	syncActiveProfile,
+} from './profiles';
+import { createRenameTrackingService, type RenameTrackingService } from './rename-tracking';
+import {
+	createRenderedEditGuardService,
+	isRenderedEditTarget,
+	RENDERED_EDIT_EVENTS,
+	type RenderedEditGuardService,
+} from './rendered-edit-guard';
+import {
+	appendRulesForPaths,
+	applyRuleRenames,
+	formatAppendRulesSummary,
+	formatRuleRenameSummary,
+	planRuleRenames,
+	setRuleList,
+	type PathRename,
+	type RuleListTarget,
+	type RuleRenameChange,
+	type RuleTargetPath,
+} from './rule-actions';
+import { buildPathTesterResult, describeDecidingRule } from './rule-diagnostics';
+import { isReadOnlyMode, satisfiesEnforcedMode, type EnforcedViewMode } from './rule-modes';
+import { RuleRenameModal } from './rule-rename-modal';
 import { ForceReadModeSettingTab } from './settings-tab';
+import { createWriteGuardService, type WriteGuardService } from './write-guard';
+import { WriteGuardLogModal } from './write-guard-log-modal';
+import { WriteGuardModal } from './write-guard-modal';
+import {
+	createTemporaryOverrideService,
+	formatRemainingTime,
+	type TemporaryOverrideEndReason,
+	type TemporaryOverrideService,
+} from './temporary-overrides';
 
 export function formatPathForDebug(path: string, verbosePaths: boolean): string {
 	const normalized = normalizeVaultPath(path);
@@ -31,16 +114,55 @@ export function formatPathForDebug(path: string, verbosePaths: boolean): string
 export default class ReadOnlyViewPlugin extends Plugin {
 	settings: ForceReadModeSettings = { ...DEFAULT_SETTINGS };
 	private static readonly WORKSPACE_EVENT_COALESCE_MS = 150;
-	private static readonly TARGETED_WORKSPACE_REASONS = new Set(['active-leaf-change', 'file-open']);
+	private static readonly TARGETED_WORKSPACE_REASONS = new Set(['active-leaf-change', 'file-open', 'metadata-changed']);
+	private static readonly BLOCKED_EDIT_NOTICE_INTERVAL_MS = 3000;
+	private static readonly STATUS_BAR_REFRESH_MS = 1000;
 
 	private enforcementService: EnforcementService | null = null;
+	private metadataResolver: FileMetadataResolver | null = null;
 	private popoverObserverService: PopoverObserverService | null = null;
+	private temporaryUnlockService: TemporaryOverrideService | null = null;
+	// A locked path is held read-only until it expires.
+	private temporaryLockService: TemporaryOverrideService | null = null;
+	private statusBarEl: HTMLElement | null = null;
+	private explorerBadgeService: ExplorerBadgeService | null = null;
+	private renameTrackingService: RenameTrackingService | null = null;
+	private renderedEditGuard: RenderedEditGuardService | null = null;
+	private writeGuard: WriteGuardService | null = null;
+	private fileOperationGuard: FileOperationGuardService | null = null;
+	private enforcementLog: EnforcementLogService | null = null;
+	private commandInterceptor: CommandInterceptorService | null = null;
+	private lockStateEvents: LockStateEventsService | null = null;
+	private lastSavedRulesKey: string | null = null;
 	private workspaceEventTimer: ReturnType<typeof setTimeout> | null = null;
+	private statusBarTimer: ReturnType<typeof setTimeout> | null = null;
 	private workspaceEventReasons = new Set<string>();
 	private workspaceEventLeaves = new Set<WorkspaceLeaf>();
+	private lastBlockedEditNoticeAt = 0;
+	// Set in onunload so late teardown and async callbacks do not re-create the enforcement log.
+	private unloaded = false;
+	private enforcementLogLoaded = false;
+
+	// Public API for other plugins: `app.plugins.getPlugin('read-only-view')?.api`.
+	readonly api: ReadOnlyViewApi = createReadOnlyViewApi({
+		getSettings: () => this.settings,
+		resolveMetadata: (path) => this.getMetadataResolver()(path),
+		getEnforcedMode: (path) => this.getEnforcedMode(path),
+		getTemporaryUnlockRemainingMs: (path) => this.getTemporaryUnlockService().getRemainingMs(path),
+		getTemporaryLockRemainingMs: (path) => this.getTemporaryLockService().getRemainingMs(path),
+		saveRules: async (reason) => {
+			this.logDebug('api-rules-change', { reason });
+			await this.saveSettings(reason);
+			await this.applyAllOpenMarkdownLeaves(reason);
+		},
+		lockTemporarily: (path, durationMs) => this.startTemporaryLock(path, durationMs, 'api'),
+		unlockTemporarily: (path, durationMs) => this.startTemporaryUnlock(path, durationMs, 'api'),
+	});
 
 	async onload(): Promise<void> {
+		this.unloaded = false;
 		await this.loadSettings();
+		await this.loadEnforcementLog();
 
 		this.addCommand({
 			id: 'toggle-plugin-enabled',
@@ -86,6 +208,127 @@ export default class ReadOnlyViewPlugin extends Plugin {
 			},
 		});
 
+		this.addCommand({
+			id: 'switch-rule-profile',
+			name: 'Switch rule profile',
+			checkCallback: (checking: boolean) => {
+				if (this.settings.profiles.length < 2) {
+					return false;
+				}
+				if (!checking) {
+					new RuleProfileSuggestModal(
+						this.app,
+						this.settings.profiles.map((profile) => profile.name),
+						this.settings.activeProfileName,
+						(name) => {
+							void this.switchRuleProfile(name, 'command-switch-profile');
+						},
+					).open();
+				}
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: 'switch-to-next-rule-profile',
+			name: 'Switch to next rule profile',
+			checkCallback: (checking: boolean) => {
+				const nextProfileName = getNextProfileName(this.settings);
+				if (!nextProfileName) {
+					return false;
+				}
+				if (!checking) {
+					void this.switchRuleProfile(nextProfileName, 'command-next-profile');
+				}
+				return true;
+			},
+		});
+
+		this.registerView(VIEW_TYPE_PROTECTED_NOTES, (leaf) => new ProtectedNotesView(leaf, this));
+		this.addCommand({
+			id: 'open-protected-notes-report',
+			name: 'Open protected notes report',
+			callback: async () => {
+				await this.openProtectedNotesView();
+			},
+		});
+
+		this.registerView(VIEW_TYPE_ENFORCEMENT_LOG, (leaf) => new EnforcementLogView(leaf, this));
+		this.addCommand({
+			id: 'open-enforcement-log',
+			name: 'Open enforcement log',
+			callback: async () => {
+				await this.openEnforcementLogView();
+			},
+		});
+
+		this.addCommand({
+			id: 'show-write-protection-log',
+			name: 'Show blocked modifications',
+			callback: () => {
+				const writeGuard = this.getWriteGuard();
+				new WriteGuardLogModal(this.app, writeGuard.getLog(), () => writeGuard.clearLog()).open();
+			},
+		});
+
+		this.addCommand({
+			id: 'restore-deleted-protected-note',
+			name: 'Restore deleted protected note',
+			checkCallback: (checking: boolean) => {
+				const deletedNotes = this.getFileOperationGuard().getDeletedNotes();
+				if (deletedNotes.length === 0) {
+					return false;
+				}
+				if (!checking) {
+					new DeletedNoteSuggestModal(this.app, deletedNotes, (note) => {
+						void this.restoreDeletedNote(note);
+					}).open();
+				}
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: 'unlock-current-note-temporarily',
+			name: 'Unlock current note for a few minutes',
+			checkCallback: (checking: boolean) => {
+				const file = this.getActiveMarkdownFile();
+				if (!file) {
+					return false;
+				}
+				const isUnlocked = this.getTemporaryUnlockService().isActive(file.path);
+				if (!isUnlocked && this.getEnforcedMode(file.path) === null) {
+					return false;
+				}
+				if (!checking) {
+					void this.unlockNoteTemporarily(file.path, 'command-unlock-temporarily');
+				}
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: 'relock-current-note',
+			name: 'Re-lock current note',
+			checkCallback: (checking: boolean) => {
+				const file = this.getActiveMarkdownFile();
+				if (!file || !this.getTemporaryUnlockService().isActive(file.path)) {
+					return false;
+				}
+				if (!checking) {
+					this.getTemporaryUnlockService().end(file.path, 'manual');
+				}
+				return true;
+			},
+		});
+
+		this.statusBarEl = this.addStatusBarItem();
+		this.statusBarEl.addClass('read-only-view-status-bar');
+		this.statusBarEl.setAttr('aria-label', 'Show which rules decide the lock state');
+		this.registerDomEvent(this.statusBarEl, 'click', () => {
+			this.openLockBreakdown();
+		});
+
 		this.registerEvent(this.app.workspace.on('file-open', () => {
 			this.scheduleWorkspaceEventReapply('file-open');
 		}));
@@ -94,8 +337,83 @@ export default class ReadOnlyViewPlugin extends Plugin {
 		}));
 		this.registerEvent(this.app.workspace.on('layout-change', () => {
 			this.invalidateLeafContainerCache();
+			this.relockClosedTemporaryUnlocks();
+			this.getExplorerBadgeService().refreshNewExplorers();
 			this.scheduleWorkspaceEventReapply('layout-change');
 		}));
+		this.registerEvent(this.app.metadataCache.on('changed', (file: TFile) => {
+			this.handleMetadataChanged(file);
+		}));
+		this.registerEvent(this.app.vault.on('rename', (file: TAbstractFile, oldPath: string) => {
+			this.getTemporaryUnlockService().renamePath(oldPath, file.path);
+			this.getTemporaryLockService().renamePath(oldPath, file.path);
+			this.getRenderedEditGuard().renamePath(oldPath, file.path);
+			this.getWriteGuard().renamePath(oldPath, file.path);
+			this.getLockStateEvents().renamePath(oldPath, file.path);
+			this.getExplorerBadgeService().scheduleRefresh('vault-rename');
+			this.requestProtectedNotesViewRefresh();
+			if (this.settings.ruleRenameTracking !== 'off') {
+				this.getRenameTrackingService().trackRename(oldPath, file.path);
+			}
+		}));
+		this.registerEvent(this.app.vault.on('create', () => {
+			this.getExplorerBadgeService().scheduleRefresh('vault-create');
+			this.requestProtectedNotesViewRefresh();
+		}));
+		this.registerEvent(this.app.vault.on('delete', (file: TAbstractFile) => {
+			this.getRenderedEditGuard().forgetPath(file.path);
+			this.getWriteGuard().forgetPath(file.path);
+			this.getLockStateEvents().forgetPath(file.path);
+			this.requestProtectedNotesViewRefresh();
+		}));
+		this.registerEvent(this.app.vault.on('modify', (file: TAbstractFile) => {
+			if (file instanceof TFile && file.extension === 'md') {
+				void this.handleVaultModify(file.path);
+			}
+		}));
+		this.registerEvent(this.app.workspace.on('file-menu', (menu: Menu, file: TAbstractFile, source: string) => {
+			this.addRuleMenuItems(menu, [file]);
+			this.controlViewMenuEditItems(menu, file, source);
+		}));
+		this.registerEvent(this.app.workspace.on('files-menu', (menu: Menu, files: TAbstractFile[]) => {
+			this.addRuleMenuItems(menu, files);
+		}));
+		this.app.workspace.onLayoutReady(() => {
+			this.getExplorerBadgeService().scheduleRefresh('layout-ready');
+			this.getCommandInterceptor().install();
+			this.getFileOperationGuard().install();
+		});
+
+		this.registerEditorExtension(createEditorLockExtension({
+			// Reading mode has no editor to type in; only the read-only editor needs the filter.
+			isLockedPath: (path) => this.getEnforcedMode(path) === 'locked',
+			isAppendOnlyPath: (path) => this.getEnforcedMode(path) === 'append',
+			isFrontmatterLockedPath: (path) => this.getEnforcedMode(path) === 'frontmatter',
+			onBlockedChange: (path, transaction, reason) => {
+				this.logDebug('editor-lock-blocked', {
+					filePath: formatPathForDebug(path, this.settings.debugVerbosePaths),
+					userEvent: transaction.annotation(Transaction.userEvent) ?? null,
+					reason,
+				});
+				if (!isUserEdit(transaction)) {
+					void this.reloadEditorsIfSaved(path, transaction.newDoc.toString());
+					return;
+				}
+				if (reason === 'append-only') {
+					this.showBlockedEditNotice('This note is append-only. Existing text cannot be changed; add new text at the end.');
+				} else if (reason === 'frontmatter') {
+					this.showBlockedEditNotice('The properties of this note are locked. The rest of the note stays editable.');
+				}
+			},
+		}));
+
+		if (typeof document !== 'undefined') {
+			for (const eventName of RENDERED_EDIT_EVENTS) {
+				this.registerDomEvent(document, eventName, (event: Event) => {
+					this.handleRenderedEditEvent(event);
+				}, { capture: true });
+			}
+		}
 
 		this.installMutationObserver();
 		this.addSettingTab(new ForceReadModeSettingTab(this.app, this));
@@ -104,18 +422,64 @@ export default class ReadOnlyViewPlugin extends Plugin {
 	}
 
 	onunload(): void {
+		this.unloaded = true;
 		if (this.workspaceEventTimer) {
 			clearTimeout(this.workspaceEventTimer);
 			this.workspaceEventTimer = null;
 		}
+		this.scheduleStatusBarRefresh(false);
 		this.workspaceEventReasons.clear();
 		this.workspaceEventLeaves.clear();
 		this.invalidateLeafContainerCache();
 		this.enforcementService = null;
+		this.metadataResolver = null;
+		this.statusBarEl = null;
+		if (this.renameTrackingService) {
+			this.renameTrackingService.clear();
+			this.renameTrackingService = null;
+		}
+		if (this.explorerBadgeService) {
+			this.explorerBadgeService.clear();
+			this.explorerBadgeService = null;
+		}
+		if (this.temporaryUnlockService) {
+			this.temporaryUnlockService.clear();
+			this.temporaryUnlockService = null;
+		}
+		if (this.temporaryLockService) {
+			this.temporaryLockService.clear();
+			this.temporaryLockService = null;
+		}
+		if (this.renderedEditGuard) {
+			this.renderedEditGuard.clear();
+			this.renderedEditGuard = null;
+		}
+		if (this.writeGuard) {
+			this.writeGuard.clear();
+			this.writeGuard = null;
+		}
+		if (this.fileOperationGuard) {
+			this.fileOperationGuard.uninstall();
+			this.fileOperationGuard = null;
+		}
+		if (this.commandInterceptor) {
+			this.commandInterceptor.uninstall();
+			this.commandInterceptor = null;
+		}
+		if (this.lockStateEvents) {
+			this.lockStateEvents.clear();
+			this.lockStateEvents = null;
+		}
 		if (this.popoverObserverService) {
 			this.popoverObserverService.stop();
 			this.popoverObserverService = null;
 		}
+		if (this.enforcementLog) {
+			void this.enforcementLog.flush();
+			this.enforcementLog.dispose();
+			this.enforcementLog = null;
+			this.enforcementLogLoaded = false;
+		}
 	}
 
 	async loadSettings(): Promise<void> {
@@ -125,23 +489,65 @@ export default class ReadOnlyViewPlugin extends Plugin {
 			...loaded,
 			includeRules: loaded?.includeRules ?? DEFAULT_SETTINGS.includeRules,
 			excludeRules: loaded?.excludeRules ?? DEFAULT_SETTINGS.excludeRules,
+			orderedRules: loaded?.orderedRules ?? DEFAULT_SETTINGS.orderedRules,
+			tagRules: loaded?.tagRules ?? DEFAULT_SETTINGS.tagRules,
+			profiles: loaded?.profiles ?? DEFAULT_SETTINGS.profiles,
 		};
+		normalizeProfiles(this.settings);
+		this.lastSavedRulesKey = buildRulesKey(this.settings);
 	}
 
-	async saveSettings(): Promise<void> {
+	async saveSettings(reason = 'settings-saved'): Promise<void> {
+		syncActiveProfile(this.settings);
 		await this.saveData(this.settings);
+		await this.loadEnforcementLog();
+		const rulesKey = buildRulesKey(this.settings);
+		if (rulesKey !== this.lastSavedRulesKey) {
+			this.lastSavedRulesKey = rulesKey;
+			this.logDebug('rules-saved', { reason });
+			const payload: RulesSavedPayload = { reason, profileName: this.settings.activeProfileName, ruleMode: this.settings.ruleMode };
+			this.app.workspace.trigger(RULES_SAVED_EVENT, payload);
+		}
+		this.updateStatusBar();
+		this.getExplorerBadgeService().scheduleRefresh('settings-saved');
+		this.requestProtectedNotesViewRefresh();
+	}
+
+	async switchRuleProfile(name: string, reason: string): Promise<void> {
+		const previousProfileName = this.settings.activeProfileName;
+		if (!switchProfile(this.settings, name)) {
+			return;
+		}
+		await this.saveSettings(`profile-switch:${reason}`);
+		this.logDebug('switch-profile', { from: previousProfileName, to: name, reason });
+		new Notice(`Rule profile: ${name}`);
+		await this.applyAllOpenMarkdownLeaves(`profile-switch:${reason}`);
 	}
 
-	private async setPluginEnabled(enabled: boolean, reason: string): Promise<void> {
+	async setPluginEnabled(enabled: boolean, reason: string): Promise<void> {
 		const previousEnabled = this.settings.enabled;
 		if (previousEnabled === enabled) {
 			return;
 		}
 		this.settings.enabled = enabled;
-		await this.saveSettings();
+		await this.saveSettings(reason);
 		this.logDebug('set-enabled', { enabled: this.settings.enabled, reason });
+		const payload: EnabledChangedPayload = { oldState: previousEnabled, newState: enabled, reason };
+		this.app.workspace.trigger(ENABLED_CHANGED_EVENT, payload);
 		if (shouldReapplyAfterEnabledChange(previousEnabled, enabled)) {
 			await this.applyAllOpenMarkdownLeaves(reason);
+		} else {
+			// Enforcement skips every leaf while disabled, so open notes are checked here.
+			this.observeOpenLockStates(reason);
+		}
+	}
+
+	private observeOpenLockStates(reason: string): void {
+		for (const leaf of this.app.workspace.getLeavesOfType('markdown')) {
+			const file = leaf.view instanceof MarkdownView ? leaf.view.file : null;
+			if (file && file.extension === 'md') {
+				this.getLockStateEvents().observe(file.path, this.getLockStatus(file.path), reason);
+			}
 		}
 	}
 
@@ -152,6 +558,14 @@ export default class ReadOnlyViewPlugin extends Plugin {
 				getMarkdownLeaves: () => this.app.workspace.getLeavesOfType('markdown'),
 				logDebug: (message, payload) => this.logDebug(message, payload),
 				formatPathForDebug,
+				resolveMetadata: this.getMetadataResolver(),
+				isTemporarilyUnlocked: (path) => this.getTemporaryUnlockService().isActive(path),
+				isTemporarilyLocked: (path) => this.getTemporaryLockService().isActive(path),
+				onLeafChecked: (path, _mode, reason) => {
+					void this.getRenderedEditGuard().trackPath(path);
+					void this.getWriteGuard().trackPath(path);
+					this.getLockStateEvents().observe(path, this.getLockStatus(path), reason);
+				},
 			});
 		}
 		return this.enforcementService;
@@ -162,15 +576,431 @@ export default class ReadOnlyViewPlugin extends Plugin {
 			this.popoverObserverService = createPopoverObserverService({
 				isEnabled: () => this.settings.enabled,
 				getMarkdownLeaves: () => this.app.workspace.getLeavesOfType('markdown'),
-				shouldForceReadOnlyPath: (path) => shouldForceReadOnly(path, this.settings),
+				// The locked editor stays an editor; only Reading mode notes are pulled out of popover editors.
+				shouldForceReadOnlyPath: (path) => this.getEnforcedMode(path) === 'reading',
 				ensurePreview: (leaf, reason) => this.getEnforcementService().ensurePreview(leaf, reason),
 			});
 		}
 		return this.popoverObserverService;
 	}
 
+	private getExplorerBadgeService(): ExplorerBadgeService {
+		if (!this.explorerBadgeService) {
+			this.explorerBadgeService = createExplorerBadgeService({
+				getExplorerLeaves: () => this.app.workspace.getLeavesOfType('file-explorer'),
+				isReadOnlyFile: (path) => this.isReadOnlyPath(path),
+				isFolderLocked: (path) => isFolderFullyCovered(path, this.settings),
+				logDebug: (message, payload) => this.logDebug(message, payload),
+			});
+		}
+		return this.explorerBadgeService;
+	}
+
+	private getRenameTrackingService(): RenameTrackingService {
+		if (!this.renameTrackingService) {
+			this.renameTrackingService = createRenameTrackingService({
+				onRenames: (renames) => this.handleTrackedRenames(renames),
+			});
+		}
+		return this.renameTrackingService;
+	}
+
+	private getTemporaryUnlockService(): TemporaryOverrideService {
+		if (!this.temporaryUnlockService) {
+			this.temporaryUnlockService = createTemporaryOverrideService({
+				onEnd: (path, reason) => this.handleTemporaryRelock(path, reason),
+			});
+		}
+		return this.temporaryUnlockService;
+	}
+
+	private getTemporaryLockService(): TemporaryOverrideService {
+		if (!this.temporaryLockService) {
+			this.temporaryLockService = createTemporaryOverrideService({
+				onEnd: (path, reason) => this.handleTemporaryLockEnd(path, reason),
+			});
+		}
+		return this.temporaryLockService;
+	}
+
+	private getLockStateEvents(): LockStateEventsService {
+		if (!this.lockStateEvents) {
+			this.lockStateEvents = createLockStateEventsService({
+				onChange: (payload) => {
+					this.logDebug('lock-state-changed', {
+						filePath: formatPathForDebug(payload.path, this.settings.debugVerbosePaths),
+						oldState: payload.oldState,
+						newState: payload.newState,
+						reason: payload.reason,
+					});
+					this.app.workspace.trigger(LOCK_STATE_CHANGED_EVENT, payload);
+				},
+			});
+		}
+		return this.lockStateEvents;
+	}
+
+	private getRenderedEditGuard(): RenderedEditGuardService {
+		if (!this.renderedEditGuard) {
+			this.renderedEditGuard = createRenderedEditGuardService({
+				isProtectedPath: (path) => this.settings.blockRenderedEdits && this.isReadOnlyPath(path),
+				readFile: (path) => this.readNote(path),
+				writeFile: (path, content) => this.writeNote(path, content),
+				onBlocked: (path, kind) => {
+					this.logDebug('rendered-edit-blocked', {
+						filePath: formatPathForDebug(path, this.settings.debugVerbosePaths),
+						kind,
+					});
+					this.showBlockedEditNotice(kind === 'revert'
+						? 'A change to a read-only note was reverted.'
+						: 'This note is read-only. Its properties and checkboxes cannot be changed.');
+				},
+			});
+		}
+		return this.renderedEditGuard;
+	}
+
+	private getWriteGuard(): WriteGuardService {
+		if (!this.writeGuard) {
+			this.writeGuard = createWriteGuardService({
+				getMode: () => this.settings.writeGuard,
+				isProtectedPath: (path) => this.isReadOnlyPath(path),
+				readFile: (path) => this.readNote(path),
+				writeFile: (path, content) => this.writeNote(path, content),
+				confirm: (path) => new Promise((resolve) => {
+					new WriteGuardModal(this.app, path, resolve).open();
+				}),
+				onLog: (entry) => {
+					this.logDebug('write-guard', {
+						filePath: formatPathForDebug(entry.path, this.settings.debugVerbosePaths),
+						action: entry.action,
+						automatic: entry.automatic,
+					});
+					if (entry.automatic) {
+						this.showBlockedEditNotice('A change to a read-only note made outside the editor was reverted.');
+					}
+				},
+			});
+		}
+		return this.writeGuard;
+	}
+
+	private getFileOperationGuard(): FileOperationGuardService {
+		if (!this.fileOperationGuard) {
+			this.fileOperationGuard = createFileOperationGuardService({
+				getMode: () => this.settings.fileOperationGuard,
+				getTargets: () => ({
+					vault: this.app.vault,
+					fileManager: this.app.fileManager ?? null,
+				}),
+				getProtectedNotes: (path) => this.getProtectedNotesAt(path),
+				confirm: (request) => new Promise((resolve) => {
+					new FileOperationModal(this.app, request, resolve).open();
+				}),
+				onRefused: (request, reason) => this.handleRefusedFileOperation(request, reason),
+				readFile: (path) => this.readNote(path),
+				logDebug: (message, payload) => this.logDebug(message, payload),
+			});
+		}
+		return this.fileOperationGuard;
+	}
+
+	private getEnforcementLog(): EnforcementLogService {
+		if (!this.enforcementLog) {
+			this.enforcementLog = createEnforcementLogService({
+				isEnabled: () => this.settings.enforcementLog,
+				load: async () => {
+					const path = this.getEnforcementLogPath();
+					if (!path || !(await this.app.vault.adapter.exists(path))) {
+						return null;
+					}
+					return await this.app.vault.adapter.read(path);
+				},
+				save: async (data) => {
+					const path = this.getEnforcementLogPath();
+					if (path) {
+						await this.app.vault.adapter.write(path, data);
+					}
+				},
+				onChange: () => this.requestEnforcementLogViewRefresh(),
+			});
+		}
+		return this.enforcementLog;
+	}
+
+	/*
+	 * Stored entries are read once the log is on, before new ones are saved
+	 * over them. A file that cannot be read must not keep the plugin from
+	 * loading; the log then starts empty.
+	 */
+	private async loadEnforcementLog(): Promise<void> {
+		if (!this.settings.enforcementLog || this.enforcementLogLoaded) {
+			return;
+		}
+		this.enforcementLogLoaded = true;
+		try {
+			await this.getEnforcementLog().load();
+		} catch (error) {
+			this.logDebug('enforcement-log-load-failed', {
+				errorType: error instanceof Error ? error.name : typeof error,
+				errorMessage: error instanceof Error ? error.message : String(error),
+			});
+		}
+	}
+
+	// Next to data.json; null when the plugin folder is unknown.
+	private getEnforcementLogPath(): string | null {
+		const dir = this.manifest?.dir;
+		return dir ? `${dir}/${ENFORCEMENT_LOG_FILE_NAME}` : null;
+	}
+
+	getEnforcementLogEntries(): EnforcementLogEntry[] {
+		return this.getEnforcementLog().getEntries();
+	}
+
+	async clearEnforcementLog(): Promise<void> {
+		await this.getEnforcementLog().clear();
+	}
+
+	// A folder is protected when it contains read-only notes.
+	private getProtectedNotesAt(path: string): string[] {
+		const file = this.app.vault.getAbstractFileByPath(path);
+		if (!(file instanceof TFolder)) {
+			return this.isReadOnlyPath(path) ? [path] : [];
+		}
+		const prefix = file.path === '/' ? '' : `${file.path}/`;
+		return this.app.vault.getMarkdownFiles()
+			.map((note) => note.path)
+			.filter((notePath) => notePath.startsWith(prefix) && this.isReadOnlyPath(notePath));
+	}
+
+	private handleRefusedFileOperation(request: FileOperationRequest, reason: 'blocked' | 'cancelled'): void {
+		this.logDebug('file-operation-refused', {
+			operation: request.operation,
+			filePath: formatPathForDebug(request.path, this.settings.debugVerbosePaths),
+			protectedNotes: request.protectedNotes.length,
+			reason,
+		});
+		if (reason === 'blocked') {
+			new Notice(`${describeFileOperation(request)} was refused because it contains read-only notes.`);
+		}
+	}
+
+	private async restoreDeletedNote(note: DeletedNote): Promise<void> {
+		const { vault } = this.app;
+		if (vault.getAbstractFileByPath(note.path)) {
+			new Notice(`${note.path} already exists.`);
+			return;
+		}
+		const folderPath = note.path.includes('/') ? note.path.slice(0, note.path.lastIndexOf('/')) : '';
+		if (folderPath && !vault.getAbstractFileByPath(folderPath)) {
+			await vault.createFolder(folderPath);
+		}
+		await vault.create(note.path, note.content);
+		this.getFileOperationGuard().takeDeletedNote(note.path);
+		this.logDebug('deleted-note-restored', {
+			filePath: formatPathForDebug(note.path, this.settings.debugVerbosePaths),
+		});
+		new Notice(`Restored ${note.path}.`);
+	}
+
+	private async readNote(path: string): Promise<string | null> {
+		const file = this.app.vault.getAbstractFileByPath(path);
+		return file instanceof TFile ? await this.app.vault.read(file) : null;
+	}
+
+	/*
+	 * Obsidian loads an outside change or sync into open editors with a plain
+	 * change, which the editor lock blocks. A blocked change is only let through
+	 * when it turns out to show the saved file.
+	 */
+	private async reloadEditorsIfSaved(path: string, blockedContent: string): Promise<void> {
+		const content = await this.readNote(path);
+		if (content === null || content !== blockedContent) {
+			return;
+		}
+		for (const leaf of this.getMarkdownLeavesForPath(path)) {
+			const cm = ((leaf.view as MarkdownView).editor as unknown as { cm?: ReloadableEditorView } | undefined)?.cm;
+			if (cm) {
+				reloadEditorContent(cm, content);
+			}
+		}
+	}
+
+	private async writeNote(path: string, content: string): Promise<void> {
+		const file = this.app.vault.getAbstractFileByPath(path);
+		if (file instanceof TFile) {
+			await this.app.vault.modify(file, content);
+		}
+	}
+
+	// The rendered edit guard goes first: a change it reverts is not reported again.
+	private async handleVaultModify(path: string): Promise<void> {
+		if (await this.getRenderedEditGuard().handleModify(path)) {
+			return;
+		}
+		await this.getWriteGuard().handleModify(path);
+	}
+
+	private getCommandInterceptor(): CommandInterceptorService {
+		if (!this.commandInterceptor) {
+			this.commandInterceptor = createCommandInterceptorService({
+				getCommands: () => (this.app as unknown as { commands?: { commands?: CommandRegistry } }).commands?.commands ?? null,
+				shouldBlock: (commandId) => this.shouldBlockModeCommand(commandId),
+				onBlocked: (commandId) => this.handleBlockedModeCommand(commandId),
+				logDebug: (message, payload) => this.logDebug(message, payload),
+			});
+		}
+		return this.commandInterceptor;
+	}
+
+	// Blocks a mode command on the active note when the mode it leads to would be enforced away again.
+	private shouldBlockModeCommand(commandId: ModeCommandId): boolean {
+		const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+		const file = view?.file;
+		if (!view || !file || file.extension !== 'md') {
+			return false;
+		}
+		const enforcedMode = this.getEnforcedMode(file.path);
+		if (enforcedMode === null) {
+			return false;
+		}
+		const nextMode = predictModeAfterCommand(commandId, view.leaf.getViewState().state as MarkdownViewModeState);
+		return nextMode !== null && !satisfiesEnforcedMode(nextMode, enforcedMode);
+	}
+
+	private handleBlockedModeCommand(commandId: ModeCommandId): void {
+		const file = this.getActiveMarkdownFile();
+		if (!file) {
+			return;
+		}
+		const result = buildPathTesterResult(file.path, this.settings, this.getMetadataResolver());
+		const decidingRule = describeDecidingRule(result, this.settings);
+		this.logDebug('mode-command-blocked', {
+			commandId,
+			filePath: formatPathForDebug(file.path, this.settings.debugVerbosePaths),
+			enforcedMode: result.enforcedMode,
+			decidingRule: this.settings.debugVerbosePaths ? decidingRule : null,
+		});
+		this.showBlockedEditNotice(`Mode change blocked. This note is protected by ${decidingRule.charAt(0).toLowerCase()}${decidingRule.slice(1)}.`);
+	}
+
+	private handleRenderedEditEvent(event: Event): void {
+		const target = event.target;
+		if (!(target instanceof HTMLElement) || !isRenderedEditTarget(target)) {
+			return;
+		}
+		const leaf = this.app.workspace.getLeavesOfType('markdown').find((candidate) => candidate.view.containerEl.contains(target));
+		const path = leaf?.view instanceof MarkdownView ? leaf.view.file?.path : undefined;
+		if (path) {
+			this.getRenderedEditGuard().handleInteraction(path, event);
+		}
+	}
+
+	isReadOnlyPath(path: string): boolean {
+		return isReadOnlyMode(this.getEnforcedMode(path));
+	}
+
+	getEnforcedMode(path: string): EnforcedViewMode | null {
+		if (this.getTemporaryUnlockService().isActive(path)) {
+			return null;
+		}
+		const mode = resolveEnforcedMode(path, this.settings, this.getMetadataResolver());
+		return this.getTemporaryLockService().isActive(path) ? applyTemporaryLock(mode, this.settings) : mode;
+	}
+
+	getMetadataResolver(): FileMetadataResolver {
+		if (!this.metadataResolver) {
+			this.metadataResolver = createMetadataResolver(this.app);
+		}
+		return this.metadataResolver;
+	}
+
 	async applyAllOpenMarkdownLeaves(reason: string): Promise<void> {
 		await this.getEnforcementService().applyAllOpenMarkdownLeaves(reason);
+		this.updateStatusBar();
+	}
+
+	private getLockStatus(path: string): LockStatus {
+		if (this.getTemporaryUnlockService().isActive(path)) {
+			return 'temporarily-unlocked';
+		}
+		const mode = this.getEnforcedMode(path);
+		if (isReadOnlyMode(mode)) {
+			return 'read-only';
+		}
+		if (mode === 'append') {
+			return 'append-only';
+		}
+		if (mode === 'frontmatter') {
+			return 'frontmatter-locked';
+		}
+		if (mode === 'live') {
+			return 'live-preview';
+		}
+		if (mode === 'source') {
+			return 'source-mode';
+		}
+		return 'editable';
+	}
+
+	private updateStatusBar(): void {
+		if (!this.statusBarEl) {
+			this.scheduleStatusBarRefresh(false);
+			return;
+		}
+		const file = this.getActiveMarkdownFile();
+		if (!this.settings.enabled || !file || file.extension !== 'md') {
+			this.statusBarEl.toggle(false);
+			this.scheduleStatusBarRefresh(false);
+			return;
+		}
+		const status = this.getLockStatus(file.path);
+		const remainingMs = status === 'temporarily-unlocked' ? this.getTemporaryUnlockService().getRemainingMs(file.path) : null;
+		this.statusBarEl.setText(formatLockStatusText(status, remainingMs));
+		this.statusBarEl.toggle(true);
+		this.scheduleStatusBarRefresh(remainingMs !== null);
+	}
+
+	// Counts the remaining unlock time down while the active note is unlocked.
+	private scheduleStatusBarRefresh(active: boolean): void {
+		if (!active) {
+			if (this.statusBarTimer) {
+				clearTimeout(this.statusBarTimer);
+				this.statusBarTimer = null;
+			}
+			return;
+		}
+		if (this.statusBarTimer) {
+			return;
+		}
+		this.statusBarTimer = setTimeout(() => {
+			this.statusBarTimer = null;
+			this.updateStatusBar();
+		}, ReadOnlyViewPlugin.STATUS_BAR_REFRESH_MS);
+	}
+
+	// Every rejected keystroke would raise a notice otherwise.
+	private showBlockedEditNotice(message: string): void {
+		const now = Date.now();
+		if (now - this.lastBlockedEditNoticeAt < ReadOnlyViewPlugin.BLOCKED_EDIT_NOTICE_INTERVAL_MS) {
+			return;
+		}
+		this.lastBlockedEditNoticeAt = now;
+		new Notice(message);
+	}
+
+	private openLockBreakdown(): void {
+		const file = this.getActiveMarkdownFile();
+		if (!file) {
+			return;
+		}
+		new LockBreakdownModal(
+			this.app,
+			buildPathTesterResult(file.path, this.settings, this.getMetadataResolver()),
+			this.settings,
+			this.getTemporaryUnlockService().getRemainingMs(file.path),
+		).open();
 	}
 
 	private isTargetedWorkspaceEventBurst(reasons: string[]): boolean {
@@ -228,6 +1058,241 @@ export default class ReadOnlyViewPlugin extends Plugin {
 			});
 			await this.getEnforcementService().applyReadOnlyForLeaf(leaf, `${reasonText}:targeted-leaf`);
 		}
+		this.updateStatusBar();
+	}
+
+	// Core items may be added after the event fires, so the menu is checked again once it is built.
+	private controlViewMenuEditItems(menu: Menu, file: TAbstractFile, source: string): void {
+		const control = this.settings.modeSwitchControl;
+		if (control === 'show' || !VIEW_MENU_SOURCES.has(source) || !(file instanceof TFile) || !this.isReadOnlyPath(file.path)) {
+			return;
+		}
+		applyEditMenuControl(menu, control);
+		void Promise.resolve().then(() => applyEditMenuControl(menu, control));
+	}
+
+	private addRuleMenuItems(menu: Menu, files: TAbstractFile[]): void {
+		const targets: RuleTargetPath[] = [];
+		for (const file of files) {
+			if (file instanceof TFolder && !file.isRoot()) {
+				targets.push({ path: file.path, isFolder: true });
+			} else if (file instanceof TFile && file.extension === 'md') {
+				targets.push({ path: file.path, isFolder: false });
+			}
+		}
+		if (targets.length === 0) {
+			return;
+		}
+
+		menu.addItem((item) => {
+			item
+				.setTitle('Make read-only')
+				.setIcon('lock')
+				.onClick(() => {
+					void this.addRulesForPaths('include', targets, 'file-menu');
+				});
+		});
+		menu.addItem((item) => {
+			item
+				.setTitle('Exclude from read-only')
+				.setIcon('unlock')
+				.onClick(() => {
+					void this.addRulesForPaths('exclude', targets, 'file-menu');
+				});
+		});
+	}
+
+	async addRulesForPaths(list: RuleListTarget, targets: RuleTargetPath[], reason: string): Promise<void> {
+		const result = appendRulesForPaths(this.settings, list, targets);
+		this.logDebug('append-rules', {
+			reason,
+			list,
+			added: result.added.length,
+			duplicates: result.duplicates.length,
+			rejectedByLimit: result.rejectedByLimit.length,
+		});
+		if (result.added.length > 0) {
+			setRuleList(this.settings, list, result.rules);
+			await this.saveSettings(`${reason}:${list}-rules`);
+			await this.applyAllOpenMarkdownLeaves(`${reason}:${list}-rules`);
+		}
+		new Notice(formatAppendRulesSummary(list, result));
+	}
+
+	private handleTrackedRenames(renames: PathRename[]): void {
+		const mode = this.settings.ruleRenameTracking;
+		if (mode === 'off') {
+			return;
+		}
+		const changes = planRuleRenames(this.settings, renames);
+		this.logDebug('rename-tracking-plan', {
+			mode,
+			renameCount: renames.length,
+			changeCount: changes.length,
+		});
+		if (changes.length === 0) {
+			return;
+		}
+		if (mode === 'auto') {
+			void this.applyRuleRenameChanges(changes, 'rename-auto');
+			return;
+		}
+		const summaryLines = formatRuleRenameSummary(changes, this.settings).split('\n').slice(1);
+		new RuleRenameModal(this.app, summaryLines, () => {
+			void this.applyRuleRenameChanges(changes, 'rename-confirmed');
+		}).open();
+	}
+
+	private async applyRuleRenameChanges(changes: RuleRenameChange[], reason: string): Promise<void> {
+		applyRuleRenames(this.settings, changes);
+		await this.saveSettings(reason);
+		new Notice(formatRuleRenameSummary(changes, this.settings));
+		await this.applyAllOpenMarkdownLeaves(reason);
+	}
+
+	private async openProtectedNotesView(): Promise<void> {
+		const existingLeaf = this.app.workspace.getLeavesOfType(VIEW_TYPE_PROTECTED_NOTES)[0];
+		const leaf = existingLeaf ?? this.app.workspace.getLeaf('tab');
+		if (!existingLeaf) {
+			await leaf.setViewState({ type: VIEW_TYPE_PROTECTED_NOTES, active: true });
+		}
+		await this.app.workspace.revealLeaf(leaf);
+	}
+
+	private async openEnforcementLogView(): Promise<void> {
+		const existingLeaf = this.app.workspace.getLeavesOfType(VIEW_TYPE_ENFORCEMENT_LOG)[0];
+		const leaf = existingLeaf ?? this.app.workspace.getLeaf('tab');
+		if (!existingLeaf) {
+			await leaf.setViewState({ type: VIEW_TYPE_ENFORCEMENT_LOG, active: true });
+		}
+		await this.app.workspace.revealLeaf(leaf);
+	}
+
+	private requestEnforcementLogViewRefresh(): void {
+		for (const leaf of this.app.workspace.getLeavesOfType(VIEW_TYPE_ENFORCEMENT_LOG)) {
+			if (leaf.view instanceof EnforcementLogView) {
+				leaf.view.requestRefresh();
+			}
+		}
+	}
+
+	private requestProtectedNotesViewRefresh(): void {
+		for (const leaf of this.app.workspace.getLeavesOfType(VIEW_TYPE_PROTECTED_NOTES)) {
+			if (leaf.view instanceof ProtectedNotesView) {
+				leaf.view.requestRefresh();
+			}
+		}
+	}
+
+	private getActiveMarkdownFile(): TFile | null {
+		return this.app.workspace.getActiveViewOfType(MarkdownView)?.file ?? null;
+	}
+
+	private getMarkdownLeavesForPath(path: string): WorkspaceLeaf[] {
+		return this.app.workspace.getLeavesOfType('markdown').filter((leaf) => (
+			leaf.view instanceof MarkdownView && leaf.view.file?.path === path
+		));
+	}
+
+	private async unlockNoteTemporarily(path: string, reason: string): Promise<void> {
+		const unlocks = this.getTemporaryUnlockService();
+		const remainingMs = unlocks.getRemainingMs(path);
+		if (remainingMs !== null) {
+			new Notice(`Note stays unlocked for another ${formatRemainingTime(remainingMs)}.`);
+			return;
+		}
+
+		const durationMs = Math.max(1, this.settings.temporaryUnlockMinutes) * 60_000;
+		await this.startTemporaryUnlock(path, durationMs, reason);
+		new Notice(`Note unlocked for ${formatRemainingTime(durationMs)}. It re-locks automatically.`);
+
+		const activeLeaf = this.app.workspace.getActiveViewOfType(MarkdownView)?.leaf;
+		if (activeLeaf && activeLeaf.view instanceof MarkdownView && activeLeaf.view.file?.path === path) {
+			const state = activeLeaf.getViewState();
+			await activeLeaf.setViewState({
+				...state,
+				state: { ...state.state, mode: 'source' },
+			});
+		}
+	}
+
+	// An unlock replaces a temporary lock of the same note and vice versa.
+	private async startTemporaryUnlock(path: string, durationMs: number, reason: string): Promise<number> {
+		const expiresAt = this.getTemporaryUnlockService().start(path, durationMs);
+		this.getTemporaryLockService().end(path, 'manual');
+		this.logDebug('temporary-unlock-start', {
+			reason,
+			filePath: formatPathForDebug(path, this.settings.debugVerbosePaths),
+			durationMs,
+		});
+		await this.refreshPathLockState(path, 'temporary-unlock');
+		return expiresAt;
+	}
+
+	private async startTemporaryLock(path: string, durationMs: number, reason: string): Promise<number> {
+		const expiresAt = this.getTemporaryLockService().start(path, durationMs);
+		this.getTemporaryUnlockService().end(path, 'manual');
+		this.logDebug('temporary-lock-start', {
+			reason,
+			filePath: formatPathForDebug(path, this.settings.debugVerbosePaths),
+			durationMs,
+		});
+		await this.refreshPathLockState(path, 'temporary-lock');
+		return expiresAt;
+	}
+
+	private async refreshPathLockState(path: string, reason: string): Promise<void> {
+		this.updateStatusBar();
+		this.getExplorerBadgeService().refreshPaths([path]);
+		for (const leaf of this.getMarkdownLeavesForPath(path)) {
+			await this.getEnforcementService().applyReadOnlyForLeaf(leaf, reason);
+		}
+	}
+
+	private handleTemporaryLockEnd(path: string, reason: TemporaryOverrideEndReason): void {
+		this.logDebug('temporary-lock-end', {
+			reason,
+			filePath: formatPathForDebug(path, this.settings.debugVerbosePaths),
+		});
+		void this.refreshPathLockState(path, `temporary-lock-${reason}`);
+	}
+
+	private handleTemporaryRelock(path: string, reason: TemporaryOverrideEndReason): void {
+		this.logDebug('temporary-unlock-end', {
+			reason,
+			filePath: formatPathForDebug(path, this.settings.debugVerbosePaths),
+		});
+		this.getExplorerBadgeService().refreshPaths([path]);
+		if (reason === 'closed') {
+			return;
+		}
+		new Notice('Note re-locked.');
+		this.updateStatusBar();
+		for (const leaf of this.getMarkdownLeavesForPath(path)) {
+			void this.getEnforcementService().applyReadOnlyForLeaf(leaf, `temporary-unlock-${reason}`);
+		}
+	}
+
+	private relockClosedTemporaryUnlocks(): void {
+		const unlocks = this.getTemporaryUnlockService();
+		for (const path of unlocks.getActivePaths()) {
+			if (this.getMarkdownLeavesForPath(path).length === 0) {
+				unlocks.end(path, 'closed');
+			}
+		}
+	}
+
+	private handleMetadataChanged(file: TFile): void {
+		if (!this.settings.enabled) {
+			return;
+		}
+		if (!this.settings.useFrontmatterProperty && this.settings.tagRules.length === 0) {
+			return;
+		}
+		this.getExplorerBadgeService().refreshPaths([file.path]);
+		for (const leaf of this.getMarkdownLeavesForPath(file.path)) {
+			this.scheduleWorkspaceEventReapply('metadata-changed', leaf);
+		}
 	}
 
 	private invalidateLeafContainerCache(): void {
@@ -243,6 +1308,9 @@ export default class ReadOnlyViewPlugin extends Plugin {
 	}
 
 	logDebug(message: string, payload?: Record<string, unknown>): void {
+		if (!this.unloaded) {
+			this.getEnforcementLog().record(message, payload);
+		}
 		if (!this.settings.debug) {
 			return;
 		}
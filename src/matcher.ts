@@ -1,5 +1,59 @@
-import { normalizeVaultPath } from './path-utils';
-import { buildEffectiveRules } from './rule-limits';
+import { compileGlob, findGlobSyntaxIndex, getGlobLiteralPrefix, unescapeGlobLiteral } from './glob';
+import { normalizeRulePattern, normalizeVaultPath } from './path-utils';
+import { compileRegexRule, isRegexRule } from './regex-rules';
+import {
+	getRuleMode,
+	isReadOnlyMode,
+	pickStrictestMode,
+	stripRuleModePrefix,
+	type EnforcedViewMode,
+} from './rule-modes';
+import {
+	buildEffectiveOrderedRules,
+	buildEffectiveRules,
+	buildEffectiveTagRules,
+	normalizeTagRule,
+	type OrderedRule,
+} from './rule-limits';
+
+/*
+ * `include-exclude`: two lists, exclude always wins.
+ * `ordered`: one gitignore-style list where `!pattern` negates and the last
+ * matching line decides.
+ */
+export type RuleMode = 'include-exclude' | 'ordered';
+
+export interface RuleProfile {
+	name: string;
+	ruleMode: RuleMode;
+	includeRules: string[];
+	excludeRules: string[];
+	orderedRules: string[];
+	useGlobPatterns: boolean;
+	caseSensitive: boolean;
+}
+
+export type RuleRenameTracking = 'off' | 'ask' | 'auto';
+
+/*
+ * How read-only notes are held when no rule prefix says otherwise:
+ * `reading` switches them to Reading mode, `editor` keeps the editor open and
+ * rejects every change (`locked`).
+ */
+export type ReadOnlyStyle = 'reading' | 'editor';
+
+// What happens to the view-mode header button and "Edit" menu items of read-only notes.
+export type ModeSwitchControl = 'show' | 'hide' | 'disable';
+
+/*
+ * What happens when a protected note is changed outside the editor (other
+ * plugins, sync, external editors): nothing, a prompt to revert or keep the
+ * change, or an automatic revert.
+ */
+export type WriteGuardMode = 'off' | 'ask' | 'revert';
+
+// Whether deleting, renaming or moving read-only notes (and folders containing them) is allowed, confirmed or refused.
+export type FileOperationGuardMode = 'off' | 'ask' | 'block';
 
 export interface ForceReadModeSettings {
 	enabled: boolean;
@@ -7,8 +61,23 @@ export interface ForceReadModeSettings {
 	caseSensitive: boolean;
 	debug: boolean;
 	debugVerbosePaths: boolean;
+	ruleMode: RuleMode;
 	includeRules: string[];
 	excludeRules: string[];
+	orderedRules: string[];
+	tagRules: string[];
+	useFrontmatterProperty: boolean;
+	frontmatterPropertyName: string;
+	profiles: RuleProfile[];
+	activeProfileName: string;
+	temporaryUnlockMinutes: number;
+	ruleRenameTracking: RuleRenameTracking;
+	readOnlyStyle: ReadOnlyStyle;
+	blockRenderedEdits: boolean;
+	modeSwitchControl: ModeSwitchControl;
+	writeGuard: WriteGuardMode;
+	fileOperationGuard: FileOperationGuardMode;
+	enforcementLog: boolean;
 }
 
 export const DEFAULT_SETTINGS: ForceReadModeSettings = {
@@ -17,10 +86,38 @@ export const DEFAULT_SETTINGS: ForceReadModeSettings = {
 	caseSensitive: true,
 	debug: false,
 	debugVerbosePaths: false,
+	ruleMode: 'include-exclude',
 	includeRules: [],
 	excludeRules: [],
+	orderedRules: [],
+	tagRules: [],
+	useFrontmatterProperty: false,
+	frontmatterPropertyName: 'readonly',
+	profiles: [],
+	activeProfileName: 'Default',
+	temporaryUnlockMinutes: 5,
+	ruleRenameTracking: 'ask',
+	readOnlyStyle: 'reading',
+	blockRenderedEdits: false,
+	modeSwitchControl: 'show',
+	writeGuard: 'off',
+	fileOperationGuard: 'off',
+	enforcementLog: false,
 };
 
+export interface FileMetadataSnapshot {
+	frontmatter?: Record<string, unknown> | null;
+	tags?: string[];
+}
+
+export type FileMetadataResolver = (filePath: string) => FileMetadataSnapshot | null;
+
+/*
+ * `lock` / `unlock` come from an explicit per-note frontmatter value and take
+ * precedence over include/exclude rules; `null` means the rules decide.
+ */
+export type FrontmatterOverride = 'lock' | 'unlock' | null;
+
 export interface MatchPathOptions {
 	useGlobPatterns: boolean;
 	caseSensitive: boolean;
@@ -51,11 +148,7 @@ function setGlobRegexCache(cacheKey: string, compiled: RegExp): void {
 	globRegexCache.set(cacheKey, compiled);
 }
 
-export { normalizeVaultPath };
-
-function escapeRegexLiteral(value: string): string {
-	return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-}
+export { normalizeRulePattern, normalizeVaultPath };
 
 function normalizeForCase(value: string, caseSensitive: boolean): string {
 	return caseSensitive ? value : value.toLowerCase();
@@ -70,50 +163,29 @@ function applyPrefixModeRuleNormalization(pattern: string): string {
 }
 
 export function compileGlobToRegex(pattern: string, caseSensitive: boolean): RegExp {
-	const normalizedPattern = normalizeForCase(normalizeVaultPath(pattern), caseSensitive);
+	const normalizedPattern = normalizeForCase(normalizeRulePattern(pattern), caseSensitive);
 	const cacheKey = `${caseSensitive ? '1' : '0'}:${normalizedPattern}`;
 	const cached = globRegexCache.get(cacheKey);
 	if (cached) {
 		return cached;
 	}
 
-	let source = '^';
-	for (let index = 0; index < normalizedPattern.length; index++) {
-		const char = normalizedPattern[index];
-		if (char === undefined) {
-			continue;
-		}
-		if (normalizedPattern.startsWith('/**/', index)) {
-			source += '/(?:.*/)?';
-			index += 3;
-			continue;
-		}
-		if (char === '*') {
-			const next = normalizedPattern[index + 1];
-			if (next === '*') {
-				source += '.*';
-				index += 1;
-			} else {
-				source += '[^/]*';
-			}
-			continue;
-		}
-		if (char === '?') {
-			source += '[^/]';
-			continue;
-		}
-		source += escapeRegexLiteral(char);
-	}
-	source += '$';
-
-	const compiled = new RegExp(source);
+	const compiled = new RegExp(compileGlob(normalizedPattern).source);
 	setGlobRegexCache(cacheKey, compiled);
 	return compiled;
 }
 
-export function matchPath(filePath: string, pattern: string, options: MatchPathOptions): boolean {
+// A leading view mode prefix (`live:`) never takes part in matching.
+export function matchPath(filePath: string, rule: string, options: MatchPathOptions): boolean {
+	const pattern = stripRuleModePrefix(rule);
+	if (isRegexRule(pattern)) {
+		// Regex rules keep their own case handling (`i` flag) instead of lower-casing the source.
+		const normalizedPath = normalizeVaultPath(filePath);
+		const { regex } = compileRegexRule(pattern, options.caseSensitive);
+		return normalizedPath.length > 0 && regex !== null && regex.test(normalizedPath);
+	}
 	const normalizedFilePath = normalizeForCase(normalizeVaultPath(filePath), options.caseSensitive);
-	const normalizedPattern = normalizeForCase(normalizeVaultPath(pattern), options.caseSensitive);
+	const normalizedPattern = normalizeForCase(normalizeRulePattern(pattern), options.caseSensitive);
 
 	if (!normalizedFilePath || !normalizedPattern) {
 		return false;
@@ -126,14 +198,119 @@ export function matchPath(filePath: string, pattern: string, options: MatchPathO
 	return normalizedFilePath.startsWith(applyPrefixModeRuleNormalization(normalizedPattern));
 }
 
-export function shouldForceReadOnly(filePath: string, settings: ForceReadModeSettings): boolean {
-	if (!settings.enabled) {
+/*
+ * Tags are compared case-insensitively (as Obsidian does), and a rule also
+ * matches nested tags below it: `status` matches `#status` and `#status/final`.
+ */
+export function matchTag(tag: string, rule: string): boolean {
+	const normalizedTag = normalizeTagRule(tag);
+	const normalizedRule = normalizeTagRule(rule);
+	if (!normalizedTag || !normalizedRule) {
 		return false;
 	}
+	return normalizedTag === normalizedRule || normalizedTag.startsWith(`${normalizedRule}/`);
+}
+
+export function matchTagRules(
+	filePath: string,
+	settings: ForceReadModeSettings,
+	resolveMetadata?: FileMetadataResolver,
+): string[] {
+	const tagRules = buildEffectiveTagRules(settings.tagRules);
+	if (tagRules.length === 0 || !resolveMetadata) {
+		return [];
+	}
+	const tags = resolveMetadata(normalizeVaultPath(filePath))?.tags ?? [];
+	if (tags.length === 0) {
+		return [];
+	}
+	return tagRules.filter((rule) => tags.some((tag) => matchTag(tag, rule)));
+}
+
+function parseFrontmatterFlag(value: unknown): boolean | null {
+	if (typeof value === 'boolean') {
+		return value;
+	}
+	if (typeof value === 'string') {
+		const normalized = value.trim().toLowerCase();
+		if (normalized === 'true') {
+			return true;
+		}
+		if (normalized === 'false') {
+			return false;
+		}
+	}
+	return null;
+}
+
+export function readFrontmatterOverride(
+	filePath: string,
+	settings: ForceReadModeSettings,
+	resolveMetadata?: FileMetadataResolver,
+): FrontmatterOverride {
+	if (!settings.useFrontmatterProperty || !resolveMetadata) {
+		return null;
+	}
+	const propertyName = settings.frontmatterPropertyName.trim();
+	if (!propertyName) {
+		return null;
+	}
+	const frontmatter = resolveMetadata(normalizeVaultPath(filePath))?.frontmatter;
+	if (!frontmatter || !Object.prototype.hasOwnProperty.call(frontmatter, propertyName)) {
+		return null;
+	}
+	const flag = parseFrontmatterFlag(frontmatter[propertyName]);
+	if (flag === null) {
+		return null;
+	}
+	return flag ? 'lock' : 'unlock';
+}
+
+export function getDefaultRuleMode(settings: ForceReadModeSettings): EnforcedViewMode {
+	return settings.readOnlyStyle === 'editor' ? 'locked' : 'reading';
+}
+
+// A temporarily locked note that rules leave editable is held in the default read-only mode.
+export function applyTemporaryLock(mode: EnforcedViewMode | null, settings: ForceReadModeSettings): EnforcedViewMode | null {
+	if (!settings.enabled || isReadOnlyMode(mode)) {
+		return mode;
+	}
+	return getDefaultRuleMode(settings);
+}
+
+/*
+ * The view mode a note is held in, or `null` when no rule applies. The
+ * frontmatter property, tag rules and rules without a prefix use the default
+ * read-only mode. In include/exclude mode the strictest mode among the
+ * matching include rules wins (see `ENFORCED_VIEW_MODES`); in ordered mode
+ * the deciding line's mode does.
+ */
+export function resolveEnforcedMode(
+	filePath: string,
+	settings: ForceReadModeSettings,
+	resolveMetadata?: FileMetadataResolver,
+): EnforcedViewMode | null {
+	if (!settings.enabled) {
+		return null;
+	}
 
 	const normalizedFilePath = normalizeVaultPath(filePath);
 	if (!normalizedFilePath.toLowerCase().endsWith('.md')) {
-		return false;
+		return null;
+	}
+
+	const defaultMode = getDefaultRuleMode(settings);
+	const frontmatterOverride = readFrontmatterOverride(normalizedFilePath, settings, resolveMetadata);
+	if (frontmatterOverride !== null) {
+		return frontmatterOverride === 'lock' ? defaultMode : null;
+	}
+
+	if (settings.ruleMode === 'ordered') {
+		const { decidingStep } = evaluateOrderedRules(normalizedFilePath, settings);
+		if (decidingStep) {
+			return decidingStep.negated ? null : getRuleMode(decidingStep.pattern, defaultMode);
+		}
+		return matchTagRules(normalizedFilePath, settings, resolveMetadata).length > 0 ? defaultMode : null;
 	}
 
 	const options: MatchPathOptions = {
@@ -142,11 +319,158 @@ export function shouldForceReadOnly(filePath: string, settings: ForceReadModeSet
 	};
 	const effectiveRules = buildEffectiveRules(settings.includeRules, settings.excludeRules);
 
-	const hasIncludeMatch = effectiveRules.effectiveIncludeRules.some((rule) => matchPath(normalizedFilePath, rule, options));
-	if (!hasIncludeMatch) {
-		return false;
+	const matchedModes = new Set<EnforcedViewMode>();
+	for (const rule of effectiveRules.effectiveIncludeRules) {
+		if (matchPath(normalizedFilePath, rule, options)) {
+			matchedModes.add(getRuleMode(rule, defaultMode));
+			if (matchedModes.has('reading')) {
+				break;
+			}
+		}
+	}
+	if (!matchedModes.has('reading') && matchTagRules(normalizedFilePath, settings, resolveMetadata).length > 0) {
+		matchedModes.add(defaultMode);
+	}
+	const mode = pickStrictestMode(matchedModes);
+	if (mode === null) {
+		return null;
 	}
 
 	const hasExcludeMatch = effectiveRules.effectiveExcludeRules.some((rule) => matchPath(normalizedFilePath, rule, options));
-	return !hasExcludeMatch;
+	return hasExcludeMatch ? null : mode;
+}
+
+// Read-only means Reading mode or the locked editor; notes held in Live preview or Source stay editable.
+export function shouldForceReadOnly(
+	filePath: string,
+	settings: ForceReadModeSettings,
+	resolveMetadata?: FileMetadataResolver,
+): boolean {
+	return isReadOnlyMode(resolveEnforcedMode(filePath, settings, resolveMetadata));
+}
+
+export type OrderedRuleStep = OrderedRule & {
+	lineIndex: number;
+	matched: boolean;
+};
+
+export type OrderedRulesEvaluation = {
+	steps: OrderedRuleStep[];
+	decision: boolean | null;
+	decidingStep: OrderedRuleStep | null;
+};
+
+/*
+ * Walks the whole ordered list so callers can show every step; the last
+ * matching rule decides (`true` lock, `false` unlock, `null` nothing matched).
+ */
+export function evaluateOrderedRules(filePath: string, settings: ForceReadModeSettings): OrderedRulesEvaluation {
+	const options: MatchPathOptions = {
+		useGlobPatterns: settings.useGlobPatterns,
+		caseSensitive: settings.caseSensitive,
+	};
+	const steps: OrderedRuleStep[] = [];
+	let decidingStep: OrderedRuleStep | null = null;
+	for (const entry of buildEffectiveOrderedRules(settings.orderedRules).effectiveRules) {
+		const step = {
+			...entry.rule,
+			lineIndex: entry.lineIndex,
+			matched: matchPath(filePath, entry.rule.pattern, options),
+		};
+		steps.push(step);
+		if (step.matched) {
+			decidingStep = step;
+		}
+	}
+	return {
+		steps,
+		decision: decidingStep ? !decidingStep.negated : null,
+		decidingStep,
+	};
+}
+
+const GLOB_FOLDER_COVER_SUFFIXES = ['/**', '/**/*', '/**/*.md'];
+
+function getFolderCoveredByRule(rule: string, useGlobPatterns: boolean): string | null {
+	if (isRegexRule(rule)) {
+		return null;
+	}
+	if (useGlobPatterns) {
+		if (GLOB_FOLDER_COVER_SUFFIXES.some((suffix) => suffix.slice(1) === rule)) {
+			return '';
+		}
+		const suffix = GLOB_FOLDER_COVER_SUFFIXES.find((candidate) => rule.endsWith(candidate));
+		if (!suffix) {
+			return null;
+		}
+		const base = rule.slice(0, -suffix.length);
+		return findGlobSyntaxIndex(base) === -1 ? unescapeGlobLiteral(base) : null;
+	}
+	const prefix = applyPrefixModeRuleNormalization(rule);
+	return prefix.endsWith('/') ? prefix.slice(0, -1) : null;
+}
+
+function getLiteralRulePrefix(rule: string, useGlobPatterns: boolean): string {
+	// A regex can match anywhere, so it overlaps every folder.
+	if (isRegexRule(rule)) {
+		return '';
+	}
+	if (!useGlobPatterns) {
+		return applyPrefixModeRuleNormalization(rule);
+	}
+	return getGlobLiteralPrefix(rule);
+}
+
+function isInsideFolder(path: string, folder: string): boolean {
+	return folder === '' || path === folder || path.startsWith(`${folder}/`);
+}
+
+/*
+ * A folder is fully covered when an include rule matches every path below it
+ * (`folder/**` in glob mode, `folder/` in prefix mode) and no exclude rule can
+ * reach into it. The exclude check is conservative: any exclude whose literal
+ * prefix overlaps the folder disqualifies it. Tag rules and the frontmatter
+ * property work per note and are not considered here.
+ */
+export function isFolderFullyCovered(folderPath: string, settings: ForceReadModeSettings): boolean {
+	if (!settings.enabled) {
+		return false;
+	}
+	const folder = normalizeForCase(normalizeVaultPath(folderPath).replace(/\/+$/, ''), settings.caseSensitive);
+	const toRule = (rule: string) => normalizeForCase(normalizeRulePattern(stripRuleModePrefix(rule)), settings.caseSensitive);
+	const folderPrefix = folder === '' ? '' : `${folder}/`;
+	const defaultMode = getDefaultRuleMode(settings);
+	const reachesIntoFolder = (rule: string) => {
+		const literalPrefix = getLiteralRulePrefix(toRule(rule), settings.useGlobPatterns);
+		return literalPrefix.startsWith(folderPrefix) || folderPrefix.startsWith(literalPrefix);
+	};
+	const coversFolder = (rule: string) => {
+		const coveredFolder = getFolderCoveredByRule(toRule(rule), settings.useGlobPatterns);
+		return coveredFolder !== null && isInsideFolder(folder, coveredFolder);
+	};
+
+	if (settings.ruleMode === 'ordered') {
+		// The last read-only rule covering the whole folder locks it unless a later
+		// negation or editable-mode rule reaches into it.
+		let isCovered = false;
+		for (const { rule } of buildEffectiveOrderedRules(settings.orderedRules).effectiveRules) {
+			const isReadOnlyRule = !rule.negated && isReadOnlyMode(getRuleMode(rule.pattern, defaultMode));
+			if (isReadOnlyRule && coversFolder(rule.pattern)) {
+				isCovered = true;
+			} else if (!isReadOnlyRule && reachesIntoFolder(rule.pattern)) {
+				isCovered = false;
+			}
+		}
+		return isCovered;
+	}
+
+	const effectiveRules = buildEffectiveRules(settings.includeRules, settings.excludeRules);
+
+	// Read-only rules win over editable modes, so only they can lock a folder.
+	const readOnlyIncludeRules = effectiveRules.effectiveIncludeRules
+		.filter((rule) => isReadOnlyMode(getRuleMode(rule, defaultMode)));
+	if (!readOnlyIncludeRules.some(coversFolder)) {
+		return false;
+	}
+	return !effectiveRules.effectiveExcludeRules.some(reachesIntoFolder);
 }
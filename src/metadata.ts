@@ -0,0 +1,16 @@
+import { getAllTags, type App } from 'obsidian';
+import type { FileMetadataResolver } from './matcher';
+import { normalizeVaultPath } from './path-utils';
+
+export function createMetadataResolver(app: App): FileMetadataResolver {
+	return (filePath: string) => {
+		const cache = app.metadataCache.getCache(normalizeVaultPath(filePath));
+		if (!cache) {
+			return null;
+		}
+		return {
+			frontmatter: cache.frontmatter ?? null,
+			tags: getAllTags(cache) ?? [],
+		};
+	};
+}
@@ -0,0 +1,69 @@
+import type { ModeSwitchControl } from './matcher';
+
+export const MODE_BUTTON_HIDDEN_CLASS = 'read-only-view-mode-button-hidden';
+export const MODE_BUTTON_DISABLED_CLASS = 'read-only-view-mode-button-disabled';
+
+// Menus (`file-menu` sources) that carry the view's mode switch items.
+export const VIEW_MENU_SOURCES = new Set(['more-options', 'pane-more-options', 'tab-header']);
+
+// Titles of the items that leave Reading view; compared case-insensitively.
+const EDIT_MENU_ITEM_TITLES = new Set(['edit', 'editing view', 'source mode', 'live preview']);
+
+/*
+ * The pencil/book header action is the undocumented `modeButtonEl` of a
+ * markdown view, and menu items keep their DOM in the undocumented `items`
+ * list (`titleEl`, `dom`). Only those fields are typed, and every access is
+ * guarded.
+ */
+type ModeButtonView = {
+	modeButtonEl?: HTMLElement;
+};
+
+type MenuItemInternals = {
+	titleEl?: HTMLElement;
+	dom?: HTMLElement;
+	setDisabled?: (disabled: boolean) => unknown;
+};
+
+type MenuInternals = {
+	items?: unknown[];
+};
+
+// Restores the button as soon as the note is no longer protected or the setting is back to `show`.
+export function applyModeButtonControl(view: unknown, control: ModeSwitchControl, isProtected: boolean): void {
+	const modeButtonEl = (view as ModeButtonView | null | undefined)?.modeButtonEl;
+	if (!modeButtonEl || typeof modeButtonEl.toggleClass !== 'function') {
+		return;
+	}
+	const hidden = isProtected && control === 'hide';
+	const disabled = isProtected && control === 'disable';
+	modeButtonEl.toggleClass(MODE_BUTTON_HIDDEN_CLASS, hidden);
+	modeButtonEl.toggleClass(MODE_BUTTON_DISABLED_CLASS, disabled);
+	if (disabled) {
+		modeButtonEl.setAttribute('aria-disabled', 'true');
+	} else {
+		modeButtonEl.removeAttribute('aria-disabled');
+	}
+}
+
+// Hides or disables the items of an open view menu that switch to editing; returns how many were changed.
+export function applyEditMenuControl(menu: unknown, control: ModeSwitchControl): number {
+	const items = (menu as MenuInternals | null | undefined)?.items;
+	if (control === 'show' || !Array.isArray(items)) {
+		return 0;
+	}
+	let changed = 0;
+	for (const item of items as MenuItemInternals[]) {
+		const title = item.titleEl?.textContent?.trim().toLowerCase() ?? '';
+		if (!EDIT_MENU_ITEM_TITLES.has(title)) {
+			continue;
+		}
+		if (control === 'hide' && item.dom) {
+			item.dom.toggleClass(MODE_BUTTON_HIDDEN_CLASS, true);
+		} else {
+			item.setDisabled?.(true);
+		}
+		changed += 1;
+	}
+	return changed;
+}
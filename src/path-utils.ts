@@ -1,3 +1,7 @@
+import { GLOB_ESCAPABLE_CHARACTERS } from './glob';
+import { isRegexRule } from './regex-rules';
+import { splitRuleModePrefix } from './rule-modes';
+
 export function normalizeVaultPath(path: string): string {
 	let normalized = path.trim();
 	normalized = normalized.replace(/\\/g, '/');
@@ -5,3 +9,31 @@ export function normalizeVaultPath(path: string): string {
 	normalized = normalized.replace(/\/+/g, '/');
 	return normalized;
 }
+
+/*
+ * Rule text is normalized like a path, except that a backslash in front of a
+ * glob special character is kept as an escape instead of becoming a `/`.
+ * `re:` rules are only trimmed: their backslashes belong to the regex. A
+ * leading view mode prefix (`live:`) is kept and the rest normalized.
+ */
+export function normalizeRulePattern(rule: string): string {
+	const modePrefix = splitRuleModePrefix(rule);
+	if (modePrefix.explicit) {
+		return `${modePrefix.mode}:${normalizeRulePattern(modePrefix.pattern)}`;
+	}
+	if (isRegexRule(rule)) {
+		return rule.trim();
+	}
+	const escapeMarker = '\uE000';
+	let marked = '';
+	for (let index = 0; index < rule.length; index++) {
+		const char = rule[index] ?? '';
+		const next = rule[index + 1];
+		if (char === '\\' && next !== undefined && GLOB_ESCAPABLE_CHARACTERS.includes(next)) {
+			marked += escapeMarker;
+			continue;
+		}
+		marked += char;
+	}
+	return normalizeVaultPath(marked).split(escapeMarker).join('\\');
+}
@@ -0,0 +1,26 @@
+import { App, SuggestModal } from 'obsidian';
+
+export class RuleProfileSuggestModal extends SuggestModal<string> {
+	constructor(
+		app: App,
+		private readonly profileNames: string[],
+		private readonly activeProfileName: string,
+		private readonly onChoose: (name: string) => void,
+	) {
+		super(app);
+		this.setPlaceholder('Switch rule profile');
+	}
+
+	getSuggestions(query: string): string[] {
+		const normalizedQuery = query.trim().toLowerCase();
+		return this.profileNames.filter((name) => name.toLowerCase().includes(normalizedQuery));
+	}
+
+	renderSuggestion(name: string, el: HTMLElement): void {
+		el.setText(name === this.activeProfileName ? `${name} (active)` : name);
+	}
+
+	onChooseSuggestion(name: string): void {
+		this.onChoose(name);
+	}
+}
@@ -0,0 +1,146 @@
+import type { ForceReadModeSettings, RuleProfile } from './matcher';
+
+export const DEFAULT_PROFILE_NAME = 'Default';
+
+/*
+ * The top-level rule mode, rule lists and glob/case fields of the settings are the
+ * working copy of the active profile. Everything else (matcher, diagnostics,
+ * settings editors) keeps reading those fields; profiles only snapshot and
+ * restore them.
+ */
+export function captureActiveProfile(settings: ForceReadModeSettings, name = settings.activeProfileName): RuleProfile {
+	return {
+		name,
+		ruleMode: settings.ruleMode,
+		includeRules: [...settings.includeRules],
+		excludeRules: [...settings.excludeRules],
+		orderedRules: [...settings.orderedRules],
+		useGlobPatterns: settings.useGlobPatterns,
+		caseSensitive: settings.caseSensitive,
+	};
+}
+
+function applyProfile(settings: ForceReadModeSettings, profile: RuleProfile): void {
+	settings.ruleMode = profile.ruleMode;
+	settings.includeRules = [...profile.includeRules];
+	settings.excludeRules = [...profile.excludeRules];
+	settings.orderedRules = [...profile.orderedRules];
+	settings.useGlobPatterns = profile.useGlobPatterns;
+	settings.caseSensitive = profile.caseSensitive;
+	settings.activeProfileName = profile.name;
+}
+
+export function findProfile(settings: ForceReadModeSettings, name: string): RuleProfile | null {
+	return settings.profiles.find((profile) => profile.name === name) ?? null;
+}
+
+export function syncActiveProfile(settings: ForceReadModeSettings): void {
+	const snapshot = captureActiveProfile(settings);
+	const exists = settings.profiles.some((profile) => profile.name === settings.activeProfileName);
+	settings.profiles = exists
+		? settings.profiles.map((profile) => (profile.name === settings.activeProfileName ? snapshot : profile))
+		: [...settings.profiles, snapshot];
+}
+
+export function normalizeProfiles(settings: ForceReadModeSettings): void {
+	const seen = new Set<string>();
+	settings.profiles = (settings.profiles ?? [])
+		.filter((profile) => {
+			const name = profile?.name?.trim();
+			if (!name || seen.has(name)) {
+				return false;
+			}
+			seen.add(name);
+			return true;
+		})
+		.map((profile) => ({
+			name: profile.name.trim(),
+			ruleMode: profile.ruleMode ?? settings.ruleMode,
+			includeRules: [...(profile.includeRules ?? [])],
+			excludeRules: [...(profile.excludeRules ?? [])],
+			orderedRules: [...(profile.orderedRules ?? [])],
+			useGlobPatterns: profile.useGlobPatterns ?? settings.useGlobPatterns,
+			caseSensitive: profile.caseSensitive ?? settings.caseSensitive,
+		}));
+
+	if (settings.profiles.length === 0) {
+		settings.activeProfileName = settings.activeProfileName?.trim() || DEFAULT_PROFILE_NAME;
+		settings.profiles = [captureActiveProfile(settings)];
+		return;
+	}
+
+	const active = findProfile(settings, settings.activeProfileName);
+	const fallback = settings.profiles[0];
+	if (!active && fallback) {
+		applyProfile(settings, fallback);
+	}
+}
+
+export function switchProfile(settings: ForceReadModeSettings, name: string): boolean {
+	if (name === settings.activeProfileName) {
+		return false;
+	}
+	const target = findProfile(settings, name);
+	if (!target) {
+		return false;
+	}
+	syncActiveProfile(settings);
+	applyProfile(settings, target);
+	return true;
+}
+
+export function getNextProfileName(settings: ForceReadModeSettings): string | null {
+	if (settings.profiles.length < 2) {
+		return null;
+	}
+	const index = settings.profiles.findIndex((profile) => profile.name === settings.activeProfileName);
+	const next = settings.profiles[(index + 1) % settings.profiles.length];
+	return next?.name ?? null;
+}
+
+export function createProfile(settings: ForceReadModeSettings): string {
+	let suffix = settings.profiles.length + 1;
+	let name = `Profile ${suffix}`;
+	while (findProfile(settings, name)) {
+		suffix += 1;
+		name = `Profile ${suffix}`;
+	}
+	syncActiveProfile(settings);
+	settings.profiles = [...settings.profiles, captureActiveProfile(settings, name)];
+	return name;
+}
+
+export function renameProfile(settings: ForceReadModeSettings, name: string, nextName: string): boolean {
+	const trimmed = nextName.trim();
+	if (!trimmed || trimmed === name || findProfile(settings, trimmed)) {
+		return false;
+	}
+	if (!findProfile(settings, name)) {
+		return false;
+	}
+	settings.profiles = settings.profiles.map((profile) => (
+		profile.name === name ? { ...profile, name: trimmed } : profile
+	));
+	if (settings.activeProfileName === name) {
+		settings.activeProfileName = trimmed;
+	}
+	return true;
+}
+
+export function deleteProfile(settings: ForceReadModeSettings, name: string): boolean {
+	if (settings.profiles.length < 2) {
+		return false;
+	}
+	const index = settings.profiles.findIndex((profile) => profile.name === name);
+	if (index === -1) {
+		return false;
+	}
+	settings.profiles = settings.profiles.filter((profile) => profile.name !== name);
+	if (settings.activeProfileName === name) {
+		const fallback = settings.profiles[Math.max(0, index - 1)];
+		if (fallback) {
+			applyProfile(settings, fallback);
+		}
+	}
+	return true;
+}
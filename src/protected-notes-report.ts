@@ -0,0 +1,93 @@
+import type { FileMetadataResolver, ForceReadModeSettings, FrontmatterOverride } from './matcher';
+import { buildPathTesterResult } from './rule-diagnostics';
+
+export type ProtectedNoteEntry = {
+	path: string;
+	name: string;
+	includeMatches: string[];
+	excludeMatches: string[];
+	tagMatches: string[];
+	frontmatterOverride: FrontmatterOverride;
+};
+
+export type ProtectedNotesGroup = {
+	folder: string;
+	entries: ProtectedNoteEntry[];
+};
+
+function splitPath(path: string): { folder: string; name: string } {
+	const slashIndex = path.lastIndexOf('/');
+	return slashIndex === -1
+		? { folder: '', name: path }
+		: { folder: path.slice(0, slashIndex), name: path.slice(slashIndex + 1) };
+}
+
+export function buildProtectedNotesReport(
+	paths: string[],
+	settings: ForceReadModeSettings,
+	resolveMetadata?: FileMetadataResolver,
+): ProtectedNotesGroup[] {
+	const groups = new Map<string, ProtectedNoteEntry[]>();
+	for (const path of paths) {
+		const result = buildPathTesterResult(path, settings, resolveMetadata);
+		if (!result.finalReadOnly) {
+			continue;
+		}
+		const { folder, name } = splitPath(result.testPath);
+		const entries = groups.get(folder) ?? [];
+		entries.push({
+			path: result.testPath,
+			name,
+			includeMatches: result.includeMatches,
+			excludeMatches: result.excludeMatches,
+			tagMatches: result.tagMatches,
+			frontmatterOverride: result.frontmatterOverride,
+		});
+		groups.set(folder, entries);
+	}
+
+	return Array.from(groups.entries())
+		.sort(([left], [right]) => left.localeCompare(right))
+		.map(([folder, entries]) => ({
+			folder,
+			entries: entries.sort((left, right) => left.name.localeCompare(right.name)),
+		}));
+}
+
+export function describeProtectedNoteMatches(entry: ProtectedNoteEntry, settings: ForceReadModeSettings): string {
+	if (entry.frontmatterOverride === 'lock') {
+		return `Frontmatter: ${settings.frontmatterPropertyName} = true`;
+	}
+	const parts: string[] = [];
+	if (entry.includeMatches.length > 0) {
+		parts.push(`Include: ${entry.includeMatches.join(', ')}`);
+	}
+	if (entry.tagMatches.length > 0) {
+		parts.push(`Tags: ${entry.tagMatches.map((tag) => `#${tag}`).join(', ')}`);
+	}
+	parts.push(`Exclude: ${entry.excludeMatches.length > 0 ? entry.excludeMatches.join(', ') : 'none'}`);
+	return parts.join(' · ');
+}
+
+// The filter matches the note path and the rules that matched it, so "drafts/**" finds every note a rule covers.
+export function filterProtectedNotesReport(groups: ProtectedNotesGroup[], query: string): ProtectedNotesGroup[] {
+	const normalizedQuery = query.trim().toLowerCase();
+	if (!normalizedQuery) {
+		return groups;
+	}
+	return groups
+		.map((group) => ({
+			folder: group.folder,
+			entries: group.entries.filter((entry) => [
+				entry.path,
+				...entry.includeMatches,
+				...entry.excludeMatches,
+				...entry.tagMatches.map((tag) => `#${tag}`),
+			].some((value) => value.toLowerCase().includes(normalizedQuery))),
+		}))
+		.filter((group) => group.entries.length > 0);
+}
+
+export function countProtectedNotes(groups: ProtectedNotesGroup[]): number {
+	return groups.reduce((total, group) => total + group.entries.length, 0);
+}
@@ -0,0 +1,134 @@
+import { ItemView, type WorkspaceLeaf } from 'obsidian';
+import type { FileMetadataResolver, ForceReadModeSettings } from './matcher';
+import {
+	buildProtectedNotesReport,
+	countProtectedNotes,
+	describeProtectedNoteMatches,
+	filterProtectedNotesReport,
+	type ProtectedNotesGroup,
+} from './protected-notes-report';
+
+export const VIEW_TYPE_PROTECTED_NOTES = 'read-only-view-protected-notes';
+const PROTECTED_NOTES_REFRESH_DELAY_MS = 300;
+const PROTECTED_NOTES_EXPAND_LIMIT = 500;
+
+export interface ProtectedNotesViewHost {
+	settings: ForceReadModeSettings;
+	getMetadataResolver: () => FileMetadataResolver;
+}
+
+export class ProtectedNotesView extends ItemView {
+	private groups: ProtectedNotesGroup[] = [];
+	private query = '';
+	private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+	private summaryEl: HTMLElement | null = null;
+	private listEl: HTMLElement | null = null;
+
+	constructor(leaf: WorkspaceLeaf, private readonly host: ProtectedNotesViewHost) {
+		super(leaf);
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_PROTECTED_NOTES;
+	}
+
+	getDisplayText(): string {
+		return 'Protected notes';
+	}
+
+	getIcon(): string {
+		return 'lock';
+	}
+
+	async onOpen(): Promise<void> {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass('read-only-view-report');
+
+		const toolbarEl = contentEl.createDiv({ cls: 'read-only-view-report-toolbar' });
+		const filterEl = toolbarEl.createEl('input', {
+			type: 'search',
+			placeholder: 'Filter by path or rule',
+			cls: 'read-only-view-report-filter',
+		});
+		filterEl.addEventListener('input', () => {
+			this.query = filterEl.value;
+			this.render();
+		});
+		const refreshButton = toolbarEl.createEl('button', { text: 'Refresh' });
+		refreshButton.addEventListener('click', () => {
+			this.refresh();
+		});
+
+		this.summaryEl = contentEl.createDiv({ cls: 'read-only-view-report-summary' });
+		this.listEl = contentEl.createDiv({ cls: 'read-only-view-report-list' });
+		this.refresh();
+	}
+
+	async onClose(): Promise<void> {
+		if (this.refreshTimer) {
+			clearTimeout(this.refreshTimer);
+			this.refreshTimer = null;
+		}
+		this.contentEl.empty();
+	}
+
+	requestRefresh(): void {
+		if (this.refreshTimer) {
+			return;
+		}
+		this.refreshTimer = setTimeout(() => {
+			this.refreshTimer = null;
+			this.refresh();
+		}, PROTECTED_NOTES_REFRESH_DELAY_MS);
+	}
+
+	refresh(): void {
+		const paths = this.app.vault.getMarkdownFiles().map((file) => file.path);
+		this.groups = buildProtectedNotesReport(paths, this.host.settings, this.host.getMetadataResolver());
+		this.render();
+	}
+
+	private render(): void {
+		if (!this.summaryEl || !this.listEl) {
+			return;
+		}
+		const groups = filterProtectedNotesReport(this.groups, this.query);
+		const shownCount = countProtectedNotes(groups);
+		const totalCount = countProtectedNotes(this.groups);
+		this.summaryEl.setText(
+			shownCount === totalCount
+				? `${totalCount} protected notes`
+				: `${shownCount} of ${totalCount} protected notes`,
+		);
+
+		this.listEl.empty();
+		if (!this.host.settings.enabled) {
+			this.listEl.createDiv({ cls: 'read-only-view-report-empty', text: 'Read-only mode is disabled.' });
+			return;
+		}
+		if (groups.length === 0) {
+			this.listEl.createDiv({ cls: 'read-only-view-report-empty', text: 'No protected notes.' });
+			return;
+		}
+
+		const expand = shownCount <= PROTECTED_NOTES_EXPAND_LIMIT;
+		for (const group of groups) {
+			const groupEl = this.listEl.createEl('details', { cls: 'read-only-view-report-group' });
+			groupEl.open = expand;
+			groupEl.createEl('summary', { text: `${group.folder || '/'} (${group.entries.length})` });
+			for (const entry of group.entries) {
+				const entryEl = groupEl.createDiv({ cls: 'read-only-view-report-entry' });
+				const linkEl = entryEl.createEl('a', { text: entry.name, href: '#' });
+				linkEl.addEventListener('click', (event) => {
+					event.preventDefault();
+					void this.app.workspace.openLinkText(entry.path, '', event.ctrlKey || event.metaKey);
+				});
+				entryEl.createDiv({
+					cls: 'read-only-view-report-matches',
+					text: describeProtectedNoteMatches(entry, this.host.settings),
+				});
+			}
+		}
+	}
+}
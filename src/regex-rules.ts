@@ -0,0 +1,291 @@
+/*
+ * `re:` rules are JavaScript regular expressions tested against the
+ * normalized vault path (unanchored, like `RegExp.test`; add `^`/`$` as
+ * needed). They work the same in glob and prefix mode. Because JavaScript
+ * regexes cannot be interrupted, patterns that can backtrack catastrophically
+ * (nested or ambiguous repetition) are rejected up front instead of timing out
+ * later; a rejected or invalid rule never matches.
+ */
+
+export const REGEX_RULE_PREFIX = 're:';
+export const REGEX_RULE_MAX_LENGTH = 500;
+export const REGEX_RULE_CACHE_CAP = 512;
+// Each unbounded quantifier multiplies the ways a failing match can be retried.
+export const REGEX_RULE_MAX_UNBOUNDED_QUANTIFIERS = 3;
+// A `{n,m}` range wider than this backtracks like an unbounded quantifier (`.{0,200}`).
+export const REGEX_RULE_MAX_BOUNDED_RANGE = 10;
+
+export type CompiledRegexRule = {
+	regex: RegExp | null;
+	error: string | null;
+};
+
+const regexRuleCache = new Map<string, CompiledRegexRule>();
+
+export function clearRegexRuleCache(): void {
+	regexRuleCache.clear();
+}
+
+export function getRegexRuleCacheSize(): number {
+	return regexRuleCache.size;
+}
+
+function setRegexRuleCache(cacheKey: string, compiled: CompiledRegexRule): void {
+	if (regexRuleCache.size >= REGEX_RULE_CACHE_CAP) {
+		const oldestEntry = regexRuleCache.keys().next();
+		if (!oldestEntry.done) {
+			regexRuleCache.delete(oldestEntry.value);
+		}
+	}
+	regexRuleCache.set(cacheKey, compiled);
+}
+
+export function isRegexRule(rule: string): boolean {
+	return rule.trimStart().startsWith(REGEX_RULE_PREFIX);
+}
+
+export function getRegexRuleSource(rule: string): string {
+	return rule.trim().slice(REGEX_RULE_PREFIX.length);
+}
+
+type GroupState = {
+	hasQuantifier: boolean;
+	alternativeStarts: string[];
+	atAlternativeStart: boolean;
+	// Kind of the latest atom, and of the atom before it when that one had an unbounded quantifier.
+	lastAtom: string;
+	lastUnboundedAtom: string | null;
+	previousUnboundedAtom: string | null;
+};
+
+type Quantifier = {
+	length: number;
+	// Can match the quantified atom more than once.
+	repeats: boolean;
+	// Can match a varying number of times (`{3}` cannot).
+	variable: boolean;
+	// Has no upper limit (`*`, `+`, `{2,}`) or a range wider than `REGEX_RULE_MAX_BOUNDED_RANGE`.
+	unbounded: boolean;
+	// Can match the atom zero times (`?`, `*`, `{0,n}`).
+	optional: boolean;
+};
+
+function createGroupState(): GroupState {
+	return {
+		hasQuantifier: false,
+		alternativeStarts: [],
+		atAlternativeStart: true,
+		lastAtom: '',
+		lastUnboundedAtom: null,
+		previousUnboundedAtom: null,
+	};
+}
+
+function readBraceQuantifier(source: string, index: number): Quantifier | null {
+	const match = /^\{(\d+)(,(\d*))?\}/.exec(source.slice(index));
+	if (!match) {
+		return null;
+	}
+	const min = Number(match[1]);
+	const max = match[2] === undefined ? min : match[3] === '' ? Infinity : Number(match[3]);
+	return {
+		length: match[0].length,
+		repeats: max > 1,
+		variable: max !== min,
+		unbounded: max - min > REGEX_RULE_MAX_BOUNDED_RANGE,
+		optional: min === 0,
+	};
+}
+
+function readQuantifier(source: string, index: number): Quantifier | null {
+	const char = source[index];
+	if (char === '*' || char === '+') {
+		return { length: 1, repeats: true, variable: true, unbounded: true, optional: char === '*' };
+	}
+	if (char === '?') {
+		return { length: 1, repeats: false, variable: true, unbounded: false, optional: true };
+	}
+	return char === '{' ? readBraceQuantifier(source, index) : null;
+}
+
+// Alternatives are ambiguous when two may start with the same character; classes, escapes and `.` count as "any".
+function hasAmbiguousAlternatives(starts: string[]): boolean {
+	if (starts.length < 2) {
+		return false;
+	}
+	if (starts.some((start) => start === '' || start === 'any')) {
+		return true;
+	}
+	return new Set(starts).size < starts.length;
+}
+
+function atomsOverlap(first: string, second: string): boolean {
+	return first === second || first === 'any' || second === 'any';
+}
+
+/*
+ * A cheap structural check: a repeated group must not contain another
+ * quantifier (`(a+)+`, `(.*)*`, `(\w+\s?)*`) or alternatives that can start
+ * with the same character (`(a|ab)*`, `(\d|x)+`). Outside groups, two
+ * unbounded quantifiers in a row must not repeat overlapping atoms
+ * (`a*a*`, `\d+.*`, also with optional atoms between them like `a*b?a*`),
+ * and a rule may use at most `REGEX_RULE_MAX_UNBOUNDED_QUANTIFIERS` of them
+ * (`.*a.*a.*a.*b`). Wide `{n,m}` ranges count as unbounded.
+ */
+export function findBacktrackingRisk(source: string): string | null {
+	const stack: GroupState[] = [createGroupState()];
+	let unboundedQuantifiers = 0;
+	const current = () => stack[stack.length - 1] as GroupState;
+	const recordAtom = (kind: string) => {
+		const group = current();
+		if (group.atAlternativeStart) {
+			group.alternativeStarts.push(kind);
+			group.atAlternativeStart = false;
+		}
+		group.previousUnboundedAtom = group.lastUnboundedAtom;
+		group.lastUnboundedAtom = null;
+		group.lastAtom = kind;
+	};
+	// Applies an unbounded quantifier to the latest atom of `group`.
+	const recordUnbounded = (group: GroupState): string | null => {
+		unboundedQuantifiers += 1;
+		if (unboundedQuantifiers > REGEX_RULE_MAX_UNBOUNDED_QUANTIFIERS) {
+			return `More than ${REGEX_RULE_MAX_UNBOUNDED_QUANTIFIERS} unbounded quantifiers (*, +, {n,} or {n,m} wider than ${REGEX_RULE_MAX_BOUNDED_RANGE}) can cause catastrophic backtracking.`;
+		}
+		if (group.previousUnboundedAtom !== null && atomsOverlap(group.previousUnboundedAtom, group.lastAtom)) {
+			return 'Adjacent unbounded quantifiers over overlapping characters can cause catastrophic backtracking.';
+		}
+		group.lastUnboundedAtom = group.lastAtom;
+		return null;
+	};
+	// Applies any other quantifier; an atom that may match nothing does not separate its neighbours.
+	const recordBounded = (group: GroupState, quantifier: Quantifier) => {
+		if (quantifier.optional) {
+			group.lastUnboundedAtom = group.previousUnboundedAtom;
+		}
+	};
+
+	for (let index = 0; index < source.length; index++) {
+		const char = source[index];
+		if (char === '\\') {
+			const next = source[index + 1] ?? '';
+			recordAtom(/[dDwWsSbB]/.test(next) ? 'any' : next);
+			index += 1;
+			continue;
+		}
+		if (char === '[') {
+			let end = index + 1;
+			while (end < source.length && source[end] !== ']') {
+				end += source[end] === '\\' ? 2 : 1;
+			}
+			recordAtom('any');
+			index = end;
+			continue;
+		}
+		if (char === '(') {
+			recordAtom('any');
+			stack.push(createGroupState());
+			// Skip group modifiers such as `?:`, `?=`, `?!`, `?<=`, `?<!` and `?<name>`.
+			const modifier = /^\?(?::|=|!|<=|<!|<[A-Za-z_][\w]*>)/.exec(source.slice(index + 1));
+			if (modifier) {
+				index += modifier[0].length;
+			}
+			continue;
+		}
+		if (char === '|') {
+			const group = current();
+			if (group.atAlternativeStart) {
+				group.alternativeStarts.push('');
+			}
+			group.atAlternativeStart = true;
+			group.lastUnboundedAtom = null;
+			group.previousUnboundedAtom = null;
+			continue;
+		}
+		if (char === ')') {
+			if (stack.length === 1) {
+				continue;
+			}
+			const group = stack.pop() as GroupState;
+			if (group.atAlternativeStart) {
+				group.alternativeStarts.push('');
+			}
+			const quantifier = readQuantifier(source, index + 1);
+			if (quantifier?.repeats) {
+				if (group.hasQuantifier) {
+					return 'Nested quantifier inside a repeated group can cause catastrophic backtracking.';
+				}
+				if (hasAmbiguousAlternatives(group.alternativeStarts)) {
+					return 'Overlapping alternatives inside a repeated group can cause catastrophic backtracking.';
+				}
+			}
+			const risk = quantifier?.unbounded ? recordUnbounded(current()) : null;
+			if (risk) {
+				return risk;
+			}
+			if (quantifier && !quantifier.unbounded) {
+				recordBounded(current(), quantifier);
+			}
+			if (group.hasQuantifier || quantifier?.variable) {
+				current().hasQuantifier = true;
+			}
+			if (quantifier) {
+				index += quantifier.length;
+				if (source[index + 1] === '?') {
+					index += 1;
+				}
+			}
+			continue;
+		}
+		const quantifier = readQuantifier(source, index);
+		if (quantifier) {
+			const risk = quantifier.unbounded ? recordUnbounded(current()) : null;
+			if (risk) {
+				return risk;
+			}
+			if (!quantifier.unbounded) {
+				recordBounded(current(), quantifier);
+			}
+			current().hasQuantifier = current().hasQuantifier || quantifier.variable;
+			index += quantifier.length - 1;
+			if (source[index + 1] === '?') {
+				index += 1;
+			}
+			continue;
+		}
+		recordAtom(char === '.' || char === '^' || char === '$' ? 'any' : (char ?? ''));
+	}
+	return null;
+}
+
+/*
+ * Compiles a `re:` rule (with the `i` flag when matching is case-insensitive).
+ * Results, including errors, are cached with the same FIFO policy as the glob
+ * regex cache.
+ */
+export function compileRegexRule(rule: string, caseSensitive: boolean): CompiledRegexRule {
+	const source = getRegexRuleSource(rule);
+	const cacheKey = `${caseSensitive ? '1' : '0'}:${source}`;
+	const cached = regexRuleCache.get(cacheKey);
+	if (cached) {
+		return cached;
+	}
+
+	let compiled: CompiledRegexRule;
+	if (source.length === 0) {
+		compiled = { regex: null, error: 'Regular expression is empty.' };
+	} else if (source.length > REGEX_RULE_MAX_LENGTH) {
+		compiled = { regex: null, error: `Regular expression is longer than ${REGEX_RULE_MAX_LENGTH} characters.` };
+	} else {
+		try {
+			const regex = new RegExp(source, caseSensitive ? '' : 'i');
+			const risk = findBacktrackingRisk(source);
+			compiled = risk ? { regex: null, error: risk } : { regex, error: null };
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			compiled = { regex: null, error: `Invalid regular expression: ${message}` };
+		}
+	}
+	setRegexRuleCache(cacheKey, compiled);
+	return compiled;
+}
@@ -0,0 +1,62 @@
+import { normalizeVaultPath } from './path-utils';
+import type { PathRename } from './rule-actions';
+
+const RENAME_TRACKING_COALESCE_MS = 200;
+
+export interface RenameTrackingDependencies {
+	onRenames: (renames: PathRename[]) => void;
+}
+
+export interface RenameTrackingService {
+	trackRename: (oldPath: string, newPath: string) => void;
+	clear: () => void;
+}
+
+function isInsidePath(path: string, parent: string): boolean {
+	return path.startsWith(`${parent}/`);
+}
+
+/*
+ * Renaming a folder emits one vault event for the folder and one for each
+ * descendant. Events are collected briefly and descendants of a renamed folder
+ * are dropped, so one folder rename produces one batch.
+ */
+class DefaultRenameTrackingService implements RenameTrackingService {
+	private timer: ReturnType<typeof setTimeout> | null = null;
+	private pending: PathRename[] = [];
+
+	constructor(private readonly dependencies: RenameTrackingDependencies) {}
+
+	trackRename(oldPath: string, newPath: string): void {
+		this.pending.push({
+			oldPath: normalizeVaultPath(oldPath),
+			newPath: normalizeVaultPath(newPath),
+		});
+		if (this.timer) {
+			return;
+		}
+		this.timer = setTimeout(() => {
+			this.timer = null;
+			const renames = this.pending;
+			this.pending = [];
+			const topLevel = renames.filter((rename) => !renames.some((other) => (
+				other !== rename && isInsidePath(rename.oldPath, other.oldPath)
+			)));
+			if (topLevel.length > 0) {
+				this.dependencies.onRenames(topLevel);
+			}
+		}, RENAME_TRACKING_COALESCE_MS);
+	}
+
+	clear(): void {
+		if (this.timer) {
+			clearTimeout(this.timer);
+			this.timer = null;
+		}
+		this.pending = [];
+	}
+}
+
+export function createRenameTrackingService(dependencies: RenameTrackingDependencies): RenameTrackingService {
+	return new DefaultRenameTrackingService(dependencies);
+}
@@ -0,0 +1,145 @@
+import { normalizeVaultPath } from './path-utils';
+
+// A file change this soon after a blocked interaction is treated as its result and reverted.
+const RENDERED_EDIT_REVERT_WINDOW_MS = 2000;
+// Snapshots are kept for the most recently checked protected notes only.
+const RENDERED_EDIT_SNAPSHOT_CAP = 100;
+
+/*
+ * Elements of the rendered view that write to the file: property names and
+ * their type/remove menu, value inputs, the edit and remove buttons of link
+ * and list values, `Add property`, and task checkboxes.
+ */
+export const RENDERED_EDIT_TARGET_SELECTOR = [
+	'.metadata-property-key',
+	'.metadata-property-value input',
+	'.metadata-property-value [contenteditable]',
+	'.metadata-link-flair',
+	'.multi-select-pill-remove-button',
+	'.metadata-add-button',
+	'.task-list-item-checkbox',
+].join(', ');
+
+// Links and tags shown as property values only navigate.
+const RENDERED_NAVIGATION_SELECTOR = 'a, .internal-link, .external-link, .tag, .multi-select-pill-content, .metadata-link-inner';
+
+export function isRenderedEditTarget(element: Pick<Element, 'closest'>): boolean {
+	return element.closest(RENDERED_EDIT_TARGET_SELECTOR) !== null && element.closest(RENDERED_NAVIGATION_SELECTOR) === null;
+}
+
+// Intercepted in the capture phase; `input` and `change` cannot be cancelled but still stop propagating.
+export const RENDERED_EDIT_EVENTS = ['click', 'beforeinput', 'input', 'change', 'paste', 'drop'] as const;
+
+export type RenderedEditBlockKind = 'interaction' | 'revert';
+
+export interface RenderedEditGuardDependencies {
+	isProtectedPath: (path: string) => boolean;
+	readFile: (path: string) => Promise<string | null>;
+	writeFile: (path: string, content: string) => Promise<void>;
+	onBlocked?: (path: string, kind: RenderedEditBlockKind) => void;
+	now?: () => number;
+}
+
+export interface RenderedEditGuardService {
+	handleInteraction: (path: string, event: Event) => boolean;
+	trackPath: (path: string) => Promise<void>;
+	handleModify: (path: string) => Promise<boolean>;
+	renamePath: (oldPath: string, newPath: string) => void;
+	forgetPath: (path: string) => void;
+	clear: () => void;
+}
+
+/*
+ * Reading mode still lets the Properties panel and task checkboxes write to
+ * the file. Interactions with them in protected notes are cancelled, and as a
+ * safety net the content of protected notes checked by the enforcement loop
+ * is remembered so a change that follows an interaction anyway is written
+ * back. Changes without a recent interaction (sync, other plugins) are
+ * accepted and become the new snapshot.
+ */
+class DefaultRenderedEditGuardService implements RenderedEditGuardService {
+	private readonly snapshots = new Map<string, string>();
+	private readonly lastInteractionAt = new Map<string, number>();
+	private readonly now: () => number;
+
+	constructor(private readonly dependencies: RenderedEditGuardDependencies) {
+		this.now = dependencies.now ?? (() => Date.now());
+	}
+
+	handleInteraction(path: string, event: Event): boolean {
+		const normalizedPath = normalizeVaultPath(path);
+		if (!this.dependencies.isProtectedPath(normalizedPath)) {
+			return false;
+		}
+		event.preventDefault();
+		event.stopPropagation();
+		this.lastInteractionAt.set(normalizedPath, this.now());
+		// The file is not written yet, so a missing snapshot can still be taken.
+		void this.trackPath(normalizedPath);
+		this.dependencies.onBlocked?.(normalizedPath, 'interaction');
+		return true;
+	}
+
+	async trackPath(path: string): Promise<void> {
+		const normalizedPath = normalizeVaultPath(path);
+		if (this.snapshots.has(normalizedPath) || !this.dependencies.isProtectedPath(normalizedPath)) {
+			return;
+		}
+		const content = await this.dependencies.readFile(normalizedPath);
+		if (content === null || this.snapshots.has(normalizedPath)) {
+			return;
+		}
+		if (this.snapshots.size >= RENDERED_EDIT_SNAPSHOT_CAP) {
+			const oldestPath = this.snapshots.keys().next();
+			if (!oldestPath.done) {
+				this.forgetPath(oldestPath.value);
+			}
+		}
+		this.snapshots.set(normalizedPath, content);
+	}
+
+	async handleModify(path: string): Promise<boolean> {
+		const normalizedPath = normalizeVaultPath(path);
+		const snapshot = this.snapshots.get(normalizedPath);
+		if (snapshot === undefined) {
+			return false;
+		}
+		const content = await this.dependencies.readFile(normalizedPath);
+		if (content === null || content === snapshot) {
+			return false;
+		}
+		const lastInteractionAt = this.lastInteractionAt.get(normalizedPath);
+		const followsInteraction = lastInteractionAt !== undefined && this.now() - lastInteractionAt <= RENDERED_EDIT_REVERT_WINDOW_MS;
+		if (!followsInteraction || !this.dependencies.isProtectedPath(normalizedPath)) {
+			this.snapshots.set(normalizedPath, content);
+			return false;
+		}
+		await this.dependencies.writeFile(normalizedPath, snapshot);
+		this.dependencies.onBlocked?.(normalizedPath, 'revert');
+		return true;
+	}
+
+	renamePath(oldPath: string, newPath: string): void {
+		const normalizedOldPath = normalizeVaultPath(oldPath);
+		const snapshot = this.snapshots.get(normalizedOldPath);
+		this.forgetPath(normalizedOldPath);
+		if (snapshot !== undefined) {
+			this.snapshots.set(normalizeVaultPath(newPath), snapshot);
+		}
+	}
+
+	forgetPath(path: string): void {
+		const normalizedPath = normalizeVaultPath(path);
+		this.snapshots.delete(normalizedPath);
+		this.lastInteractionAt.delete(normalizedPath);
+	}
+
+	clear(): void {
+		this.snapshots.clear();
+		this.lastInteractionAt.clear();
+	}
+}
+
+export function createRenderedEditGuardService(dependencies: RenderedEditGuardDependencies): RenderedEditGuardService {
+	return new DefaultRenderedEditGuardService(dependencies);
+}
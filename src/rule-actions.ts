@@ -0,0 +1,339 @@
+import { escapeGlobLiteral, findGlobSyntaxIndex } from './glob';
+import { normalizeRulePattern, normalizeVaultPath, type ForceReadModeSettings } from './matcher';
+import { isRegexRule } from './regex-rules';
+import { splitRuleModePrefix } from './rule-modes';
+import { buildRuleDiagnostics, stringifyRules } from './rule-diagnostics';
+import { buildEffectiveOrderedRules, buildEffectiveRules, formatOrderedRule, parseOrderedRule } from './rule-limits';
+
+export type RuleListTarget = 'include' | 'exclude';
+
+// In ordered mode include and exclude targets both land in the single ordered list.
+export type RuleListName = RuleListTarget | 'ordered';
+
+export type RuleTargetPath = {
+	path: string;
+	isFolder: boolean;
+};
+
+export type AppendRulesResult = {
+	rules: string[];
+	added: string[];
+	duplicates: string[];
+	rejectedByLimit: string[];
+	warnings: string[];
+};
+
+export function buildRuleForPath(target: RuleTargetPath, useGlobPatterns: boolean): string {
+	const path = normalizeVaultPath(target.path).replace(/\/+$/, '');
+	if (!useGlobPatterns) {
+		return target.isFolder ? `${path}/` : path;
+	}
+	// Brackets, braces and wildcards in note names must not turn into glob syntax.
+	const literal = escapeGlobLiteral(path);
+	return target.isFolder ? `${literal}/**` : literal;
+}
+
+function getRuleList(settings: ForceReadModeSettings, list: RuleListTarget): string[] {
+	if (settings.ruleMode === 'ordered') {
+		return settings.orderedRules;
+	}
+	return list === 'include' ? settings.includeRules : settings.excludeRules;
+}
+
+export function setRuleList(settings: ForceReadModeSettings, list: RuleListTarget, rules: string[]): void {
+	if (settings.ruleMode === 'ordered') {
+		settings.orderedRules = rules;
+	} else if (list === 'include') {
+		settings.includeRules = rules;
+	} else {
+		settings.excludeRules = rules;
+	}
+}
+
+function normalizeForComparison(rules: string[], settings: ForceReadModeSettings): string[] {
+	return buildRuleDiagnostics(stringifyRules(rules), settings.useGlobPatterns).map((entry) => (
+		settings.caseSensitive || isRegexRule(entry.normalized) ? entry.normalized : entry.normalized.toLowerCase()
+	));
+}
+
+/*
+ * Appends one rule per target to the include or exclude list. Rules that are
+ * already present (after mode normalization) are skipped, and a rule that the
+ * hard caps in `rule-limits.ts` would ignore is not added at all, so the list
+ * never grows past what is enforced.
+ */
+export function appendRulesForPaths(
+	settings: ForceReadModeSettings,
+	list: RuleListTarget,
+	targets: RuleTargetPath[],
+): AppendRulesResult {
+	return appendRules(settings, list, targets.map((target) => buildRuleForPath(target, settings.useGlobPatterns)));
+}
+
+// Same policy as `appendRulesForPaths` for rule text; in ordered mode an exclude rule is appended as `!rule`.
+export function appendRules(settings: ForceReadModeSettings, list: RuleListTarget, newRules: string[]): AppendRulesResult {
+	if (settings.ruleMode === 'ordered') {
+		return appendOrderedRules(settings, list, newRules);
+	}
+	const rules = [...getRuleList(settings, list)];
+	const known = new Set(normalizeForComparison(rules, settings));
+	const added: string[] = [];
+	const duplicates: string[] = [];
+	const rejectedByLimit: string[] = [];
+
+	for (const newRule of newRules) {
+		const rule = normalizeRulePattern(newRule);
+		if (!rule) {
+			continue;
+		}
+		const [comparable = ''] = normalizeForComparison([rule], settings);
+		if (known.has(comparable)) {
+			duplicates.push(rule);
+			continue;
+		}
+
+		rules.push(rule);
+		const effectiveRules = list === 'include'
+			? buildEffectiveRules(rules, settings.excludeRules)
+			: buildEffectiveRules(settings.includeRules, rules);
+		const ignoredLineIndexes = list === 'include'
+			? effectiveRules.ignoredIncludeLineIndexes
+			: effectiveRules.ignoredExcludeLineIndexes;
+		if (ignoredLineIndexes.includes(rules.length - 1)) {
+			rules.pop();
+			rejectedByLimit.push(rule);
+			continue;
+		}
+		known.add(comparable);
+		added.push(rule);
+	}
+
+	return { rules, added, duplicates, rejectedByLimit, warnings: buildAddedRuleWarnings(added, settings) };
+}
+
+/*
+ * Ordered mode appends `pattern` or `!pattern` to the end of the list, where it
+ * wins over everything above. It is only a duplicate when the last line with
+ * the same pattern already has the same sign.
+ */
+function appendOrderedRules(settings: ForceReadModeSettings, list: RuleListTarget, newRules: string[]): AppendRulesResult {
+	const rules = [...settings.orderedRules];
+	const added: string[] = [];
+	const duplicates: string[] = [];
+	const rejectedByLimit: string[] = [];
+	const negated = list === 'exclude';
+
+	for (const newRule of newRules) {
+		const pattern = normalizeRulePattern(newRule);
+		if (!pattern) {
+			continue;
+		}
+		const rule = formatOrderedRule({ negated, pattern });
+		const [comparable = ''] = normalizeForComparison([pattern], settings);
+		const lastSamePattern = rules
+			.map((line) => parseOrderedRule(line))
+			.filter((parsed) => parsed !== null && normalizeForComparison([parsed.pattern], settings)[0] === comparable)
+			.pop();
+		if (lastSamePattern?.negated === negated) {
+			duplicates.push(rule);
+			continue;
+		}
+
+		rules.push(rule);
+		if (buildEffectiveOrderedRules(rules).ignoredLineIndexes.includes(rules.length - 1)) {
+			rules.pop();
+			rejectedByLimit.push(rule);
+			continue;
+		}
+		added.push(rule);
+	}
+
+	return { rules, added, duplicates, rejectedByLimit, warnings: buildAddedRuleWarnings(added, settings) };
+}
+
+function buildAddedRuleWarnings(added: string[], settings: ForceReadModeSettings): string[] {
+	const patterns = settings.ruleMode === 'ordered'
+		? added.map((rule) => parseOrderedRule(rule)?.pattern ?? rule)
+		: added;
+	return buildRuleDiagnostics(stringifyRules(patterns), settings.useGlobPatterns)
+		.filter((entry) => !entry.isOk && entry.raw.length > 0)
+		.map((entry) => `${entry.raw}: ${entry.warnings.join(' ')}`);
+}
+
+export type RemoveRulesResult = {
+	rules: string[];
+	removed: string[];
+};
+
+/*
+ * Removes every line equal to one of `targets` after mode normalization. In
+ * ordered mode only lines with the sign of `list` are removed (`exclude` is
+ * `!rule`).
+ */
+export function removeRules(settings: ForceReadModeSettings, list: RuleListTarget, targets: string[]): RemoveRulesResult {
+	const comparableTargets = new Set(normalizeForComparison(targets.map((rule) => normalizeRulePattern(rule)), settings));
+	const rules: string[] = [];
+	const removed: string[] = [];
+	for (const line of getRuleList(settings, list)) {
+		const parsed = settings.ruleMode === 'ordered' ? parseOrderedRule(line) : { negated: list === 'exclude', pattern: line };
+		const [comparable = ''] = parsed ? normalizeForComparison([parsed.pattern], settings) : [];
+		if (parsed && parsed.negated === (list === 'exclude') && comparableTargets.has(comparable)) {
+			removed.push(line);
+		} else {
+			rules.push(line);
+		}
+	}
+	return { rules, removed };
+}
+
+export function formatAppendRulesSummary(list: RuleListTarget, result: AppendRulesResult): string {
+	const lines: string[] = [];
+	if (result.added.length > 0) {
+		const noun = result.added.length === 1 ? 'rule' : 'rules';
+		lines.push(`Added ${result.added.length} ${list} ${noun}: ${result.added.join(', ')}`);
+	}
+	if (result.duplicates.length > 0) {
+		lines.push(`Already in ${list} rules: ${result.duplicates.join(', ')}`);
+	}
+	if (result.rejectedByLimit.length > 0) {
+		lines.push(`Not added, rule limit reached: ${result.rejectedByLimit.join(', ')}`);
+	}
+	lines.push(...result.warnings);
+	return lines.length > 0 ? lines.join('\n') : 'No rules added.';
+}
+
+export type RuleRenameChange = {
+	profileName: string;
+	list: RuleListName;
+	from: string;
+	to: string;
+};
+
+export type PathRename = {
+	oldPath: string;
+	newPath: string;
+};
+
+// A view mode prefix (`live:`) is kept as is; only the path part is rewritten.
+function rewriteRuleForRename(rule: string, rename: PathRename, settings: ForceReadModeSettings): string | null {
+	const modePrefix = splitRuleModePrefix(normalizeRulePattern(rule));
+	if (modePrefix.explicit) {
+		const rewritten = rewriteRuleForRename(modePrefix.pattern, rename, settings);
+		return rewritten === null ? null : `${modePrefix.mode}:${rewritten}`;
+	}
+	const normalizedRule = normalizeRulePattern(rule);
+	const oldPath = normalizeVaultPath(rename.oldPath).replace(/\/+$/, '');
+	// Regex rules are left for the user to update; rewriting one could change what else it matches.
+	if (!normalizedRule || !oldPath || isRegexRule(normalizedRule)) {
+		return null;
+	}
+	// Glob rules spell literal paths with escapes, so compare against the escaped form.
+	const ruleOldPath = settings.useGlobPatterns ? escapeGlobLiteral(oldPath) : oldPath;
+	const comparableRule = settings.caseSensitive ? normalizedRule : normalizedRule.toLowerCase();
+	const comparableOld = settings.caseSensitive ? ruleOldPath : ruleOldPath.toLowerCase();
+
+	// Only rewrite when the renamed path is part of the rule's literal prefix, so a
+	// wildcard never ends up matching something different after the rewrite.
+	const wildcardIndex = settings.useGlobPatterns ? findGlobSyntaxIndex(comparableRule) : -1;
+	const literalPrefix = wildcardIndex === -1 ? comparableRule : comparableRule.slice(0, wildcardIndex);
+	const pointsAtOldPath = comparableRule === comparableOld || literalPrefix.startsWith(`${comparableOld}/`);
+	if (!pointsAtOldPath) {
+		return null;
+	}
+	const newPath = normalizeVaultPath(rename.newPath).replace(/\/+$/, '');
+	const ruleNewPath = settings.useGlobPatterns ? escapeGlobLiteral(newPath) : newPath;
+	return `${ruleNewPath}${normalizedRule.slice(ruleOldPath.length)}`;
+}
+
+function rewriteListRuleForRename(
+	rule: string,
+	rename: PathRename,
+	settings: ForceReadModeSettings,
+	list: RuleListName,
+): string | null {
+	if (list !== 'ordered') {
+		return rewriteRuleForRename(rule, rename, settings);
+	}
+	const parsed = parseOrderedRule(rule);
+	const pattern = parsed ? rewriteRuleForRename(parsed.pattern, rename, settings) : null;
+	return parsed && pattern !== null ? formatOrderedRule({ negated: parsed.negated, pattern }) : null;
+}
+
+function planListRenames(
+	rules: string[],
+	renames: PathRename[],
+	settings: ForceReadModeSettings,
+	profileName: string,
+	list: RuleListName,
+): RuleRenameChange[] {
+	const changes: RuleRenameChange[] = [];
+	for (const rule of rules) {
+		for (const rename of renames) {
+			const rewritten = rewriteListRuleForRename(rule, rename, settings, list);
+			if (rewritten !== null && rewritten !== rule) {
+				changes.push({ profileName, list, from: rule, to: rewritten });
+				break;
+			}
+		}
+	}
+	return changes;
+}
+
+/*
+ * Plans rule rewrites for the active working copy and for every inactive
+ * profile, each evaluated with its own glob/case settings. All lists are
+ * rewritten regardless of the rule mode, so switching modes later keeps
+ * pointing at the renamed paths.
+ */
+export function planRuleRenames(settings: ForceReadModeSettings, renames: PathRename[]): RuleRenameChange[] {
+	const changes: RuleRenameChange[] = [
+		...planListRenames(settings.includeRules, renames, settings, settings.activeProfileName, 'include'),
+		...planListRenames(settings.excludeRules, renames, settings, settings.activeProfileName, 'exclude'),
+		...planListRenames(settings.orderedRules, renames, settings, settings.activeProfileName, 'ordered'),
+	];
+	for (const profile of settings.profiles) {
+		if (profile.name === settings.activeProfileName) {
+			continue;
+		}
+		const profileSettings = { ...settings, ...profile };
+		changes.push(
+			...planListRenames(profile.includeRules, renames, profileSettings, profile.name, 'include'),
+			...planListRenames(profile.excludeRules, renames, profileSettings, profile.name, 'exclude'),
+			...planListRenames(profile.orderedRules, renames, profileSettings, profile.name, 'ordered'),
+		);
+	}
+	return changes;
+}
+
+function applyListRenames(rules: string[], changes: RuleRenameChange[]): string[] {
+	return rules.map((rule) => changes.find((change) => change.from === rule)?.to ?? rule);
+}
+
+export function applyRuleRenames(settings: ForceReadModeSettings, changes: RuleRenameChange[]): void {
+	const changesFor = (profileName: string, list: RuleListName) => changes.filter((change) => (
+		change.profileName === profileName && change.list === list
+	));
+	settings.includeRules = applyListRenames(settings.includeRules, changesFor(settings.activeProfileName, 'include'));
+	settings.excludeRules = applyListRenames(settings.excludeRules, changesFor(settings.activeProfileName, 'exclude'));
+	settings.orderedRules = applyListRenames(settings.orderedRules, changesFor(settings.activeProfileName, 'ordered'));
+	settings.profiles = settings.profiles.map((profile) => (
+		profile.name === settings.activeProfileName
+			? profile
+			: {
+				...profile,
+				includeRules: applyListRenames(profile.includeRules, changesFor(profile.name, 'include')),
+				excludeRules: applyListRenames(profile.excludeRules, changesFor(profile.name, 'exclude')),
+				orderedRules: applyListRenames(profile.orderedRules, changesFor(profile.name, 'ordered')),
+			}
+	));
+}
+
+export function formatRuleRenameSummary(changes: RuleRenameChange[], settings: ForceReadModeSettings): string {
+	const noun = changes.length === 1 ? 'rule' : 'rules';
+	const lines = [`Updated ${changes.length} ${noun} after rename:`];
+	for (const change of changes) {
+		const profileSuffix = change.profileName === settings.activeProfileName ? '' : ` (${change.profileName})`;
+		lines.push(`${change.from} → ${change.to}${profileSuffix}`);
+	}
+	return lines.join('\n');
+}
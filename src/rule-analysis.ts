@@ -0,0 +1,261 @@
+import {
+	getDefaultRuleMode,
+	matchPath,
+	matchTagRules,
+	normalizeRulePattern,
+	type FileMetadataResolver,
+	type ForceReadModeSettings,
+} from './matcher';
+import { isRegexRule } from './regex-rules';
+import { getModeStrictness, getRuleMode, splitRuleModePrefix } from './rule-modes';
+import { buildEffectiveRules, parseOrderedRule } from './rule-limits';
+
+export type RuleAnalysisContext = {
+	list: 'include' | 'exclude' | 'ordered';
+	settings: ForceReadModeSettings;
+	includeRules: string[];
+	vaultPaths?: readonly string[];
+	resolveMetadata?: FileMetadataResolver;
+};
+
+const RULE_MATCH_CACHE_CAP = 1024;
+
+/*
+ * Matched vault indexes per rule, keyed by the vault path list instance. The
+ * settings tab keeps one list per render, so re-running diagnostics while
+ * typing only scans the vault for rules that changed.
+ */
+const ruleMatchCache = new WeakMap<readonly string[], Map<string, number[]>>();
+
+function getRuleMatches(rule: string, vaultPaths: readonly string[], settings: ForceReadModeSettings): number[] {
+	let cache = ruleMatchCache.get(vaultPaths);
+	if (!cache) {
+		cache = new Map<string, number[]>();
+		ruleMatchCache.set(vaultPaths, cache);
+	}
+	const cacheKey = `${settings.useGlobPatterns ? '1' : '0'}${settings.caseSensitive ? '1' : '0'}:${rule}`;
+	const cached = cache.get(cacheKey);
+	if (cached) {
+		return cached;
+	}
+
+	const options = { useGlobPatterns: settings.useGlobPatterns, caseSensitive: settings.caseSensitive };
+	const matches: number[] = [];
+	for (let index = 0; index < vaultPaths.length; index++) {
+		const path = vaultPaths[index];
+		if (path !== undefined && matchPath(path, rule, options)) {
+			matches.push(index);
+		}
+	}
+	if (cache.size >= RULE_MATCH_CACHE_CAP) {
+		cache.clear();
+	}
+	cache.set(cacheKey, matches);
+	return matches;
+}
+
+// A prefix naming the default mode compares equal to the bare rule.
+function toComparableRule(rule: string, settings: ForceReadModeSettings): string {
+	const { mode, pattern } = splitRuleModePrefix(normalizeRulePattern(rule), getDefaultRuleMode(settings));
+	return `${mode}:${toComparablePattern(pattern, settings)}`;
+}
+
+function toComparablePattern(pattern: string, settings: ForceReadModeSettings): string {
+	let normalized = pattern;
+	// Case folding would change what a regex means (`\d` vs `\D`), so regex rules compare exactly.
+	if (isRegexRule(normalized)) {
+		return normalized;
+	}
+	if (!settings.useGlobPatterns && normalized && !/[*?]/.test(normalized) && !normalized.endsWith('/') && !normalized.endsWith('.md')) {
+		normalized = `${normalized}/`;
+	}
+	return settings.caseSensitive ? normalized : normalized.toLowerCase();
+}
+
+function isSubset(candidate: number[], container: ReadonlySet<number>): boolean {
+	for (const index of candidate) {
+		if (!container.has(index)) {
+			return false;
+		}
+	}
+	return true;
+}
+
+/*
+ * Per-line warnings for duplicate rules (always) and, when vault paths are
+ * given, rules that match no note, include rules whose notes are all matched
+ * by another include rule, and exclude rules that never remove a note from
+ * the protected set. Lines ignored by the hard caps are skipped.
+ */
+export function analyzeRuleLines(
+	lines: string[],
+	ignoredLineIndexes: ReadonlySet<number>,
+	context: RuleAnalysisContext,
+): string[][] {
+	if (context.list === 'ordered') {
+		return analyzeOrderedRuleLines(lines, ignoredLineIndexes, context);
+	}
+	const { settings, vaultPaths } = context;
+	const warnings = lines.map((): string[] => []);
+	const activeLines: Array<{ index: number; rule: string }> = [];
+	const firstLineByRule = new Map<string, number>();
+
+	lines.forEach((line, index) => {
+		const rule = normalizeRulePattern(line);
+		if (!rule || ignoredLineIndexes.has(index)) {
+			return;
+		}
+		const comparable = toComparableRule(rule, settings);
+		const firstIndex = firstLineByRule.get(comparable);
+		if (firstIndex !== undefined) {
+			warnings[index]?.push(`Duplicate of line ${firstIndex + 1}.`);
+			return;
+		}
+		firstLineByRule.set(comparable, index);
+		if (context.list === 'exclude' && splitRuleModePrefix(rule).explicit) {
+			warnings[index]?.push('Mode prefixes have no effect on exclude rules.');
+		}
+		activeLines.push({ index, rule });
+	});
+
+	if (!vaultPaths) {
+		return warnings;
+	}
+
+	const matchesByLine = new Map<number, number[]>();
+	for (const { index, rule } of activeLines) {
+		const matches = getRuleMatches(rule, vaultPaths, settings);
+		matchesByLine.set(index, matches);
+		if (matches.length === 0) {
+			warnings[index]?.push('Matches no note in the vault.');
+		}
+	}
+
+	if (context.list === 'include') {
+		const defaultMode = getDefaultRuleMode(settings);
+		const matchSets = new Map<number, Set<number>>();
+		for (const { index } of activeLines) {
+			matchSets.set(index, new Set(matchesByLine.get(index)));
+		}
+		for (const { index, rule } of activeLines) {
+			const matches = matchesByLine.get(index) ?? [];
+			if (matches.length === 0) {
+				continue;
+			}
+			const coveringLine = activeLines.find((other) => {
+				if (other.index === index) {
+					return false;
+				}
+				// A less strict rule never overrides this one's mode.
+				if (getModeStrictness(getRuleMode(other.rule, defaultMode)) > getModeStrictness(getRuleMode(rule, defaultMode))) {
+					return false;
+				}
+				const otherMatches = matchSets.get(other.index);
+				if (!otherMatches || otherMatches.size < matches.length || !isSubset(matches, otherMatches)) {
+					return false;
+				}
+				// Two rules with identical matches: only the later one is reported.
+				return otherMatches.size > matches.length || other.index < index;
+			});
+			if (coveringLine) {
+				warnings[index]?.push(`Every note it matches is also matched by line ${coveringLine.index + 1} (${coveringLine.rule}).`);
+			}
+		}
+		return warnings;
+	}
+
+	const effectiveIncludeRules = buildEffectiveRules(context.includeRules, []).effectiveIncludeRules;
+	const includedIndexes = new Set<number>();
+	for (const rule of effectiveIncludeRules) {
+		for (const matchIndex of getRuleMatches(rule, vaultPaths, settings)) {
+			includedIndexes.add(matchIndex);
+		}
+	}
+	for (const { index } of activeLines) {
+		const matches = matchesByLine.get(index) ?? [];
+		if (matches.length === 0) {
+			continue;
+		}
+		const intersectsIncluded = matches.some((matchIndex) => {
+			if (includedIndexes.has(matchIndex)) {
+				return true;
+			}
+			const path = vaultPaths[matchIndex];
+			return path !== undefined && matchTagRules(path, settings, context.resolveMetadata).length > 0;
+		});
+		if (!intersectsIncluded) {
+			warnings[index]?.push('Never excludes a protected note: no include or tag rule matches the notes it matches.');
+		}
+	}
+	return warnings;
+}
+
+/*
+ * Ordered-list variant: duplicates keep their sign, a negation needs
+ * something above it (or a tag rule) that locks notes, and with vault paths a
+ * rule whose notes are all matched by a single later rule never decides.
+ */
+function analyzeOrderedRuleLines(
+	lines: string[],
+	ignoredLineIndexes: ReadonlySet<number>,
+	context: RuleAnalysisContext,
+): string[][] {
+	const { settings, vaultPaths } = context;
+	const warnings = lines.map((): string[] => []);
+	const activeLines: Array<{ index: number; rule: string; negated: boolean }> = [];
+	const firstLineByRule = new Map<string, number>();
+	let hasLockingRuleAbove = settings.tagRules.some((rule) => rule.trim().length > 0);
+
+	lines.forEach((line, index) => {
+		const parsed = parseOrderedRule(line);
+		if (!parsed || ignoredLineIndexes.has(index)) {
+			return;
+		}
+		// A repeated line only adds nothing when no opposite-sign line sits in between.
+		const comparable = `${parsed.negated ? '!' : ''}${toComparableRule(parsed.pattern, settings)}`;
+		const firstIndex = firstLineByRule.get(comparable);
+		const flippedSince = firstIndex !== undefined
+			&& activeLines.some((line) => line.index > firstIndex && line.negated !== parsed.negated);
+		if (firstIndex !== undefined && !flippedSince) {
+			warnings[index]?.push(`Duplicate of line ${firstIndex + 1}.`);
+			return;
+		}
+		firstLineByRule.set(comparable, index);
+		if (parsed.negated && !hasLockingRuleAbove) {
+			warnings[index]?.push('Nothing above this line locks a note, so this negation has no effect.');
+		}
+		if (parsed.negated && splitRuleModePrefix(parsed.pattern).explicit) {
+			warnings[index]?.push('Mode prefixes have no effect on a negation.');
+		}
+		hasLockingRuleAbove = hasLockingRuleAbove || !parsed.negated;
+		activeLines.push({ index, rule: parsed.pattern, negated: parsed.negated });
+	});
+
+	if (!vaultPaths) {
+		return warnings;
+	}
+
+	const matchSets = new Map<number, Set<number>>();
+	for (const { index, rule } of activeLines) {
+		const matches = getRuleMatches(rule, vaultPaths, settings);
+		matchSets.set(index, new Set(matches));
+		if (matches.length === 0) {
+			warnings[index]?.push('Matches no note in the vault.');
+		}
+	}
+	activeLines.forEach(({ index, rule }, position) => {
+		const matches = getRuleMatches(rule, vaultPaths, settings);
+		if (matches.length === 0) {
+			return;
+		}
+		const overridingLine = activeLines.slice(position + 1).find((later) => {
+			const laterMatches = matchSets.get(later.index);
+			return laterMatches !== undefined && isSubset(matches, laterMatches);
+		});
+		if (overridingLine) {
+			const laterRule = `${overridingLine.negated ? '!' : ''}${overridingLine.rule}`;
+			warnings[index]?.push(`Never decides: every note it matches is matched again by line ${overridingLine.index + 1} (${laterRule}).`);
+		}
+	});
+	return warnings;
+}
@@ -1,5 +1,34 @@
-import { matchPath, normalizeVaultPath, shouldForceReadOnly, type ForceReadModeSettings } from './matcher';
-import { buildEffectiveRules, type RuleVolumeWarningLevel } from './rule-limits';
+import {
+	evaluateOrderedRules,
+	getDefaultRuleMode,
+	matchPath,
+	matchTagRules,
+	normalizeRulePattern,
+	normalizeVaultPath,
+	readFrontmatterOverride,
+	resolveEnforcedMode,
+	type FileMetadataResolver,
+	type ForceReadModeSettings,
+	type FrontmatterOverride,
+	type OrderedRuleStep,
+} from './matcher';
+import { getGlobSyntaxIssues } from './glob';
+import { compileRegexRule, isRegexRule } from './regex-rules';
+import {
+	formatEnforcedViewMode,
+	getRuleMode,
+	isReadOnlyMode,
+	splitRuleModePrefix,
+	type EnforcedViewMode,
+} from './rule-modes';
+import { analyzeRuleLines, type RuleAnalysisContext } from './rule-analysis';
+import {
+	buildEffectiveRules,
+	formatOrderedRule,
+	normalizeTagRule,
+	parseOrderedRule,
+	type RuleVolumeWarningLevel,
+} from './rule-limits';
 
 export type RuleDiagnosticsEntry = {
 	lineNumber: number;
@@ -10,28 +39,43 @@ export type RuleDiagnosticsEntry = {
 	ignoredByRuleLimit: boolean;
 };
 
-export function splitRulesFromText(value: string): string[] {
+// One rule per line; lines that are empty after `normalizeLine` are dropped.
+function splitRuleLines(value: string, normalizeLine: (line: string) => string): string[] {
 	return value
 		.split('\n')
-		.map((line) => normalizeVaultPath(line))
+		.map((line) => normalizeLine(line))
 		.filter((line) => line.length > 0);
 }
 
+export function splitRulesFromText(value: string): string[] {
+	return splitRuleLines(value, normalizeRulePattern);
+}
+
+export function splitTagRulesFromText(value: string): string[] {
+	return splitRuleLines(value, (line) => line.trim());
+}
+
+// Ordered rules keep their raw text: `!` and `\!` prefixes are parsed at evaluation time.
+export function splitOrderedRulesFromText(value: string): string[] {
+	return splitRuleLines(value, (line) => line.trim());
+}
+
 export function stringifyRules(rules: string[]): string {
 	return rules.join('\n');
 }
 
 function normalizeRuleForMode(rule: string, useGlobPatterns: boolean): { normalized: string; changedByFolderHint: boolean } {
-	const normalized = normalizeVaultPath(rule);
-	if (normalized.length === 0) {
-		return { normalized: '', changedByFolderHint: false };
+	const normalized = normalizeRulePattern(rule);
+	const { pattern } = splitRuleModePrefix(normalized);
+	if (pattern.length === 0) {
+		return { normalized, changedByFolderHint: false };
 	}
-	if (useGlobPatterns) {
+	if (useGlobPatterns || isRegexRule(pattern)) {
 		return { normalized, changedByFolderHint: false };
 	}
 
-	const hasWildcard = normalized.includes('*') || normalized.includes('?');
-	if (hasWildcard || normalized.endsWith('/') || normalized.endsWith('.md')) {
+	const hasWildcard = pattern.includes('*') || pattern.includes('?');
+	if (hasWildcard || pattern.endsWith('/') || pattern.endsWith('.md')) {
 		return { normalized, changedByFolderHint: false };
 	}
 	return {
@@ -40,6 +84,15 @@ function normalizeRuleForMode(rule: string, useGlobPatterns: boolean): { normali
 	};
 }
 
+// Vault paths cannot contain `:`, so any other `word:` prefix is a typo of a known one.
+function findUnknownRulePrefix(pattern: string): string | null {
+	const match = /^([A-Za-z]+):/.exec(pattern);
+	if (!match || isRegexRule(pattern)) {
+		return null;
+	}
+	return match[1] ?? null;
+}
+
 export function buildRuleDiagnostics(rulesText: string, useGlobPatterns: boolean): RuleDiagnosticsEntry[] {
 	return buildRuleDiagnosticsWithIgnoredLines(rulesText, useGlobPatterns, new Set<number>());
 }
@@ -48,20 +101,40 @@ export function buildRuleDiagnosticsWithIgnoredLines(
 	rulesText: string,
 	useGlobPatterns: boolean,
 	ignoredLineIndexes: ReadonlySet<number>,
+	analysis?: RuleAnalysisContext,
 ): RuleDiagnosticsEntry[] {
 	const lines = rulesText.split('\n');
+	const analysisWarnings = analysis
+		? analyzeRuleLines(lines, ignoredLineIndexes, { ...analysis, settings: { ...analysis.settings, useGlobPatterns } })
+		: [];
 	return lines.map((line, index) => {
 		const trimmed = line.trim();
-		const normalizedBase = normalizeVaultPath(line);
+		const normalizedBase = normalizeRulePattern(line);
 		const normalizedInfo = normalizeRuleForMode(line, useGlobPatterns);
 		const warnings: string[] = [];
 		const ignoredByRuleLimit = ignoredLineIndexes.has(index);
+		const modePrefix = splitRuleModePrefix(normalizedBase);
+		const pattern = modePrefix.pattern;
+		const isRegex = isRegexRule(pattern);
+		const unknownPrefix = findUnknownRulePrefix(pattern);
 
 		if (trimmed.length === 0) {
 			warnings.push('Empty or whitespace-only line.');
+		} else if (pattern.length === 0) {
+			warnings.push('Mode prefix without a pattern.');
+		}
+		if (unknownPrefix !== null) {
+			warnings.push(`Unknown prefix "${unknownPrefix}:". Use reading:, locked:, append:, frontmatter:, live:, source: or re:.`);
 		}
-		if (!useGlobPatterns && (trimmed.includes('*') || trimmed.includes('?'))) {
+		if (isRegex) {
+			const { error } = compileRegexRule(pattern, true);
+			if (error) {
+				warnings.push(`${error} This rule never matches.`);
+			}
+		} else if (!useGlobPatterns && (trimmed.includes('*') || trimmed.includes('?'))) {
 			warnings.push('Contains wildcard in prefix mode. It is treated as a literal character.');
+		} else if (useGlobPatterns && pattern.length > 0) {
+			warnings.push(...getGlobSyntaxIssues(pattern));
 		}
 		if (trimmed.length > 0 && normalizedBase !== trimmed) {
 			warnings.push(`Normalized path form: "${normalizedBase}".`);
@@ -72,6 +145,7 @@ export function buildRuleDiagnosticsWithIgnoredLines(
 		if (ignoredByRuleLimit) {
 			warnings.push('Ignored due to rule limit.');
 		}
+		warnings.push(...(analysisWarnings[index] ?? []));
 
 		return {
 			lineNumber: index + 1,
@@ -84,17 +158,122 @@ export function buildRuleDiagnosticsWithIgnoredLines(
 	});
 }
 
+/*
+ * Ordered rules reuse the per-pattern checks on the text after `!`; the
+ * normalized column keeps the sign so the list reads like the one evaluated.
+ */
+export function buildOrderedRuleDiagnostics(
+	rulesText: string,
+	useGlobPatterns: boolean,
+	ignoredLineIndexes: ReadonlySet<number>,
+	analysis?: RuleAnalysisContext,
+): RuleDiagnosticsEntry[] {
+	const lines = rulesText.split('\n');
+	const parsedLines = lines.map((line) => parseOrderedRule(line));
+	const isBareNegation = (line: string) => line.trim() === '!';
+	const patternEntries = buildRuleDiagnosticsWithIgnoredLines(
+		lines.map((line, index) => {
+			if (isBareNegation(line)) {
+				return '';
+			}
+			return parsedLines[index] ? line.trim().replace(/^!|^\\(?=!)/, '') : line;
+		}).join('\n'),
+		useGlobPatterns,
+		ignoredLineIndexes,
+	);
+	const analysisWarnings = analysis
+		? analyzeRuleLines(lines, ignoredLineIndexes, { ...analysis, list: 'ordered', settings: { ...analysis.settings, useGlobPatterns } })
+		: [];
+	return patternEntries.map((entry, index) => {
+		const parsed = parsedLines[index];
+		const raw = lines[index] ?? '';
+		const warnings = isBareNegation(raw) ? ['Negation without a pattern.'] : [...entry.warnings];
+		warnings.push(...(analysisWarnings[index] ?? []));
+		return {
+			...entry,
+			raw,
+			normalized: parsed && entry.normalized ? formatOrderedRule({ ...parsed, pattern: entry.normalized }) : entry.normalized,
+			isOk: warnings.length === 0,
+			warnings,
+		};
+	});
+}
+
+export function buildTagRuleDiagnostics(rulesText: string): RuleDiagnosticsEntry[] {
+	const seen = new Map<string, number>();
+	return rulesText.split('\n').map((line, index) => {
+		const trimmed = line.trim();
+		const normalized = normalizeTagRule(line);
+		const warnings: string[] = [];
+
+		if (trimmed.length === 0) {
+			warnings.push('Empty or whitespace-only line.');
+		} else if (normalized.length === 0) {
+			warnings.push('Tag rule has no tag name.');
+		}
+		if (/\s/.test(normalized)) {
+			warnings.push('Tags cannot contain spaces. This rule never matches.');
+		}
+		const firstLineNumber = seen.get(normalized);
+		if (normalized.length > 0 && firstLineNumber !== undefined) {
+			warnings.push(`Duplicate of line ${firstLineNumber}.`);
+		} else if (normalized.length > 0) {
+			seen.set(normalized, index + 1);
+		}
+
+		return {
+			lineNumber: index + 1,
+			raw: line,
+			normalized: normalized ? `#${normalized}` : '',
+			isOk: warnings.length === 0,
+			warnings,
+			ignoredByRuleLimit: false,
+		};
+	});
+}
+
 export function matchRules(filePath: string, rules: string[], useGlobPatterns: boolean, caseSensitive: boolean): string[] {
 	return rules.filter((rule) => matchPath(filePath, rule, { useGlobPatterns, caseSensitive }));
 }
 
-export function buildPathTesterResult(filePathInput: string, settings: ForceReadModeSettings): {
+export type PathTesterResult = {
 	testPath: string;
 	includeMatches: string[];
 	excludeMatches: string[];
+	tagMatches: string[];
+	orderedSteps: OrderedRuleStep[];
+	frontmatterOverride: FrontmatterOverride;
+	enforcedMode: EnforcedViewMode | null;
 	finalReadOnly: boolean;
-} {
+};
+
+export function buildPathTesterResult(
+	filePathInput: string,
+	settings: ForceReadModeSettings,
+	resolveMetadata?: FileMetadataResolver,
+): PathTesterResult {
 	const testPath = normalizeVaultPath(filePathInput);
+	const tagMatches = matchTagRules(testPath, settings, resolveMetadata);
+	const frontmatterOverride = readFrontmatterOverride(testPath, settings, resolveMetadata);
+	const enforcedMode = resolveEnforcedMode(testPath, settings, resolveMetadata);
+	const finalReadOnly = isReadOnlyMode(enforcedMode);
+
+	if (settings.ruleMode === 'ordered') {
+		// Matched positive lines count as include matches, matched negations as exclude matches.
+		const orderedSteps = evaluateOrderedRules(testPath, settings).steps;
+		const matchedSteps = orderedSteps.filter((step) => step.matched);
+		return {
+			testPath,
+			includeMatches: matchedSteps.filter((step) => !step.negated).map((step) => step.pattern),
+			excludeMatches: matchedSteps.filter((step) => step.negated).map((step) => step.pattern),
+			tagMatches,
+			orderedSteps,
+			frontmatterOverride,
+			enforcedMode,
+			finalReadOnly,
+		};
+	}
+
 	const effectiveRules = buildEffectiveRules(settings.includeRules, settings.excludeRules);
 	const includeMatches = matchRules(
 		testPath,
@@ -108,8 +287,101 @@ export function buildPathTesterResult(filePathInput: string, settings: ForceRead
 		settings.useGlobPatterns,
 		settings.caseSensitive,
 	);
-	const finalReadOnly = shouldForceReadOnly(testPath, settings);
-	return { testPath, includeMatches, excludeMatches, finalReadOnly };
+	return {
+		testPath,
+		includeMatches,
+		excludeMatches,
+		tagMatches,
+		orderedSteps: [],
+		frontmatterOverride,
+		enforcedMode,
+		finalReadOnly,
+	};
+}
+
+function getLastMatchedStep(result: PathTesterResult): OrderedRuleStep | undefined {
+	return result.orderedSteps.filter((step) => step.matched).pop();
+}
+
+export function describeDecidingRule(result: PathTesterResult, settings: ForceReadModeSettings): string {
+	if (!settings.enabled) {
+		return 'Plugin disabled';
+	}
+	if (result.frontmatterOverride !== null) {
+		return `Frontmatter property: ${settings.frontmatterPropertyName}`;
+	}
+	const [firstInclude] = result.includeMatches;
+	const [firstTag] = result.tagMatches;
+	const [firstExclude] = result.excludeMatches;
+	if (settings.ruleMode === 'ordered') {
+		const lastMatched = getLastMatchedStep(result);
+		if (lastMatched) {
+			return `Rule ${lastMatched.lineIndex + 1}: ${formatOrderedRule(lastMatched)}`;
+		}
+		return firstTag !== undefined ? `Tag rule: #${firstTag}` : 'No matching rule';
+	}
+	if (firstInclude === undefined && firstTag === undefined) {
+		return 'No matching rule';
+	}
+	if (firstExclude !== undefined) {
+		return `Exclude rule: ${firstExclude}`;
+	}
+	// Among several matches the strictest mode wins, so name the first rule with that mode.
+	const defaultMode = getDefaultRuleMode(settings);
+	const decidingInclude = result.includeMatches.find((rule) => getRuleMode(rule, defaultMode) === result.enforcedMode);
+	if (decidingInclude !== undefined) {
+		return `Include rule: ${decidingInclude}`;
+	}
+	return firstTag !== undefined ? `Tag rule: #${firstTag}` : `Include rule: ${firstInclude}`;
+}
+
+function describeStepEffect(step: OrderedRuleStep, settings: ForceReadModeSettings): string {
+	if (step.negated) {
+		return 'unlocks';
+	}
+	const mode = getRuleMode(step.pattern, getDefaultRuleMode(settings));
+	return isReadOnlyMode(mode) ? 'locks' : formatEnforcedViewMode(mode).toLowerCase();
+}
+
+function buildOrderedStepLines(result: PathTesterResult, settings: ForceReadModeSettings): string[] {
+	if (result.orderedSteps.length === 0) {
+		return ['Evaluation order: no rules'];
+	}
+	const lastMatched = getLastMatchedStep(result);
+	const lines = ['Evaluation order:'];
+	for (const step of result.orderedSteps) {
+		const outcome = step.matched ? `matches, ${describeStepEffect(step, settings)}` : 'no match';
+		const marker = step === lastMatched ? ' ← last match wins' : '';
+		lines.push(`  ${step.lineIndex + 1}. ${formatOrderedRule(step)}: ${outcome}${marker}`);
+	}
+	return lines;
+}
+
+export function buildPathTesterLines(result: PathTesterResult, settings: ForceReadModeSettings): string[] {
+	const lines = settings.ruleMode === 'ordered'
+		? buildOrderedStepLines(result, settings)
+		: [
+			`Matched include: ${result.includeMatches.length > 0 ? result.includeMatches.join(', ') : 'none'}`,
+			`Matched exclude: ${result.excludeMatches.length > 0 ? result.excludeMatches.join(', ') : 'none'}`,
+		];
+	if (settings.tagRules.length > 0) {
+		lines.push(`Matched tags: ${result.tagMatches.length > 0 ? result.tagMatches.map((tag) => `#${tag}`).join(', ') : 'none'}`);
+	}
+	if (result.frontmatterOverride !== null) {
+		lines.push(`Frontmatter: ${settings.frontmatterPropertyName} = ${result.frontmatterOverride === 'lock' ? 'true' : 'false'} (overrides rules)`);
+	}
+	if (result.enforcedMode === 'live' || result.enforcedMode === 'source') {
+		lines.push(`Result: ${formatEnforcedViewMode(result.enforcedMode).toUpperCase()} ENFORCED`);
+	} else if (result.enforcedMode === 'locked') {
+		lines.push('Result: READ-ONLY ON (editor)');
+	} else if (result.enforcedMode === 'append') {
+		lines.push('Result: APPEND-ONLY');
+	} else if (result.enforcedMode === 'frontmatter') {
+		lines.push('Result: FRONTMATTER LOCKED');
+	} else {
+		lines.push(`Result: ${result.finalReadOnly ? 'READ-ONLY ON' : 'READ-ONLY OFF'}`);
+	}
+	return lines;
 }
 
 export function getRuleVolumeWarningMessage(warningLevel: RuleVolumeWarningLevel): string | null {
@@ -1,11 +1,12 @@
 import {
 	RULE_LIMIT_EXCLUDE_MAX,
 	RULE_LIMIT_INCLUDE_MAX,
+	RULE_LIMIT_TAG_MAX,
 	RULE_LIMIT_TOTAL_MAX,
 	RULE_WARNING_SOFT_THRESHOLD,
 	RULE_WARNING_STRONG_THRESHOLD,
 } from './constants';
-import { normalizeVaultPath } from './path-utils';
+import { normalizeRulePattern } from './path-utils';
 
 type EffectiveRuleEntry = {
 	value: string;
@@ -43,7 +44,7 @@ function toEffectiveEntries(lines: string[]): EffectiveRuleEntry[] {
 		if (line === undefined) {
 			continue;
 		}
-		const normalized = normalizeVaultPath(line);
+		const normalized = normalizeRulePattern(line);
 		if (normalized.length === 0) {
 			continue;
 		}
@@ -131,3 +132,80 @@ export function buildEffectiveRules(includeLines: string[], excludeLines: string
 		warningLevel,
 	};
 }
+
+export function normalizeTagRule(rule: string): string {
+	return rule.trim().replace(/^#+/, '').replace(/\/+$/, '').toLowerCase();
+}
+
+export function buildEffectiveTagRules(lines: string[]): string[] {
+	const effective: string[] = [];
+	for (const line of lines) {
+		const normalized = normalizeTagRule(line);
+		if (normalized.length === 0 || effective.includes(normalized)) {
+			continue;
+		}
+		effective.push(normalized);
+		if (effective.length >= RULE_LIMIT_TAG_MAX) {
+			break;
+		}
+	}
+	return effective;
+}
+
+export type OrderedRule = {
+	negated: boolean;
+	pattern: string;
+};
+
+// `!pattern` negates; `\!pattern` matches a path that really starts with `!`.
+export function parseOrderedRule(line: string): OrderedRule | null {
+	const trimmed = line.trim();
+	if (trimmed.startsWith('\\!')) {
+		const pattern = normalizeRulePattern(trimmed.slice(1));
+		return pattern ? { negated: false, pattern } : null;
+	}
+	const negated = trimmed.startsWith('!');
+	const pattern = normalizeRulePattern(negated ? trimmed.slice(1) : trimmed);
+	return pattern ? { negated, pattern } : null;
+}
+
+export function formatOrderedRule(rule: OrderedRule): string {
+	if (rule.negated) {
+		return `!${rule.pattern}`;
+	}
+	return rule.pattern.startsWith('!') ? `\\${rule.pattern}` : rule.pattern;
+}
+
+export type EffectiveOrderedRulesResult = {
+	effectiveRules: Array<{ rule: OrderedRule; lineIndex: number }>;
+	ignoredLineIndexes: number[];
+	warningLevel: RuleVolumeWarningLevel;
+};
+
+/*
+ * The ordered list shares the total cap. Trimming keeps the head of the list,
+ * so lines past the cap never take part in last-match-wins evaluation.
+ */
+export function buildEffectiveOrderedRules(lines: string[]): EffectiveOrderedRulesResult {
+	const effectiveRules: EffectiveOrderedRulesResult['effectiveRules'] = [];
+	const ignoredLineIndexes: number[] = [];
+	lines.forEach((line, lineIndex) => {
+		const rule = parseOrderedRule(line);
+		if (!rule) {
+			return;
+		}
+		if (effectiveRules.length >= RULE_LIMIT_TOTAL_MAX) {
+			ignoredLineIndexes.push(lineIndex);
+			return;
+		}
+		effectiveRules.push({ rule, lineIndex });
+	});
+	const effectiveCount = effectiveRules.length + ignoredLineIndexes.length;
+	const warningLevel: RuleVolumeWarningLevel =
+		effectiveCount > RULE_WARNING_STRONG_THRESHOLD
+			? 'strong'
+			: effectiveCount > RULE_WARNING_SOFT_THRESHOLD
+				? 'soft'
+				: 'none';
+	return { effectiveRules, ignoredLineIndexes, warningLevel };
+}
@@ -0,0 +1,87 @@
+/*
+ * A path rule may start with `reading:`, `locked:`, `append:`, `frontmatter:`,
+ * `live:` or `source:` to declare the view mode its notes are held in.
+ * `reading` and `locked` (the editor stays open but rejects every change) are
+ * the read-only modes; `append` keeps the editor open but only accepts changes
+ * after the existing text, and `frontmatter` only protects the YAML
+ * frontmatter. Rules without a prefix use the default mode chosen in the
+ * settings. The prefix comes before any other rule syntax, e.g.
+ * `live:re:^dashboards/`.
+ */
+export type EnforcedViewMode = 'reading' | 'locked' | 'append' | 'frontmatter' | 'live' | 'source';
+
+// Strictest first: when several include rules match a note, the earliest mode in this list wins.
+export const ENFORCED_VIEW_MODES: readonly EnforcedViewMode[] = ['reading', 'locked', 'append', 'frontmatter', 'live', 'source'];
+
+export type RuleModePrefix = {
+	mode: EnforcedViewMode;
+	explicit: boolean;
+	pattern: string;
+};
+
+export function splitRuleModePrefix(rule: string, defaultMode: EnforcedViewMode = 'reading'): RuleModePrefix {
+	const trimmed = rule.trimStart();
+	for (const mode of ENFORCED_VIEW_MODES) {
+		if (trimmed.startsWith(`${mode}:`)) {
+			return { mode, explicit: true, pattern: trimmed.slice(mode.length + 1) };
+		}
+	}
+	return { mode: defaultMode, explicit: false, pattern: rule };
+}
+
+export function getRuleMode(rule: string, defaultMode: EnforcedViewMode = 'reading'): EnforcedViewMode {
+	return splitRuleModePrefix(rule, defaultMode).mode;
+}
+
+export function isReadOnlyMode(mode: EnforcedViewMode | null): boolean {
+	return mode === 'reading' || mode === 'locked';
+}
+
+/*
+ * Notes whose edits are filtered may stay in either editor mode; the read-only
+ * editor is moved out of Reading mode. Append-only and frontmatter-locked
+ * notes only restrict editing, so they can also be read in Reading mode.
+ */
+export function satisfiesEnforcedMode(current: EnforcedViewMode | null, target: EnforcedViewMode): boolean {
+	if (target === 'append' || target === 'frontmatter') {
+		return current !== null;
+	}
+	if (target === 'locked') {
+		return current === 'live' || current === 'source';
+	}
+	return current === target;
+}
+
+export function stripRuleModePrefix(rule: string): string {
+	return splitRuleModePrefix(rule).pattern;
+}
+
+export function getModeStrictness(mode: EnforcedViewMode): number {
+	return ENFORCED_VIEW_MODES.indexOf(mode);
+}
+
+export function pickStrictestMode(modes: Iterable<EnforcedViewMode>): EnforcedViewMode | null {
+	let strictest: EnforcedViewMode | null = null;
+	for (const mode of modes) {
+		if (strictest === null || getModeStrictness(mode) < getModeStrictness(strictest)) {
+			strictest = mode;
+		}
+	}
+	return strictest;
+}
+
+export function formatEnforcedViewMode(mode: EnforcedViewMode): string {
+	if (mode === 'reading') {
+		return 'Reading';
+	}
+	if (mode === 'locked') {
+		return 'Read-only editor';
+	}
+	if (mode === 'append') {
+		return 'Append-only';
+	}
+	if (mode === 'frontmatter') {
+		return 'Frontmatter locked';
+	}
+	return mode === 'live' ? 'Live preview' : 'Source mode';
+}
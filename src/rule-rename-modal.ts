@@ -0,0 +1,45 @@
+import { App, Modal, Setting } from 'obsidian';
+
+export class RuleRenameModal extends Modal {
+	constructor(
+		app: App,
+		private readonly changeLines: string[],
+		private readonly onConfirm: () => void,
+	) {
+		super(app);
+	}
+
+	onOpen(): void {
+		const { contentEl, titleEl } = this;
+		titleEl.setText('Update rules for renamed path?');
+		contentEl.createEl('p', {
+			text: 'These read-only rules point at the old path and stop matching unless they are updated:',
+		});
+		const listEl = contentEl.createEl('ul', { cls: 'read-only-view-rename-changes' });
+		for (const line of this.changeLines) {
+			listEl.createEl('li', { text: line });
+		}
+
+		new Setting(contentEl)
+			.addButton((button) => {
+				button
+					.setButtonText('Keep rules')
+					.onClick(() => {
+						this.close();
+					});
+			})
+			.addButton((button) => {
+				button
+					.setButtonText('Update rules')
+					.setCta()
+					.onClick(() => {
+						this.close();
+						this.onConfirm();
+					});
+			});
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+}
@@ -1,30 +1,49 @@
 import { App, PluginSettingTab, Setting } from 'obsidian';
-import { normalizeVaultPath } from './matcher';
 import {
+	DEFAULT_SETTINGS,
+	normalizeVaultPath,
+	type ForceReadModeSettings,
+	type ModeSwitchControl,
+	type ReadOnlyStyle,
+	type RuleMode,
+	type RuleRenameTracking,
+	type FileOperationGuardMode,
+	type WriteGuardMode,
+} from './matcher';
+import { createMetadataResolver } from './metadata';
+import { createProfile, deleteProfile, renameProfile } from './profiles';
+import {
+	buildPathTesterLines,
+	buildOrderedRuleDiagnostics,
 	buildPathTesterResult,
 	buildRuleDiagnosticsWithIgnoredLines,
+	buildTagRuleDiagnostics,
 	getRuleVolumeWarningMessage,
+	splitOrderedRulesFromText,
 	splitRulesFromText,
+	splitTagRulesFromText,
 	stringifyRules,
 	type RuleDiagnosticsEntry,
 } from './rule-diagnostics';
-import { buildEffectiveRules } from './rule-limits';
+import type { RuleAnalysisContext } from './rule-analysis';
+import { buildEffectiveOrderedRules, buildEffectiveRules } from './rule-limits';
 
 type RuleSaveState = 'saving' | 'saved' | 'error';
 const RULES_SAVE_DEBOUNCE_MS = 400;
+// Rule analysis checks every rule against every note, too slow to run on each keystroke.
+const RULES_DIAGNOSTICS_DEBOUNCE_MS = 300;
+
+type RulesEditorOptions = {
+	placeholder?: string;
+	buildDiagnostics?: (rulesText: string, ignoredLineIndexes: ReadonlySet<number>) => RuleDiagnosticsEntry[];
+};
 
 export interface SettingsTabPlugin {
-	settings: {
-		enabled: boolean;
-		useGlobPatterns: boolean;
-		caseSensitive: boolean;
-		debug: boolean;
-		debugVerbosePaths: boolean;
-		includeRules: string[];
-		excludeRules: string[];
-	};
-	saveSettings: () => Promise<void>;
+	settings: ForceReadModeSettings;
+	saveSettings: (reason?: string) => Promise<void>;
+	setPluginEnabled: (enabled: boolean, reason: string) => Promise<void>;
 	applyAllOpenMarkdownLeaves: (reason: string) => Promise<void>;
+	switchRuleProfile: (name: string, reason: string) => Promise<void>;
 }
 
 export type RuleLimitsUiState = {
@@ -59,6 +78,74 @@ export function computeRuleLimitsUiState(includeRulesText: string, excludeRulesT
 	};
 }
 
+export type OrderedRuleLimitsUiState = {
+	summaryText: string;
+	volumeWarningMessage: string | null;
+	hardCapWarningMessage: string | null;
+	ignoredLineIndexes: number[];
+};
+
+export function computeOrderedRuleLimitsUiState(orderedRulesText: string): OrderedRuleLimitsUiState {
+	const effectiveRules = buildEffectiveOrderedRules(orderedRulesText.split('\n'));
+	const negationCount = effectiveRules.effectiveRules.filter((entry) => entry.rule.negated).length;
+	const ignoredSuffix = effectiveRules.ignoredLineIndexes.length > 0
+		? ` (+${effectiveRules.ignoredLineIndexes.length} ignored)`
+		: '';
+	return {
+		summaryText:
+			`Rules: ${effectiveRules.effectiveRules.length} · Negations: ${negationCount}${ignoredSuffix}`,
+		volumeWarningMessage: getRuleVolumeWarningMessage(effectiveRules.warningLevel),
+		hardCapWarningMessage: effectiveRules.ignoredLineIndexes.length > 0
+			? 'Too many rules. Extra lines are ignored.'
+			: null,
+		ignoredLineIndexes: effectiveRules.ignoredLineIndexes,
+	};
+}
+
+export class DebouncedDiagnosticsRenderer {
+	private timer: ReturnType<typeof setTimeout> | null = null;
+
+	constructor(
+		private readonly delayMs: number,
+		private readonly render: () => void,
+	) {}
+
+	schedule(): void {
+		if (this.timer) {
+			clearTimeout(this.timer);
+		}
+		this.timer = setTimeout(() => {
+			this.timer = null;
+			this.render();
+		}, this.delayMs);
+	}
+
+	flush(): void {
+		if (this.timer) {
+			clearTimeout(this.timer);
+			this.timer = null;
+		}
+		this.render();
+	}
+}
+
+/*
+ * Keeps the latest diagnostics so a render with unchanged inputs (blur after
+ * the debounced render, the other editor's ignored lines) does not analyze
+ * the rules again.
+ */
+export function createDiagnosticsMemo(): (key: string, build: () => RuleDiagnosticsEntry[]) => RuleDiagnosticsEntry[] {
+	let lastKey: string | null = null;
+	let lastEntries: RuleDiagnosticsEntry[] = [];
+	return (key, build) => {
+		if (key !== lastKey) {
+			lastEntries = build();
+			lastKey = key;
+		}
+		return lastEntries;
+	};
+}
+
 export class DebouncedRuleChangeSaver {
 	private timer: ReturnType<typeof setTimeout> | null = null;
 	private lastValue = '';
@@ -175,15 +262,88 @@ export class ForceReadModeSettingTab extends PluginSettingTab {
 				toggle
 					.setValue(this.plugin.settings.enabled)
 					.onChange(async (value) => {
-						this.plugin.settings.enabled = value;
-						await this.plugin.saveSettings();
-						if (value) {
-							await this.plugin.applyAllOpenMarkdownLeaves('settings-enabled');
-						}
+						await this.plugin.setPluginEnabled(value, 'settings-enabled');
 						this.display();
 					});
 			});
 
+		this.renderProfileControls();
+
+		new Setting(containerEl)
+			.setName('Read-only style')
+			.setDesc('How matching notes are kept read-only. The read-only editor keeps live preview rendering and rejects every change. Rules starting with "reading:" or "locked:" pick a style per rule.')
+			.addDropdown((dropdown) => {
+				dropdown
+					.addOption('reading', 'Reading mode')
+					.addOption('editor', 'Read-only editor')
+					.setValue(this.plugin.settings.readOnlyStyle)
+					.onChange(async (value) => {
+						this.plugin.settings.readOnlyStyle = value as ReadOnlyStyle;
+						await this.plugin.saveSettings();
+						await this.plugin.applyAllOpenMarkdownLeaves('settings-read-only-style');
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('View mode button')
+			.setDesc('What to do with the view mode button and the "edit" menu items in the header of read-only notes.')
+			.addDropdown((dropdown) => {
+				dropdown
+					.addOption('show', 'Show')
+					.addOption('hide', 'Hide')
+					.addOption('disable', 'Show as disabled')
+					.setValue(this.plugin.settings.modeSwitchControl)
+					.onChange(async (value) => {
+						this.plugin.settings.modeSwitchControl = value as ModeSwitchControl;
+						await this.plugin.saveSettings();
+						await this.plugin.applyAllOpenMarkdownLeaves('settings-mode-switch-control');
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('Block property and checkbox edits')
+			.setDesc('In read-only notes, disable the properties panel and task checkboxes, and revert file changes they still cause.')
+			.addToggle((toggle) => {
+				toggle
+					.setValue(this.plugin.settings.blockRenderedEdits)
+					.onChange(async (value) => {
+						this.plugin.settings.blockRenderedEdits = value;
+						await this.plugin.saveSettings();
+						await this.plugin.applyAllOpenMarkdownLeaves('settings-block-rendered-edits');
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('Write protection')
+			.setDesc('Catch changes that other plugins, sync tools or external editors make to open read-only notes. Ask lets you revert or keep each change; the command "show blocked modifications" lists them.')
+			.addDropdown((dropdown) => {
+				dropdown
+					.addOption('off', 'Off')
+					.addOption('ask', 'Ask')
+					.addOption('revert', 'Revert automatically')
+					.setValue(this.plugin.settings.writeGuard)
+					.onChange(async (value) => {
+						this.plugin.settings.writeGuard = value as WriteGuardMode;
+						await this.plugin.saveSettings();
+						await this.plugin.applyAllOpenMarkdownLeaves('settings-write-guard');
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('Delete and move protection')
+			.setDesc('Ask or refuse before read-only notes, or folders containing them, are deleted, renamed or moved. Notes deleted after confirming can be brought back with the command "restore deleted protected note".')
+			.addDropdown((dropdown) => {
+				dropdown
+					.addOption('off', 'Off')
+					.addOption('ask', 'Ask')
+					.addOption('block', 'Refuse')
+					.setValue(this.plugin.settings.fileOperationGuard)
+					.onChange(async (value) => {
+						this.plugin.settings.fileOperationGuard = value as FileOperationGuardMode;
+						await this.plugin.saveSettings();
+					});
+			});
+
 		new Setting(containerEl)
 			.setName('Use glob patterns')
 			.setDesc('Use glob tokens (*, **, ?) for matching. Disable for literal prefix compatibility mode.')
@@ -192,7 +352,7 @@ export class ForceReadModeSettingTab extends PluginSettingTab {
 					.setValue(this.plugin.settings.useGlobPatterns)
 					.onChange(async (value) => {
 						this.plugin.settings.useGlobPatterns = value;
-						await this.plugin.saveSettings();
+						await this.plugin.saveSettings('settings-use-glob-patterns');
 						await this.plugin.applyAllOpenMarkdownLeaves('settings-use-glob-patterns');
 						this.display();
 					});
@@ -206,12 +366,71 @@ export class ForceReadModeSettingTab extends PluginSettingTab {
 					.setValue(this.plugin.settings.caseSensitive)
 					.onChange(async (value) => {
 						this.plugin.settings.caseSensitive = value;
-						await this.plugin.saveSettings();
+						await this.plugin.saveSettings('settings-case-sensitive');
 						await this.plugin.applyAllOpenMarkdownLeaves('settings-case-sensitive');
 						this.display();
 					});
 			});
 
+		new Setting(containerEl)
+			.setName('Use frontmatter property')
+			.setDesc('Let a note lock or unlock itself from frontmatter. A true/false value overrides include and exclude rules.')
+			.addToggle((toggle) => {
+				toggle
+					.setValue(this.plugin.settings.useFrontmatterProperty)
+					.onChange(async (value) => {
+						this.plugin.settings.useFrontmatterProperty = value;
+						await this.plugin.saveSettings();
+						await this.plugin.applyAllOpenMarkdownLeaves('settings-use-frontmatter-property');
+						this.display();
+					});
+			});
+
+		if (this.plugin.settings.useFrontmatterProperty) {
+			new Setting(containerEl)
+				.setName('Frontmatter property name')
+				.setDesc('Property read from each note, for example "readonly: true" or "readonly: false".')
+				.addText((text) => {
+					text
+						.setPlaceholder(DEFAULT_SETTINGS.frontmatterPropertyName)
+						.setValue(this.plugin.settings.frontmatterPropertyName)
+						.onChange(async (value) => {
+							this.plugin.settings.frontmatterPropertyName = value.trim();
+							await this.plugin.saveSettings();
+							await this.plugin.applyAllOpenMarkdownLeaves('settings-frontmatter-property-name');
+						});
+				});
+		}
+
+		new Setting(containerEl)
+			.setName('Update rules on rename')
+			.setDesc('When a note or folder that rules point at is renamed or moved, rewrite those rules.')
+			.addDropdown((dropdown) => {
+				dropdown
+					.addOption('ask', 'Ask first')
+					.addOption('auto', 'Automatically')
+					.addOption('off', 'Off')
+					.setValue(this.plugin.settings.ruleRenameTracking)
+					.onChange(async (value) => {
+						this.plugin.settings.ruleRenameTracking = value as RuleRenameTracking;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('Temporary unlock duration')
+			.setDesc('How many minutes a note stays editable after unlocking it temporarily.')
+			.addSlider((slider) => {
+				slider
+					.setLimits(1, 60, 1)
+					.setValue(this.plugin.settings.temporaryUnlockMinutes)
+					.setDynamicTooltip()
+					.onChange(async (value) => {
+						this.plugin.settings.temporaryUnlockMinutes = value;
+						await this.plugin.saveSettings();
+					});
+			});
+
 		new Setting(containerEl)
 			.setName('Debug logging')
 			.setDesc('Write detailed logs to the developer console.')
@@ -225,9 +444,21 @@ export class ForceReadModeSettingTab extends PluginSettingTab {
 					});
 			});
 
+		new Setting(containerEl)
+			.setName('Enforcement log')
+			.setDesc('Keep the latest enforcement events, such as forced reading views and blocked edits, in a log file in the plugin folder. Browse it with the command "open enforcement log".')
+			.addToggle((toggle) => {
+				toggle
+					.setValue(this.plugin.settings.enforcementLog)
+					.onChange(async (value) => {
+						this.plugin.settings.enforcementLog = value;
+						await this.plugin.saveSettings();
+					});
+			});
+
 		new Setting(containerEl)
 			.setName('Debug: verbose paths')
-			.setDesc('When enabled, debug logs include full file paths. Keep disabled for safer default redaction.')
+			.setDesc('When enabled, debug logs and the enforcement log include full file paths. Keep disabled for safer default redaction.')
 			.addToggle((toggle) => {
 				toggle
 					.setValue(this.plugin.settings.debugVerbosePaths)
@@ -238,45 +469,26 @@ export class ForceReadModeSettingTab extends PluginSettingTab {
 					});
 			});
 
+		new Setting(containerEl)
+			.setName('Rule mode')
+			.setDesc('Include/exclude: two lists, exclude always wins. Ordered: one list read top to bottom like .gitignore, "!" unlocks, the last matching line wins.')
+			.addDropdown((dropdown) => {
+				dropdown
+					.addOption('include-exclude', 'Include and exclude lists')
+					.addOption('ordered', 'Ordered list')
+					.setValue(this.plugin.settings.ruleMode)
+					.onChange(async (value) => {
+						this.plugin.settings.ruleMode = value as RuleMode;
+						await this.plugin.saveSettings('settings-rule-mode');
+						await this.plugin.applyAllOpenMarkdownLeaves('settings-rule-mode');
+						this.display();
+					});
+			});
+
 		const rulesSummaryEl = containerEl.createDiv({ cls: 'read-only-view-rules-summary' });
 		const ruleWarningEl = containerEl.createDiv({ cls: 'read-only-view-rule-warning-banner' });
 		const hardCapWarningEl = containerEl.createDiv({ cls: 'read-only-view-rule-warning-banner' });
-
-		let includeRulesText = stringifyRules(this.plugin.settings.includeRules);
-		let excludeRulesText = stringifyRules(this.plugin.settings.excludeRules);
-
-		const includeEditor = this.renderRulesEditor(
-			'Include rules',
-			'One rule per line. These files become read-only if not excluded.',
-			this.plugin.settings.includeRules,
-			async (value) => {
-			this.plugin.settings.includeRules = splitRulesFromText(value);
-			await this.plugin.saveSettings();
-			await this.plugin.applyAllOpenMarkdownLeaves('settings-include-rules');
-			},
-			(value) => {
-				includeRulesText = value;
-				renderRuleLimitsState();
-			},
-		);
-
-		const excludeEditor = this.renderRulesEditor(
-			'Exclude rules',
-			'One rule per line. Exclude wins when include and exclude both match.',
-			this.plugin.settings.excludeRules,
-			async (value) => {
-			this.plugin.settings.excludeRules = splitRulesFromText(value);
-			await this.plugin.saveSettings();
-			await this.plugin.applyAllOpenMarkdownLeaves('settings-exclude-rules');
-			},
-			(value) => {
-				excludeRulesText = value;
-				renderRuleLimitsState();
-			},
-		);
-
-		const renderRuleLimitsState = () => {
-			const uiState = computeRuleLimitsUiState(includeRulesText, excludeRulesText);
+		const renderRuleBanners = (uiState: { summaryText: string; volumeWarningMessage: string | null; hardCapWarningMessage: string | null }) => {
 			rulesSummaryEl.setText(uiState.summaryText);
 			ruleWarningEl.empty();
 			if (uiState.volumeWarningMessage) {
@@ -293,22 +505,207 @@ export class ForceReadModeSettingTab extends PluginSettingTab {
 			} else {
 				hardCapWarningEl.removeClass('is-visible');
 			}
+		};
 
-			includeEditor.setIgnoredLineIndexes(uiState.ignoredIncludeLineIndexes);
-			excludeEditor.setIgnoredLineIndexes(uiState.ignoredExcludeLineIndexes);
+		let includeRulesText = stringifyRules(this.plugin.settings.includeRules);
+		let excludeRulesText = stringifyRules(this.plugin.settings.excludeRules);
+		let orderedRulesText = stringifyRules(this.plugin.settings.orderedRules);
+		const vaultPaths = this.app.vault.getMarkdownFiles().map((file) => file.path);
+		const resolveMetadata = createMetadataResolver(this.app);
+		const analyzeDiagnostics = (
+			list: RuleAnalysisContext['list'],
+			rulesText: string,
+			ignoredLineIndexes: ReadonlySet<number>,
+		) => {
+			const analysis: RuleAnalysisContext = {
+				list,
+				settings: this.plugin.settings,
+				includeRules: includeRulesText.split('\n'),
+				vaultPaths,
+				resolveMetadata,
+			};
+			return list === 'ordered'
+				? buildOrderedRuleDiagnostics(rulesText, this.plugin.settings.useGlobPatterns, ignoredLineIndexes, analysis)
+				: buildRuleDiagnosticsWithIgnoredLines(rulesText, this.plugin.settings.useGlobPatterns, ignoredLineIndexes, analysis);
+		};
+		const diagnosticsMemos = new Map<RuleAnalysisContext['list'], ReturnType<typeof createDiagnosticsMemo>>();
+		const buildAnalyzedDiagnostics = (
+			list: RuleAnalysisContext['list'],
+			rulesText: string,
+			ignoredLineIndexes: ReadonlySet<number>,
+		) => {
+			let memo = diagnosticsMemos.get(list);
+			if (!memo) {
+				memo = createDiagnosticsMemo();
+				diagnosticsMemos.set(list, memo);
+			}
+			// Exclude diagnostics are analyzed against the include rules too.
+			const key = [rulesText, Array.from(ignoredLineIndexes).join(','), includeRulesText].join('\u0000');
+			return memo(key, () => analyzeDiagnostics(list, rulesText, ignoredLineIndexes));
 		};
 
-		renderRuleLimitsState();
+		if (this.plugin.settings.ruleMode === 'ordered') {
+			const orderedEditor = this.renderRulesEditor(
+				'Rules',
+				'One rule per line, read top to bottom. A line locks matching notes, "!" in front unlocks them, and the last matching line wins. Start a line with "append:" or "frontmatter:" to make its notes append-only or lock only their properties, or with "live:" or "source:" to hold them in live preview or source mode. Use "\\!" for a path that starts with "!".',
+				this.plugin.settings.orderedRules,
+				async (value) => {
+					this.plugin.settings.orderedRules = splitOrderedRulesFromText(value);
+					await this.plugin.saveSettings('settings-ordered-rules');
+					await this.plugin.applyAllOpenMarkdownLeaves('settings-ordered-rules');
+				},
+				(value) => {
+					orderedRulesText = value;
+					renderOrderedRuleLimitsState();
+				},
+				{
+					placeholder: 'Examples:\nproject_a/**\n!project_a/drafts/**\nproject_a/drafts/final.md',
+					buildDiagnostics: (rulesText, ignoredLineIndexes) => buildAnalyzedDiagnostics('ordered', rulesText, ignoredLineIndexes),
+				},
+			);
+			const renderOrderedRuleLimitsState = () => {
+				const uiState = computeOrderedRuleLimitsUiState(orderedRulesText);
+				renderRuleBanners(uiState);
+				orderedEditor.setIgnoredLineIndexes(uiState.ignoredLineIndexes);
+			};
+			renderOrderedRuleLimitsState();
+		} else {
+			const includeEditor = this.renderRulesEditor(
+				'Include rules',
+				'One rule per line. These files become read-only if not excluded. Start a rule with "append:" or "frontmatter:" to make its notes append-only or lock only their properties, or with "live:" or "source:" to hold them in live preview or source mode instead; the strictest mode wins when several rules match.',
+				this.plugin.settings.includeRules,
+				async (value) => {
+				this.plugin.settings.includeRules = splitRulesFromText(value);
+				await this.plugin.saveSettings('settings-include-rules');
+				await this.plugin.applyAllOpenMarkdownLeaves('settings-include-rules');
+				},
+				(value) => {
+					includeRulesText = value;
+					renderRuleLimitsState();
+				},
+				{ buildDiagnostics: (rulesText, ignoredLineIndexes) => buildAnalyzedDiagnostics('include', rulesText, ignoredLineIndexes) },
+			);
+
+			const excludeEditor = this.renderRulesEditor(
+				'Exclude rules',
+				'One rule per line. Exclude wins when include and exclude both match.',
+				this.plugin.settings.excludeRules,
+				async (value) => {
+				this.plugin.settings.excludeRules = splitRulesFromText(value);
+				await this.plugin.saveSettings('settings-exclude-rules');
+				await this.plugin.applyAllOpenMarkdownLeaves('settings-exclude-rules');
+				},
+				(value) => {
+					excludeRulesText = value;
+					renderRuleLimitsState();
+				},
+				{ buildDiagnostics: (rulesText, ignoredLineIndexes) => buildAnalyzedDiagnostics('exclude', rulesText, ignoredLineIndexes) },
+			);
+
+			const renderRuleLimitsState = () => {
+				const uiState = computeRuleLimitsUiState(includeRulesText, excludeRulesText);
+				renderRuleBanners(uiState);
+				includeEditor.setIgnoredLineIndexes(uiState.ignoredIncludeLineIndexes);
+				excludeEditor.setIgnoredLineIndexes(uiState.ignoredExcludeLineIndexes);
+			};
+
+			renderRuleLimitsState();
+		}
+
+		this.renderRulesEditor(
+			'Tag rules',
+			'One tag per line. Notes with a matching tag become read-only if not excluded. Nested tags match too: "status" covers "#status/final".',
+			this.plugin.settings.tagRules,
+			async (value) => {
+				this.plugin.settings.tagRules = splitTagRulesFromText(value);
+				await this.plugin.saveSettings('settings-tag-rules');
+				await this.plugin.applyAllOpenMarkdownLeaves('settings-tag-rules');
+			},
+			undefined,
+			{
+				placeholder: 'Examples:\n#locked\nstatus/final',
+				buildDiagnostics: (rulesText) => buildTagRuleDiagnostics(rulesText),
+			},
+		);
 
 		this.renderPathTester();
 	}
 
+	private renderProfileControls(): void {
+		const { settings } = this.plugin;
+
+		new Setting(this.containerEl)
+			.setName('Rule profile')
+			.setDesc('Each profile keeps its own include/exclude rules, glob mode and case sensitivity. Switching re-applies open notes.')
+			.addDropdown((dropdown) => {
+				for (const profile of settings.profiles) {
+					dropdown.addOption(profile.name, profile.name);
+				}
+				dropdown
+					.setValue(settings.activeProfileName)
+					.onChange(async (value) => {
+						await this.plugin.switchRuleProfile(value, 'settings-profile');
+						this.display();
+					});
+			})
+			.addExtraButton((button) => {
+				button
+					.setIcon('plus')
+					.setTooltip('Add profile (copy of the active one)')
+					.onClick(async () => {
+						const name = createProfile(settings);
+						await this.plugin.switchRuleProfile(name, 'settings-add-profile');
+						this.display();
+					});
+			})
+			.addExtraButton((button) => {
+				button
+					.setIcon('trash')
+					.setTooltip('Delete active profile')
+					.setDisabled(settings.profiles.length < 2)
+					.onClick(async () => {
+						if (!deleteProfile(settings, settings.activeProfileName)) {
+							return;
+						}
+						await this.plugin.saveSettings('settings-delete-profile');
+						await this.plugin.applyAllOpenMarkdownLeaves('settings-delete-profile');
+						this.display();
+					});
+			});
+
+		new Setting(this.containerEl)
+			.setName('Profile name')
+			.setDesc('Rename the active profile. Names must be unique. The new name is saved when you leave the field or press enter.')
+			.addText((text) => {
+				text.setValue(settings.activeProfileName);
+				// Saving on every keystroke would store each partial name and fire a rules-saved event per character.
+				const commit = async () => {
+					if (renameProfile(settings, settings.activeProfileName, text.getValue())) {
+						await this.plugin.saveSettings('settings-profile-rename');
+						this.display();
+						return;
+					}
+					text.setValue(settings.activeProfileName);
+				};
+				text.inputEl.addEventListener('blur', () => {
+					void commit();
+				});
+				text.inputEl.addEventListener('keydown', (event: KeyboardEvent) => {
+					if (event.key === 'Enter') {
+						event.preventDefault();
+						text.inputEl.blur();
+					}
+				});
+			});
+	}
+
 	private renderRulesEditor(
 		title: string,
 		description: string,
 		rules: string[],
 		onChange: (value: string) => Promise<void>,
 		onTextInput?: (value: string) => void,
+		options: RulesEditorOptions = {},
 	): { setIgnoredLineIndexes: (lineIndexes: number[]) => void } {
 		const initialText = stringifyRules(rules);
 		let currentText = initialText;
@@ -323,7 +720,7 @@ export class ForceReadModeSettingTab extends PluginSettingTab {
 
 		const textAreaEl = sectionEl.createEl('textarea');
 		textAreaEl.value = initialText;
-		textAreaEl.placeholder ='Examples:\nproject_a/**\n**/README.md\nfolder/subfolder/';
+		textAreaEl.placeholder = options.placeholder ?? 'Examples:\nproject_a/**\n**/README.md\nfolder/subfolder/';
 		textAreaEl.rows = 6;
 		textAreaEl.addClass('read-only-view-full-width');
 		const saveStatusEl = sectionEl.createEl('p', {
@@ -354,39 +751,42 @@ export class ForceReadModeSettingTab extends PluginSettingTab {
 		diagnosticsEl.setAttr('aria-live', 'polite');
 
 		const renderDiagnostics = () => {
-			const entries = buildRuleDiagnosticsWithIgnoredLines(
-				currentText,
-				this.plugin.settings.useGlobPatterns,
-				ignoredLineIndexes,
-			);
+			const entries = options.buildDiagnostics
+				? options.buildDiagnostics(currentText, ignoredLineIndexes)
+				: buildRuleDiagnosticsWithIgnoredLines(
+					currentText,
+					this.plugin.settings.useGlobPatterns,
+					ignoredLineIndexes,
+				);
 			renderDiagnosticsList(diagnosticsEl, entries);
 		};
 
-		renderDiagnostics();
+		const diagnosticsRenderer = new DebouncedDiagnosticsRenderer(RULES_DIAGNOSTICS_DEBOUNCE_MS, renderDiagnostics);
+		diagnosticsRenderer.flush();
 
 		textAreaEl.addEventListener('input', () => {
 			currentText = textAreaEl.value;
 			onTextInput?.(currentText);
 			saver.schedule(currentText);
-			renderDiagnostics();
+			diagnosticsRenderer.schedule();
 		});
 		textAreaEl.addEventListener('change', () => {
 			currentText = textAreaEl.value;
 			onTextInput?.(currentText);
 			void saver.flush(currentText);
-			renderDiagnostics();
+			diagnosticsRenderer.flush();
 		});
 		textAreaEl.addEventListener('blur', () => {
 			currentText = textAreaEl.value;
 			onTextInput?.(currentText);
 			void saver.flush(currentText);
-			renderDiagnostics();
+			diagnosticsRenderer.flush();
 		});
 
 		return {
 			setIgnoredLineIndexes: (lineIndexes: number[]) => {
 				ignoredLineIndexes = new Set<number>(lineIndexes);
-				renderDiagnostics();
+				diagnosticsRenderer.schedule();
 			},
 		};
 	}
@@ -406,26 +806,21 @@ export class ForceReadModeSettingTab extends PluginSettingTab {
 		const resultEl = wrapperEl.createDiv({ cls: 'read-only-view-path-tester-result' });
 
 		const renderResult = () => {
-			const { testPath, includeMatches, excludeMatches, finalReadOnly } = buildPathTesterResult(
+			const result = buildPathTesterResult(
 				normalizeVaultPath(inputEl.value),
 				this.plugin.settings,
+				createMetadataResolver(this.app),
 			);
 			resultEl.empty();
 
-			if (!testPath) {
+			if (!result.testPath) {
 				resultEl.setText('Enter a file path to test.');
 				return;
 			}
 
-			resultEl.createEl('div', {
-				text: `Matched include: ${includeMatches.length > 0 ? includeMatches.join(', ') : 'none'}`,
-			});
-			resultEl.createEl('div', {
-				text: `Matched exclude: ${excludeMatches.length > 0 ? excludeMatches.join(', ') : 'none'}`,
-			});
-			resultEl.createEl('div', {
-				text: `Result: ${finalReadOnly ? 'READ-ONLY ON' : 'READ-ONLY OFF'}`,
-			});
+			for (const line of buildPathTesterLines(result, this.plugin.settings)) {
+				resultEl.createEl('div', { text: line });
+			}
 		};
 
 		inputEl.addEventListener('input', renderResult);
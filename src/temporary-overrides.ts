@@ -0,0 +1,124 @@
+import { normalizeVaultPath } from './path-utils';
+
+// Longest delay `setTimeout` supports (about 24.8 days); longer ones fire immediately.
+export const TEMPORARY_OVERRIDE_MAX_MS = 2_147_483_647;
+
+export type TemporaryOverrideEndReason = 'expired' | 'closed' | 'manual';
+
+export interface TemporaryOverrideDependencies {
+	onEnd: (path: string, reason: TemporaryOverrideEndReason) => void;
+	now?: () => number;
+}
+
+export interface TemporaryOverrideService {
+	start: (path: string, durationMs: number) => number;
+	end: (path: string, reason: TemporaryOverrideEndReason) => boolean;
+	isActive: (path: string) => boolean;
+	getRemainingMs: (path: string) => number | null;
+	getActivePaths: () => string[];
+	renamePath: (oldPath: string, newPath: string) => void;
+	clear: () => void;
+}
+
+type OverrideEntry = {
+	expiresAt: number;
+	timer: ReturnType<typeof setTimeout>;
+};
+
+export function formatRemainingTime(remainingMs: number): string {
+	const totalSeconds = Math.max(0, Math.ceil(remainingMs / 1000));
+	const minutes = Math.floor(totalSeconds / 60);
+	const seconds = totalSeconds % 60;
+	if (minutes === 0) {
+		return `${seconds} s`;
+	}
+	return seconds === 0 ? `${minutes} min` : `${minutes} min ${seconds} s`;
+}
+
+/*
+ * Per-path overrides of the rules that end on their own after a duration,
+ * earlier on request, or when the note is closed. Temporary unlocks and the
+ * temporary locks of the public API each use one instance.
+ */
+class DefaultTemporaryOverrideService implements TemporaryOverrideService {
+	private readonly entries = new Map<string, OverrideEntry>();
+	private readonly now: () => number;
+
+	constructor(private readonly dependencies: TemporaryOverrideDependencies) {
+		this.now = dependencies.now ?? (() => Date.now());
+	}
+
+	start(path: string, durationMs: number): number {
+		const normalizedPath = normalizeVaultPath(path);
+		this.clearEntry(normalizedPath);
+		const expiresAt = this.now() + durationMs;
+		const timer = setTimeout(() => {
+			this.end(normalizedPath, 'expired');
+		}, durationMs);
+		this.entries.set(normalizedPath, { expiresAt, timer });
+		return expiresAt;
+	}
+
+	end(path: string, reason: TemporaryOverrideEndReason): boolean {
+		const normalizedPath = normalizeVaultPath(path);
+		if (!this.clearEntry(normalizedPath)) {
+			return false;
+		}
+		this.dependencies.onEnd(normalizedPath, reason);
+		return true;
+	}
+
+	isActive(path: string): boolean {
+		return this.getRemainingMs(path) !== null;
+	}
+
+	getRemainingMs(path: string): number | null {
+		const entry = this.entries.get(normalizeVaultPath(path));
+		if (!entry) {
+			return null;
+		}
+		const remainingMs = entry.expiresAt - this.now();
+		return remainingMs > 0 ? remainingMs : null;
+	}
+
+	getActivePaths(): string[] {
+		return Array.from(this.entries.keys());
+	}
+
+	renamePath(oldPath: string, newPath: string): void {
+		const normalizedOldPath = normalizeVaultPath(oldPath);
+		const entry = this.entries.get(normalizedOldPath);
+		if (!entry) {
+			return;
+		}
+		const normalizedNewPath = normalizeVaultPath(newPath);
+		this.entries.delete(normalizedOldPath);
+		clearTimeout(entry.timer);
+		const remainingMs = Math.max(0, entry.expiresAt - this.now());
+		const timer = setTimeout(() => {
+			this.end(normalizedNewPath, 'expired');
+		}, remainingMs);
+		this.entries.set(normalizedNewPath, { expiresAt: entry.expiresAt, timer });
+	}
+
+	clear(): void {
+		for (const entry of this.entries.values()) {
+			clearTimeout(entry.timer);
+		}
+		this.entries.clear();
+	}
+
+	private clearEntry(path: string): boolean {
+		const entry = this.entries.get(path);
+		if (!entry) {
+			return false;
+		}
+		clearTimeout(entry.timer);
+		this.entries.delete(path);
+		return true;
+	}
+}
+
+export function createTemporaryOverrideService(dependencies: TemporaryOverrideDependencies): TemporaryOverrideService {
+	return new DefaultTemporaryOverrideService(dependencies);
+}
@@ -0,0 +1,43 @@
+import { App, Modal, Setting } from 'obsidian';
+import type { WriteGuardLogEntry } from './write-guard';
+
+export function formatWriteGuardLogEntry(entry: WriteGuardLogEntry): string {
+	const time = new Date(entry.at).toLocaleString();
+	const action = entry.action === 'accepted' ? 'Kept' : entry.automatic ? 'Reverted automatically' : 'Reverted';
+	return `${time} · ${action} · ${entry.path}`;
+}
+
+export class WriteGuardLogModal extends Modal {
+	constructor(
+		app: App,
+		private readonly entries: WriteGuardLogEntry[],
+		private readonly onClear: () => void,
+	) {
+		super(app);
+	}
+
+	onOpen(): void {
+		const { contentEl, titleEl } = this;
+		titleEl.setText('Blocked modifications');
+		if (this.entries.length === 0) {
+			contentEl.createEl('p', { text: 'No changes to protected notes were caught since the app started.' });
+			return;
+		}
+		const listEl = contentEl.createEl('ul', { cls: 'read-only-view-write-guard-log' });
+		for (const entry of [...this.entries].reverse()) {
+			listEl.createEl('li', { text: formatWriteGuardLogEntry(entry) });
+		}
+		new Setting(contentEl).addButton((button) => {
+			button
+				.setButtonText('Clear log')
+				.onClick(() => {
+					this.onClear();
+					this.close();
+				});
+		});
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+}
@@ -0,0 +1,54 @@
+import { App, Modal, Setting } from 'obsidian';
+import type { WriteGuardDecision } from './write-guard';
+
+// Closing the modal without a choice reverts the change.
+export class WriteGuardModal extends Modal {
+	private decided = false;
+
+	constructor(
+		app: App,
+		private readonly path: string,
+		private readonly onDecide: (decision: WriteGuardDecision) => void,
+	) {
+		super(app);
+	}
+
+	onOpen(): void {
+		const { contentEl, titleEl } = this;
+		titleEl.setText('Protected note was changed');
+		contentEl.createEl('p', {
+			text: `${this.path} is read-only, but it was changed outside the editor, for example by another plugin, a sync tool or an external editor.`,
+		});
+
+		new Setting(contentEl)
+			.addButton((button) => {
+				button
+					.setButtonText('Keep change')
+					.onClick(() => {
+						this.decide('accept');
+					});
+			})
+			.addButton((button) => {
+				button
+					.setButtonText('Revert change')
+					.setCta()
+					.onClick(() => {
+						this.decide('revert');
+					});
+			});
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+		if (!this.decided) {
+			this.decided = true;
+			this.onDecide('revert');
+		}
+	}
+
+	private decide(decision: WriteGuardDecision): void {
+		this.decided = true;
+		this.onDecide(decision);
+		this.close();
+	}
+}
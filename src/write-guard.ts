@@ -0,0 +1,158 @@
+import type { WriteGuardMode } from './matcher';
+import { normalizeVaultPath } from './path-utils';
+
+// Snapshots are kept for the most recently checked protected notes only.
+const WRITE_GUARD_SNAPSHOT_CAP = 100;
+// The log keeps the latest entries only.
+export const WRITE_GUARD_LOG_CAP = 100;
+
+export type WriteGuardDecision = 'revert' | 'accept';
+
+export type WriteGuardLogEntry = {
+	path: string;
+	at: number;
+	action: 'reverted' | 'accepted';
+	automatic: boolean;
+};
+
+export interface WriteGuardDependencies {
+	getMode: () => WriteGuardMode;
+	isProtectedPath: (path: string) => boolean;
+	readFile: (path: string) => Promise<string | null>;
+	writeFile: (path: string, content: string) => Promise<void>;
+	// Asked in `ask` mode; further changes to the note are ignored until it resolves.
+	confirm: (path: string) => Promise<WriteGuardDecision>;
+	onLog?: (entry: WriteGuardLogEntry) => void;
+	now?: () => number;
+}
+
+export interface WriteGuardService {
+	trackPath: (path: string) => Promise<void>;
+	handleModify: (path: string) => Promise<WriteGuardDecision | null>;
+	getLog: () => WriteGuardLogEntry[];
+	clearLog: () => void;
+	renamePath: (oldPath: string, newPath: string) => void;
+	forgetPath: (path: string) => void;
+	clear: () => void;
+}
+
+/*
+ * Other plugins, sync tools and external editors write to files directly, so
+ * the content of protected notes is remembered when the enforcement loop
+ * checks them (on open and whenever rules or temporary locks change). A vault
+ * `modify` that leaves a protected note different from its snapshot is
+ * reverted right away or after asking, depending on the mode. Changes to
+ * notes that are not protected (any more) become the new snapshot.
+ */
+class DefaultWriteGuardService implements WriteGuardService {
+	private readonly snapshots = new Map<string, string>();
+	private readonly pendingPaths = new Set<string>();
+	private log: WriteGuardLogEntry[] = [];
+	private readonly now: () => number;
+
+	constructor(private readonly dependencies: WriteGuardDependencies) {
+		this.now = dependencies.now ?? (() => Date.now());
+	}
+
+	async trackPath(path: string): Promise<void> {
+		const normalizedPath = normalizeVaultPath(path);
+		if (this.dependencies.getMode() === 'off' || this.snapshots.has(normalizedPath) || !this.dependencies.isProtectedPath(normalizedPath)) {
+			return;
+		}
+		const content = await this.dependencies.readFile(normalizedPath);
+		if (content === null || this.snapshots.has(normalizedPath)) {
+			return;
+		}
+		if (this.snapshots.size >= WRITE_GUARD_SNAPSHOT_CAP) {
+			const oldestPath = this.snapshots.keys().next();
+			if (!oldestPath.done) {
+				this.snapshots.delete(oldestPath.value);
+			}
+		}
+		this.snapshots.set(normalizedPath, content);
+	}
+
+	async handleModify(path: string): Promise<WriteGuardDecision | null> {
+		const normalizedPath = normalizeVaultPath(path);
+		const snapshot = this.snapshots.get(normalizedPath);
+		const mode = this.dependencies.getMode();
+		if (snapshot === undefined || this.pendingPaths.has(normalizedPath)) {
+			return null;
+		}
+		if (mode === 'off') {
+			this.snapshots.delete(normalizedPath);
+			return null;
+		}
+		const content = await this.dependencies.readFile(normalizedPath);
+		if (content === null || content === snapshot) {
+			return null;
+		}
+		if (!this.dependencies.isProtectedPath(normalizedPath)) {
+			this.snapshots.set(normalizedPath, content);
+			return null;
+		}
+
+		let decision: WriteGuardDecision = 'revert';
+		if (mode === 'ask') {
+			this.pendingPaths.add(normalizedPath);
+			try {
+				decision = await this.dependencies.confirm(normalizedPath);
+			} finally {
+				this.pendingPaths.delete(normalizedPath);
+			}
+		}
+		if (decision === 'accept') {
+			const acceptedContent = await this.dependencies.readFile(normalizedPath);
+			if (acceptedContent !== null) {
+				this.snapshots.set(normalizedPath, acceptedContent);
+			}
+		} else {
+			await this.dependencies.writeFile(normalizedPath, snapshot);
+		}
+		this.addLogEntry({
+			path: normalizedPath,
+			at: this.now(),
+			action: decision === 'accept' ? 'accepted' : 'reverted',
+			automatic: mode === 'revert',
+		});
+		return decision;
+	}
+
+	getLog(): WriteGuardLogEntry[] {
+		return [...this.log];
+	}
+
+	clearLog(): void {
+		this.log = [];
+	}
+
+	renamePath(oldPath: string, newPath: string): void {
+		const normalizedOldPath = normalizeVaultPath(oldPath);
+		const snapshot = this.snapshots.get(normalizedOldPath);
+		this.snapshots.delete(normalizedOldPath);
+		if (snapshot !== undefined) {
+			this.snapshots.set(normalizeVaultPath(newPath), snapshot);
+		}
+	}
+
+	forgetPath(path: string): void {
+		this.snapshots.delete(normalizeVaultPath(path));
+	}
+
+	clear(): void {
+		this.snapshots.clear();
+		this.pendingPaths.clear();
+	}
+
+	private addLogEntry(entry: WriteGuardLogEntry): void {
+		this.log.push(entry);
+		if (this.log.length > WRITE_GUARD_LOG_CAP) {
+			this.log.splice(0, this.log.length - WRITE_GUARD_LOG_CAP);
+		}
+		this.dependencies.onLog?.(entry);
+	}
+}
+
+export function createWriteGuardService(dependencies: WriteGuardDependencies): WriteGuardService {
+	return new DefaultWriteGuardService(dependencies);
+}
@@ -0,0 +1,107 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import { createReadOnlyViewApi, READ_ONLY_VIEW_API_VERSION } from '../src/api.js';
+import { DEFAULT_SETTINGS, resolveEnforcedMode, type ForceReadModeSettings } from '../src/matcher.js';
+import { TEMPORARY_OVERRIDE_MAX_MS } from '../src/temporary-overrides.js';
+
+function createHarness(overrides: Partial<ForceReadModeSettings> = {}) {
+	const settings: ForceReadModeSettings = {
+		...DEFAULT_SETTINGS,
+		enabled: true,
+		useGlobPatterns: true,
+		includeRules: ['docs/**'],
+		excludeRules: [],
+		...overrides,
+	};
+	const saves: string[] = [];
+	const locks = new Map<string, number>();
+	const unlocks = new Map<string, number>();
+	const api = createReadOnlyViewApi({
+		getSettings: () => settings,
+		getEnforcedMode: (path) => {
+			if (unlocks.has(path)) {
+				return null;
+			}
+			return locks.has(path) ? 'reading' : resolveEnforcedMode(path, settings);
+		},
+		getTemporaryUnlockRemainingMs: (path) => unlocks.get(path) ?? null,
+		getTemporaryLockRemainingMs: (path) => locks.get(path) ?? null,
+		saveRules: (reason) => {
+			saves.push(reason);
+			return Promise.resolve();
+		},
+		lockTemporarily: (path, durationMs) => {
+			locks.set(path, durationMs);
+			return Promise.resolve(1_000 + durationMs);
+		},
+		unlockTemporarily: (path, durationMs) => {
+			unlocks.set(path, durationMs);
+			return Promise.resolve(1_000 + durationMs);
+		},
+	});
+	return { api, settings, saves, locks, unlocks };
+}
+
+test('api: version and features allow feature detection', () => {
+	const { api } = createHarness();
+	assert.equal(api.version, READ_ONLY_VIEW_API_VERSION);
+	assert.equal(api.hasFeature('explain'), true);
+	assert.equal(api.hasFeature('lockTemporarily'), true);
+	assert.equal(api.hasFeature('writeGuard'), false);
+});
+
+test('api: queries and explanations follow rules and temporary state', async () => {
+	const { api, locks } = createHarness({ includeRules: ['docs/**', 'live:drafts/**'] });
+	assert.equal(api.isReadOnly('./docs/a.md'), true);
+	assert.equal(api.getMode('drafts/a.md'), 'live');
+	assert.equal(api.isReadOnly('drafts/a.md'), false);
+
+	const explanation = api.explain('docs//a.md');
+	assert.equal(explanation.path, 'docs/a.md');
+	assert.equal(explanation.readOnly, true);
+	assert.equal(explanation.decidingRule, 'Include rule: docs/**');
+	assert.deepEqual(explanation.includeMatches, ['docs/**']);
+	assert.equal(explanation.temporaryLockRemainingMs, null);
+
+	assert.equal(await api.lockTemporarily('./drafts/a.md', 60_000), 61_000);
+	assert.deepEqual([...locks.keys()], ['drafts/a.md']);
+	assert.equal(api.explain('drafts/a.md').readOnly, true);
+	assert.equal(api.explain('drafts/a.md').temporaryLockRemainingMs, 60_000);
+
+	await api.unlockTemporarily('docs/a.md', 0);
+	assert.equal(api.isReadOnly('docs/a.md'), false);
+});
+
+test('api: temporary durations must be finite and are clamped to the timer maximum', async () => {
+	const { api, locks, unlocks } = createHarness();
+	await assert.rejects(api.lockTemporarily('docs/a.md', Number.NaN), RangeError);
+	await assert.rejects(api.unlockTemporarily('docs/a.md', Number.POSITIVE_INFINITY), RangeError);
+	assert.equal(locks.size + unlocks.size, 0);
+
+	await api.lockTemporarily('docs/a.md', 30 * 24 * 60 * 60_000);
+	assert.equal(locks.get('docs/a.md'), TEMPORARY_OVERRIDE_MAX_MS);
+	await api.unlockTemporarily('docs/b.md', -5);
+	assert.equal(unlocks.get('docs/b.md'), 1);
+});
+
+test('api: rule changes are normalized, deduplicated and saved only when something changed', async () => {
+	const { api, settings, saves } = createHarness();
+	const added = await api.addRule('./archive//**');
+	assert.equal(added.changed, true);
+	assert.deepEqual(added.rules, ['archive/**']);
+	assert.deepEqual(settings.includeRules, ['docs/**', 'archive/**']);
+
+	const duplicate = await api.addRule('docs/**');
+	assert.equal(duplicate.changed, false);
+	assert.deepEqual(duplicate.duplicates, ['docs/**']);
+
+	assert.equal((await api.addRule('docs/drafts/**', 'exclude')).changed, true);
+	assert.equal(api.isReadOnly('docs/drafts/a.md'), false);
+
+	const removed = await api.removeRule('docs/**');
+	assert.deepEqual(removed.rules, ['docs/**']);
+	assert.equal((await api.removeRule('missing/**')).changed, false);
+	assert.deepEqual(settings.includeRules, ['archive/**']);
+	assert.deepEqual(saves, ['api-add-include-rule', 'api-add-exclude-rule', 'api-remove-include-rule']);
+});
@@ -0,0 +1,79 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import {
+	createCommandInterceptorService,
+	predictModeAfterCommand,
+	type CommandRegistry,
+	type ModeCommandId,
+} from '../src/command-interceptor.js';
+
+function createHarness(commands: CommandRegistry | null, blockedIds: Set<ModeCommandId>) {
+	const blocked: ModeCommandId[] = [];
+	const debugMessages: string[] = [];
+	const service = createCommandInterceptorService({
+		getCommands: () => commands,
+		shouldBlock: (commandId) => blockedIds.has(commandId),
+		onBlocked: (commandId) => blocked.push(commandId),
+		logDebug: (message) => debugMessages.push(message),
+	});
+	return { service, blocked, debugMessages };
+}
+
+test('command interceptor: predicts the view mode after a mode command', () => {
+	assert.equal(predictModeAfterCommand('markdown:toggle-preview', { mode: 'source', source: false }), 'reading');
+	assert.equal(predictModeAfterCommand('markdown:toggle-preview', { mode: 'preview', source: false }), 'live');
+	assert.equal(predictModeAfterCommand('markdown:toggle-preview', { mode: 'preview', source: true }), 'source');
+	assert.equal(predictModeAfterCommand('editor:toggle-source', { mode: 'source', source: false }), 'source');
+	assert.equal(predictModeAfterCommand('editor:toggle-source', { mode: 'source', source: true }), 'live');
+	assert.equal(predictModeAfterCommand('editor:toggle-source', { mode: 'preview' }), null);
+});
+
+test('command interceptor: blocked commands stay available but do not run, others run as before', () => {
+	const calls: string[] = [];
+	const togglePreview = {
+		checkCallback: (checking: boolean) => {
+			calls.push(`preview:${String(checking)}`);
+			return true;
+		},
+	};
+	const toggleSource = {
+		editorCallback: () => {
+			calls.push('source');
+		},
+	};
+	const commands: CommandRegistry = { 'markdown:toggle-preview': togglePreview, 'editor:toggle-source': toggleSource };
+	const blockedIds = new Set<ModeCommandId>(['markdown:toggle-preview', 'editor:toggle-source']);
+	const { service, blocked } = createHarness(commands, blockedIds);
+
+	service.install();
+	assert.equal(togglePreview.checkCallback(true), true);
+	assert.equal(togglePreview.checkCallback(false), true);
+	toggleSource.editorCallback();
+	assert.deepEqual(calls, []);
+	assert.deepEqual(blocked, ['markdown:toggle-preview', 'editor:toggle-source']);
+
+	blockedIds.clear();
+	togglePreview.checkCallback(false);
+	toggleSource.editorCallback();
+	assert.deepEqual(calls, ['preview:false', 'source']);
+	assert.equal(blocked.length, 2);
+});
+
+test('command interceptor: uninstall restores the original callbacks and missing commands are logged', () => {
+	const checkCallback = () => true;
+	const togglePreview = { checkCallback };
+	const { service, debugMessages } = createHarness({ 'markdown:toggle-preview': togglePreview }, new Set());
+
+	service.install();
+	service.install();
+	assert.notEqual(togglePreview.checkCallback, checkCallback);
+	assert.deepEqual(debugMessages, ['mode-command-missing']);
+
+	service.uninstall();
+	assert.equal(togglePreview.checkCallback, checkCallback);
+
+	const withoutRegistry = createHarness(null, new Set());
+	withoutRegistry.service.install();
+	assert.deepEqual(withoutRegistry.debugMessages, ['mode-command-missing', 'mode-command-missing']);
+});
@@ -0,0 +1,199 @@
+import { EditorSelection, EditorState, Transaction, type TransactionSpec } from '@codemirror/state';
+import { editorInfoField, type MarkdownFileInfo } from 'obsidian';
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import { createEditorLockExtension, fileReloadAnnotation, getFrontmatterEnd, reloadEditorContent } from '../src/editor-lock.js';
+
+function createEditorState(
+	path: string | null,
+	lockedPaths: Set<string>,
+	blocked: string[],
+	appendOnlyPaths = new Set<string>(),
+	doc = 'Locked content',
+	frontmatterLockedPaths = new Set<string>(),
+): EditorState {
+	const fileInfo = { file: path === null ? null : { path } } as unknown as MarkdownFileInfo;
+	return EditorState.create({
+		doc,
+		extensions: [
+			editorInfoField.init(() => fileInfo),
+			createEditorLockExtension({
+				isLockedPath: (candidate) => lockedPaths.has(candidate),
+				isAppendOnlyPath: (candidate) => appendOnlyPaths.has(candidate),
+				isFrontmatterLockedPath: (candidate) => frontmatterLockedPaths.has(candidate),
+				onBlockedChange: (candidate, transaction, reason) => {
+					blocked.push(`${candidate}:${reason}:${transaction.annotation(Transaction.userEvent) ?? 'none'}`);
+				},
+			}),
+		],
+	});
+}
+
+test('editor lock: user edits in a locked note are rejected, selections still apply', () => {
+	const blocked: string[] = [];
+	const state = createEditorState('docs/a.md', new Set(['docs/a.md']), blocked);
+
+	for (const userEvent of ['input.type', 'input.paste', 'delete.backward', 'move.line', 'undo', 'redo']) {
+		assert.equal(state.update({ changes: { from: 0, to: 1, insert: 'x' }, userEvent }).state.doc.toString(), 'Locked content');
+	}
+	assert.deepEqual(blocked, [
+		'docs/a.md:locked:input.type',
+		'docs/a.md:locked:input.paste',
+		'docs/a.md:locked:delete.backward',
+		'docs/a.md:locked:move.line',
+		'docs/a.md:locked:undo',
+		'docs/a.md:locked:redo',
+	]);
+
+	const selected = state.update({ selection: EditorSelection.cursor(3), userEvent: 'select' }).state;
+	assert.equal(selected.selection.main.head, 3);
+	assert.equal(blocked.length, 6);
+});
+
+test('editor lock: changes from commands and plugins are rejected in a locked note, file reloads pass', () => {
+	const blocked: string[] = [];
+	const state = createEditorState('docs/a.md', new Set(['docs/a.md']), blocked);
+
+	assert.equal(state.update({ changes: { from: 0, to: 6, insert: 'Remote' }, userEvent: 'set' }).state.doc.toString(), 'Locked content');
+	assert.equal(state.update({ changes: { from: 0, to: state.doc.length, insert: 'Replaced' } }).state.doc.toString(), 'Locked content');
+	assert.deepEqual(blocked, ['docs/a.md:locked:set', 'docs/a.md:locked:none']);
+
+	const reloaded = state.update({
+		changes: { from: 0, to: state.doc.length, insert: 'Synced content' },
+		annotations: fileReloadAnnotation.of(true),
+	}).state;
+	assert.equal(reloaded.doc.toString(), 'Synced content');
+	assert.equal(blocked.length, 2);
+});
+
+test('editor lock: reloading the saved content replaces only the changed part', () => {
+	const blocked: string[] = [];
+	const view = {
+		state: createEditorState('docs/a.md', new Set(['docs/a.md']), blocked, new Set(), 'Intro\nOld line\nOutro'),
+		dispatch(spec: TransactionSpec) {
+			this.state = this.state.update(spec).state;
+		},
+	};
+	view.state = view.state.update({ selection: EditorSelection.cursor(2) }).state;
+
+	assert.equal(reloadEditorContent(view, 'Intro\nNew line\nOutro'), true);
+	assert.equal(view.state.doc.toString(), 'Intro\nNew line\nOutro');
+	assert.equal(view.state.selection.main.head, 2);
+	assert.equal(reloadEditorContent(view, 'Intro\nNew line\nOutro'), false);
+	assert.equal(reloadEditorContent(view, 'Intro'), true);
+	assert.equal(view.state.doc.toString(), 'Intro');
+	assert.deepEqual(blocked, []);
+});
+
+test('editor lock: notes that are not locked and editors without a file stay editable', () => {
+	const blocked: string[] = [];
+	const lockedPaths = new Set<string>();
+	const editable = createEditorState('docs/a.md', lockedPaths, blocked);
+	const typeX = { changes: { from: 0, insert: 'x' }, userEvent: 'input.type' };
+	assert.equal(editable.update(typeX).state.doc.toString(), 'xLocked content');
+
+	lockedPaths.add('docs/a.md');
+	assert.equal(editable.update(typeX).state.doc.toString(), 'Locked content');
+
+	const noFile = createEditorState(null, new Set(['docs/a.md']), blocked);
+	assert.equal(noFile.update(typeX).state.doc.toString(), 'xLocked content');
+});
+
+test('editor lock: append-only notes accept changes after the original end only', () => {
+	const blocked: string[] = [];
+	const appendOnlyPaths = new Set(['log.md']);
+	let state = createEditorState('log.md', new Set(), blocked, appendOnlyPaths, '# Log\n- first');
+
+	state = state.update({ changes: { from: state.doc.length, insert: '\n- secnod' }, userEvent: 'input.type' }).state;
+	assert.equal(state.doc.toString(), '# Log\n- first\n- secnod');
+
+	// Text added in this session can still be corrected.
+	state = state.update({ changes: { from: 16, to: 22, insert: 'second' }, userEvent: 'input.type' }).state;
+	assert.equal(state.doc.toString(), '# Log\n- first\n- second');
+
+	const edited = state.update({ changes: { from: 2, to: 5, insert: 'Journal' }, userEvent: 'input.type' }).state;
+	assert.equal(edited.doc.toString(), '# Log\n- first\n- second');
+	const deleted = state.update({ changes: { from: 12, to: 14 }, userEvent: 'delete.backward' }).state;
+	assert.equal(deleted.doc.toString(), '# Log\n- first\n- second');
+	const mixed = state.update({ changes: [{ from: 0, insert: 'x' }, { from: state.doc.length, insert: '!' }], userEvent: 'input.paste' }).state;
+	assert.equal(mixed.doc.toString(), '# Log\n- first\n- second');
+	assert.deepEqual(blocked, ['log.md:append-only:input.type', 'log.md:append-only:delete.backward', 'log.md:append-only:input.paste']);
+});
+
+test('editor lock: in an append-only note only a file reload moves the protected end', () => {
+	const blocked: string[] = [];
+	let state = createEditorState('log.md', new Set(), blocked, new Set(['log.md']), '- first');
+
+	const rewritten = state.update({ changes: { from: 0, to: state.doc.length, insert: '- rewritten\n- second' } }).state;
+	assert.equal(rewritten.doc.toString(), '- first');
+	state = state.update({ changes: { from: state.doc.length, insert: '\n- appended' }, userEvent: 'set' }).state;
+	assert.equal(state.doc.toString(), '- first\n- appended');
+	assert.equal(state.update({ changes: { from: 0, to: 7 }, userEvent: 'set' }).state.doc.toString(), '- first\n- appended');
+
+	state = state.update({
+		changes: { from: 0, to: state.doc.length, insert: '- first (synced)\n- second' },
+		annotations: fileReloadAnnotation.of(true),
+	}).state;
+	assert.equal(state.doc.toString(), '- first (synced)\n- second');
+	assert.equal(state.update({ changes: { from: 19, to: 25 }, userEvent: 'delete.backward' }).state.doc.toString(), '- first (synced)\n- second');
+	assert.deepEqual(blocked, ['log.md:append-only:none', 'log.md:append-only:set', 'log.md:append-only:delete.backward']);
+});
+
+test('editor lock: the append-only boundary is the end of the text when the note becomes append-only', () => {
+	const blocked: string[] = [];
+	const appendOnlyPaths = new Set<string>();
+	let state = createEditorState('log.md', new Set(), blocked, appendOnlyPaths, 'draft');
+
+	state = state.update({ changes: { from: 0, to: 5, insert: 'entry one' }, userEvent: 'input.type' }).state;
+	appendOnlyPaths.add('log.md');
+	assert.equal(state.update({ changes: { from: 0, to: 5, insert: '' }, userEvent: 'delete.cut' }).state.doc.toString(), 'entry one');
+	state = state.update({ changes: { from: 9, insert: '\nentry two' }, userEvent: 'input.type' }).state;
+	assert.equal(state.doc.toString(), 'entry one\nentry two');
+
+	appendOnlyPaths.clear();
+	assert.equal(state.update({ changes: { from: 0, to: 6 }, userEvent: 'delete.cut' }).state.doc.toString(), 'one\nentry two');
+	assert.equal(blocked.length, 1);
+});
+
+test('editor lock: frontmatter-locked notes protect the frontmatter block and keep the body editable', () => {
+	const blocked: string[] = [];
+	const doc = '---\nid: 42\nstatus: draft\n---\nBody';
+	const state = createEditorState('tpl.md', new Set(), blocked, new Set(), doc, new Set(['tpl.md']));
+	const frontmatterEnd = doc.indexOf('\nBody');
+	const apply = (spec: TransactionSpec) => state.update({ ...spec, userEvent: 'input.type' }).state.doc.toString();
+
+	assert.equal(apply({ changes: { from: 8, to: 10, insert: '43' } }), doc);
+	assert.equal(apply({ changes: { from: 0, insert: 'x' } }), doc);
+	assert.equal(apply({ changes: { from: frontmatterEnd, insert: 'x' } }), doc);
+	assert.equal(apply({ changes: { from: frontmatterEnd, to: frontmatterEnd + 1 } }), doc);
+	assert.equal(apply({ changes: { from: 0, to: doc.length, insert: 'Body' } }), doc);
+	assert.equal(blocked.length, 5);
+	assert.ok(blocked.every((entry) => entry.startsWith('tpl.md:frontmatter:')));
+
+	assert.equal(apply({ changes: { from: doc.length, insert: ' text' } }), `${doc} text`);
+	assert.equal(apply({ changes: { from: frontmatterEnd, insert: '\nIntro' } }), '---\nid: 42\nstatus: draft\n---\nIntro\nBody');
+
+	const withoutFrontmatter = createEditorState('tpl.md', new Set(), blocked, new Set(), 'Body', new Set(['tpl.md']));
+	assert.equal(withoutFrontmatter.update({ changes: { from: 0, insert: '---\nid: 1\n---\n' }, userEvent: 'input.paste' }).state.doc.toString(), '---\nid: 1\n---\nBody');
+
+	const rewritten = state.update({ changes: { from: 8, to: 10, insert: '43' } }).state;
+	assert.equal(rewritten.doc.toString(), doc);
+	assert.equal(blocked.length, 6);
+
+	const reloaded = state.update({
+		changes: { from: 0, to: doc.length, insert: '---\nid: 43\n---\nBody' },
+		annotations: fileReloadAnnotation.of(true),
+	}).state;
+	assert.equal(reloaded.doc.toString(), '---\nid: 43\n---\nBody');
+	assert.equal(blocked.length, 6);
+});
+
+test('editor lock: frontmatter block detection', () => {
+	const end = (doc: string) => getFrontmatterEnd(EditorState.create({ doc }).doc);
+	assert.equal(end('---\na: 1\n---\nBody'), 12);
+	assert.equal(end('---\na: 1\n...'), 12);
+	assert.equal(end('---\na: 1\nno closing line'), null);
+	assert.equal(end('Body\n---\na: 1\n---'), null);
+	assert.equal(end('---'), null);
+});
@@ -0,0 +1,95 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import { ENFORCEMENT_LOG_CAP, createEnforcementLogService, filterEnforcementLogEntries, shouldRecordEnforcementEvent } from '../src/enforcement-log.js';
+
+function createHarness(stored: string | null = null) {
+	const settings = { enabled: true };
+	const saves: string[] = [];
+	let changes = 0;
+	let now = 1_000;
+	const service = createEnforcementLogService({
+		isEnabled: () => settings.enabled,
+		load: () => Promise.resolve(stored),
+		save: (data) => {
+			saves.push(data);
+			return Promise.resolve();
+		},
+		onChange: () => {
+			changes += 1;
+		},
+		now: () => now++,
+	});
+	return { service, settings, saves, getChanges: () => changes };
+}
+
+test('enforcement log: records enforcement events only while enabled and skips no-op checks', () => {
+	const { service, settings, getChanges } = createHarness();
+
+	assert.equal(service.record('ensure-preview', { reason: 'file-open', filePath: '[redacted]/a.md', targetMode: 'preview' }), true);
+	assert.equal(service.record('ensure-preview-skip', { reason: 'file-open', filePath: '[redacted]/a.md', skipReason: 'already-in-mode' }), false);
+	assert.equal(service.record('ensure-preview-skip', { reason: 'layout-change', filePath: '[redacted]/a.md', skipReason: 'throttled' }), true);
+	assert.equal(service.record('rules-saved', { reason: 'settings-saved' }), false);
+	settings.enabled = false;
+	assert.equal(service.record('editor-lock-blocked', { filePath: '[redacted]/a.md', reason: 'reading' }), false);
+
+	assert.deepEqual(service.getEntries(), [
+		{ at: 1_000, event: 'ensure-preview', filePath: '[redacted]/a.md', reason: 'file-open', details: 'targetMode=preview' },
+		{ at: 1_001, event: 'ensure-preview-skip', filePath: '[redacted]/a.md', reason: 'layout-change', details: 'skipReason=throttled' },
+	]);
+	assert.equal(getChanges(), 2);
+	assert.equal(shouldRecordEnforcementEvent('ensure-preview-fallback', { errorType: 'Error' }), true);
+	service.dispose();
+});
+
+test('enforcement log: keeps the newest entries up to the cap and writes them in one batch', async () => {
+	const { service, saves } = createHarness();
+	for (let index = 0; index < ENFORCEMENT_LOG_CAP + 5; index += 1) {
+		service.record('rendered-edit-blocked', { filePath: `note-${index}.md`, kind: 'checkbox' });
+	}
+
+	const entries = service.getEntries();
+	assert.equal(entries.length, ENFORCEMENT_LOG_CAP);
+	assert.equal(entries[0]?.filePath, 'note-5.md');
+	assert.deepEqual(saves, []);
+
+	await service.flush();
+	assert.equal(saves.length, 1);
+	assert.equal((JSON.parse(saves[0] ?? '[]') as unknown[]).length, ENFORCEMENT_LOG_CAP);
+	await service.flush();
+	assert.equal(saves.length, 1);
+});
+
+test('enforcement log: loads stored entries before new ones, ignores invalid data and clears to an empty file', async () => {
+	const stored = JSON.stringify([
+		{ at: 1, event: 'ensure-preview', filePath: 'old.md', reason: 'onload', details: '' },
+		{ event: 'broken' },
+	]);
+	const { service, saves } = createHarness(stored);
+	service.record('mode-command-blocked', { filePath: 'new.md', commandId: 'editor:toggle-source' });
+	await service.load();
+	assert.deepEqual(service.getEntries().map((entry) => entry.filePath), ['old.md', 'new.md']);
+
+	await service.clear();
+	assert.deepEqual(service.getEntries(), []);
+	assert.deepEqual(saves, ['[]']);
+
+	const corrupt = createHarness('{not json');
+	await corrupt.service.load();
+	assert.deepEqual(corrupt.service.getEntries(), []);
+	service.dispose();
+});
+
+test('enforcement log: filters by file and by event, reason or details', () => {
+	const entries = [
+		{ at: 1, event: 'ensure-preview', filePath: 'Docs/A.md', reason: 'file-open', details: 'targetMode=preview' },
+		{ at: 2, event: 'ensure-preview-fallback', filePath: 'notes/b.md', reason: 'layout-change', details: 'errorType=TypeError' },
+		{ at: 3, event: 'file-operation-refused', filePath: null, reason: 'blocked', details: 'operation=delete' },
+	];
+
+	assert.deepEqual(filterEnforcementLogEntries(entries, ' docs/ ', '').map((entry) => entry.at), [1]);
+	assert.deepEqual(filterEnforcementLogEntries(entries, '', 'typeerror').map((entry) => entry.at), [2]);
+	assert.deepEqual(filterEnforcementLogEntries(entries, '', 'blocked').map((entry) => entry.at), [3]);
+	assert.deepEqual(filterEnforcementLogEntries(entries, 'notes', 'file-open'), []);
+	assert.equal(filterEnforcementLogEntries(entries, '', '').length, 3);
+});
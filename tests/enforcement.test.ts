@@ -2,14 +2,17 @@ import type { WorkspaceLeaf } from 'obsidian';
 import assert from 'node:assert/strict';
 import test from 'node:test';
 
-import { createEnforcementService } from '../src/enforcement.js';
+import { createEnforcementService, PROPERTIES_LOCKED_CLASS, RENDERED_EDITS_LOCKED_CLASS } from '../src/enforcement.js';
 import { DEFAULT_SETTINGS, type ForceReadModeSettings } from '../src/matcher.js';
+import { MODE_BUTTON_HIDDEN_CLASS } from '../src/mode-switch-controls.js';
+import type { EnforcedViewMode } from '../src/rule-modes.js';
 import { createMockWorkspaceLeaf } from './helpers/obsidian-mocks.js';
 
 type CreateServiceOptions = {
 	settings?: Partial<ForceReadModeSettings>;
 	leaves?: ReturnType<typeof createMockWorkspaceLeaf>[];
 	now?: () => number;
+	onLeafChecked?: (path: string, mode: EnforcedViewMode | null) => void;
 };
 
 function createService(options: CreateServiceOptions = {}) {
@@ -39,6 +42,7 @@ function createService(options: CreateServiceOptions = {}) {
 		},
 		formatPathForDebug: (path, verbosePaths) => (verbosePaths ? path : `[redacted]/${path.split('/').pop() ?? ''}`),
 		now: options.now,
+		onLeafChecked: options.onLeafChecked,
 	});
 
 	return {
@@ -145,3 +149,91 @@ test('service contract: layout-change reason uses extended per-leaf throttle', a
 
 	assert.equal(leaf.setViewStateCalls.length, 2);
 });
+
+test('service contract: rule mode prefixes set live preview and source mode via the source flag', async () => {
+	const liveLeaf = createMockWorkspaceLeaf({ filePath: 'dashboards/home.md', mode: 'preview' });
+	const sourceLeaf = createMockWorkspaceLeaf({ filePath: 'snippets/a.md', mode: 'source', source: false });
+	const settledLeaf = createMockWorkspaceLeaf({ filePath: 'dashboards/other.md', mode: 'source', source: false });
+	const readingLeaf = createMockWorkspaceLeaf({ filePath: 'docs/a.md', mode: 'source', source: true });
+	const setup = createService({
+		leaves: [liveLeaf, sourceLeaf, settledLeaf, readingLeaf],
+		settings: { includeRules: ['live:dashboards/**', 'source:snippets/**', 'docs/**'], debug: true },
+	});
+
+	await setup.service.applyAllOpenMarkdownLeaves('modes');
+
+	assert.deepEqual(liveLeaf.setViewStateCalls[0]?.state.state, { mode: 'source', source: false });
+	assert.deepEqual(sourceLeaf.setViewStateCalls[0]?.state.state, { mode: 'source', source: true });
+	assert.equal(settledLeaf.setViewStateCalls.length, 0);
+	assert.deepEqual(readingLeaf.setViewStateCalls[0]?.state.state, { mode: 'preview', source: true });
+	const modeLog = setup.debugCalls.find((entry) => entry.message === 'ensure-preview');
+	assert.equal(modeLog?.payload?.targetMode, 'live');
+	assert.equal(modeLog?.payload?.afterMode, 'live');
+});
+
+test('service contract: locked notes leave Reading mode for the editor but keep either editor mode', async () => {
+	const readingLeaf = createMockWorkspaceLeaf({ filePath: 'docs/a.md', mode: 'preview' });
+	const sourceLeaf = createMockWorkspaceLeaf({ filePath: 'docs/b.md', mode: 'source', source: true });
+	const setup = createService({
+		leaves: [readingLeaf, sourceLeaf],
+		settings: { includeRules: ['docs/**'], readOnlyStyle: 'editor' },
+	});
+
+	await setup.service.applyAllOpenMarkdownLeaves('locked');
+
+	assert.deepEqual(readingLeaf.setViewStateCalls[0]?.state.state, { mode: 'source', source: false });
+	assert.equal(sourceLeaf.setViewStateCalls.length, 0);
+});
+
+test('service contract: frontmatter-locked notes get the properties lock class, other notes lose it', async () => {
+	const leaf = createMockWorkspaceLeaf({ filePath: 'templates/a.md', mode: 'preview' });
+	const setup = createService({
+		leaves: [leaf],
+		settings: { includeRules: ['frontmatter:templates/**'] },
+	});
+
+	await setup.service.applyAllOpenMarkdownLeaves('frontmatter');
+	assert.equal(leaf.view.containerEl.hasClass(PROPERTIES_LOCKED_CLASS), true);
+	// Reading mode satisfies the frontmatter lock, so the note is not switched.
+	assert.equal(leaf.setViewStateCalls.length, 0);
+
+	leaf.setFilePath('notes/b.md');
+	await setup.service.applyAllOpenMarkdownLeaves('file-open');
+	assert.equal(leaf.view.containerEl.hasClass(PROPERTIES_LOCKED_CLASS), false);
+});
+
+test('service contract: read-only notes get the rendered edits lock class only while the option is on', async () => {
+	const leaf = createMockWorkspaceLeaf({ filePath: 'docs/a.md', mode: 'preview' });
+	const checked: string[] = [];
+	const setup = createService({
+		leaves: [leaf],
+		settings: { includeRules: ['docs/**'], blockRenderedEdits: true },
+		onLeafChecked: (path, mode) => checked.push(`${path}:${mode ?? 'none'}`),
+	});
+
+	await setup.service.applyAllOpenMarkdownLeaves('rendered-edits');
+	assert.equal(leaf.view.containerEl.hasClass(RENDERED_EDITS_LOCKED_CLASS), true);
+	assert.deepEqual(checked, ['docs/a.md:reading']);
+
+	setup.settings.blockRenderedEdits = false;
+	await setup.service.applyAllOpenMarkdownLeaves('rendered-edits-off');
+	assert.equal(leaf.view.containerEl.hasClass(RENDERED_EDITS_LOCKED_CLASS), false);
+});
+
+test('service contract: the view mode button follows the protection state of the leaf', async () => {
+	const leaf = createMockWorkspaceLeaf({ filePath: 'docs/a.md', mode: 'preview' });
+	const classes = new Set<string>();
+	(leaf.view as unknown as { modeButtonEl: unknown }).modeButtonEl = {
+		toggleClass: (className: string, value: boolean) => (value ? classes.add(className) : classes.delete(className)),
+		setAttribute: () => undefined,
+		removeAttribute: () => undefined,
+	};
+	const setup = createService({ leaves: [leaf], settings: { includeRules: ['docs/**'], modeSwitchControl: 'hide' } });
+
+	await setup.service.applyAllOpenMarkdownLeaves('mode-button');
+	assert.deepEqual([...classes], [MODE_BUTTON_HIDDEN_CLASS]);
+
+	setup.settings.includeRules = [];
+	await setup.service.applyAllOpenMarkdownLeaves('mode-button-unprotected');
+	assert.deepEqual([...classes], []);
+});
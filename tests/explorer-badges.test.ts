@@ -0,0 +1,163 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import type { WorkspaceLeaf } from 'obsidian';
+
+import {
+	EXPLORER_BADGE_CHUNK_SIZE,
+	EXPLORER_BADGE_CLASS,
+	createExplorerBadgeService,
+} from '../src/explorer-badges.js';
+
+class FakeTitleElement {
+	readonly classes = new Set<string>();
+	writes = 0;
+	readonly classList = {
+		contains: (cls: string) => this.classes.has(cls),
+	};
+
+	toggleClass(cls: string, value: boolean): void {
+		this.writes += 1;
+		if (value) {
+			this.classes.add(cls);
+		} else {
+			this.classes.delete(cls);
+		}
+	}
+
+	removeClass(cls: string): void {
+		this.classes.delete(cls);
+	}
+}
+
+type FakeItem = {
+	selfEl: FakeTitleElement;
+	file: { path: string; extension?: string; children?: unknown[] };
+};
+
+function createExplorer(paths: string[]) {
+	const fileItems: Record<string, FakeItem> = {};
+	for (const path of paths) {
+		const isFolder = !path.includes('.');
+		fileItems[path] = {
+			selfEl: new FakeTitleElement(),
+			file: isFolder ? { path, children: [] } : { path, extension: path.slice(path.lastIndexOf('.') + 1) },
+		};
+	}
+	const leaf = { view: { fileItems } } as unknown as WorkspaceLeaf;
+	return { fileItems, leaf };
+}
+
+function hasBadge(item: FakeItem | undefined): boolean {
+	return item?.selfEl.classes.has(EXPLORER_BADGE_CLASS) ?? false;
+}
+
+async function waitForTimers(): Promise<void> {
+	await new Promise((resolve) => setTimeout(resolve, 150));
+}
+
+test('explorer badges: marks read-only notes and covered folders, skipping other files', async () => {
+	const { fileItems, leaf } = createExplorer(['docs', 'docs/a.md', 'docs/b.md', 'docs/image.png', 'notes/c.md']);
+	let lockedPaths = new Set(['docs/a.md', 'docs/image.png']);
+	const service = createExplorerBadgeService({
+		getExplorerLeaves: () => [leaf],
+		isReadOnlyFile: (path) => lockedPaths.has(path),
+		isFolderLocked: (path) => path === 'docs',
+		logDebug: () => undefined,
+	});
+
+	service.scheduleRefresh('test');
+	await waitForTimers();
+	assert.equal(hasBadge(fileItems['docs']), true);
+	assert.equal(hasBadge(fileItems['docs/a.md']), true);
+	assert.equal(hasBadge(fileItems['docs/b.md']), false);
+	assert.equal(hasBadge(fileItems['docs/image.png']), false);
+	assert.equal(hasBadge(fileItems['notes/c.md']), false);
+
+	lockedPaths = new Set(['docs/b.md']);
+	service.refreshPaths(['docs/a.md', 'docs/b.md', 'missing.md']);
+	assert.equal(hasBadge(fileItems['docs/a.md']), false);
+	assert.equal(hasBadge(fileItems['docs/b.md']), true);
+
+	service.clear();
+	assert.equal(hasBadge(fileItems['docs']), false);
+	assert.equal(hasBadge(fileItems['docs/b.md']), false);
+});
+
+test('explorer badges: refresh requests are coalesced and unchanged items are not written', async () => {
+	const { fileItems, leaf } = createExplorer(['a.md', 'b.md']);
+	const reasons: unknown[] = [];
+	const service = createExplorerBadgeService({
+		getExplorerLeaves: () => [leaf],
+		isReadOnlyFile: (path) => path === 'a.md',
+		isFolderLocked: () => false,
+		logDebug: (_message, payload) => reasons.push(payload?.reasons),
+	});
+
+	service.scheduleRefresh('settings-saved');
+	service.scheduleRefresh('vault-rename');
+	await waitForTimers();
+	assert.deepEqual(reasons, [['settings-saved', 'vault-rename']]);
+	assert.equal(fileItems['a.md']?.selfEl.writes, 1);
+	assert.equal(fileItems['b.md']?.selfEl.writes, 0);
+
+	service.scheduleRefresh('settings-saved');
+	await waitForTimers();
+	assert.equal(fileItems['a.md']?.selfEl.writes, 1);
+});
+
+test('explorer badges: large vaults are processed in chunks', async () => {
+	const paths = Array.from({ length: EXPLORER_BADGE_CHUNK_SIZE * 2 + 1 }, (_, index) => `notes/${index}.md`);
+	const { fileItems, leaf } = createExplorer(paths);
+	let evaluated = 0;
+	const service = createExplorerBadgeService({
+		getExplorerLeaves: () => [leaf],
+		isReadOnlyFile: () => {
+			evaluated += 1;
+			return true;
+		},
+		isFolderLocked: () => false,
+		logDebug: () => undefined,
+	});
+
+	const queued: Array<() => void> = [];
+	const originalSetTimeout = globalThis.setTimeout;
+	globalThis.setTimeout = ((handler: () => void) => {
+		queued.push(handler);
+		return queued.length as unknown as ReturnType<typeof setTimeout>;
+	}) as typeof setTimeout;
+	try {
+		service.scheduleRefresh('test');
+		queued.shift()?.();
+		assert.equal(evaluated, EXPLORER_BADGE_CHUNK_SIZE);
+		assert.equal(queued.length, 1);
+		while (queued.length > 0) {
+			queued.shift()?.();
+		}
+	} finally {
+		globalThis.setTimeout = originalSetTimeout;
+	}
+	assert.equal(evaluated, paths.length);
+	assert.equal(hasBadge(fileItems[paths[paths.length - 1] ?? '']), true);
+});
+
+test('explorer badges: a newly opened explorer triggers one refresh', async () => {
+	const { leaf } = createExplorer(['a.md']);
+	let refreshes = 0;
+	const service = createExplorerBadgeService({
+		getExplorerLeaves: () => [leaf],
+		isReadOnlyFile: () => false,
+		isFolderLocked: () => false,
+		logDebug: (message) => {
+			if (message === 'explorer-badges-refresh') {
+				refreshes += 1;
+			}
+		},
+	});
+
+	service.refreshNewExplorers();
+	await waitForTimers();
+	service.refreshNewExplorers();
+	await waitForTimers();
+	assert.equal(refreshes, 1);
+});
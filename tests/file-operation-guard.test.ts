@@ -0,0 +1,120 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import { createFileOperationGuardService, DELETED_NOTE_CAP, type FileOperationRequest } from '../src/file-operation-guard.js';
+import type { FileOperationGuardMode } from '../src/matcher.js';
+
+type FakeFile = { path: string };
+
+function createHarness(mode: FileOperationGuardMode, confirmed = true) {
+	const calls: string[] = [];
+	const refused: string[] = [];
+	const requests: FileOperationRequest[] = [];
+	const logs: string[] = [];
+	const archivePaths = Array.from({ length: DELETED_NOTE_CAP + 3 }, (_, index) => `archive/${index}.md`);
+	const files = new Map<string, string>([
+		['docs/a.md', 'protected a'],
+		['docs/b.md', 'protected b'],
+		['notes/c.md', 'editable'],
+		...archivePaths.map((path): [string, string] => [path, 'archived']),
+	]);
+	const vault = {
+		trash: (file: FakeFile) => {
+			calls.push(`vault.trash:${file.path}`);
+			return Promise.resolve();
+		},
+		delete: (file: FakeFile) => {
+			calls.push(`vault.delete:${file.path}`);
+			return Promise.resolve();
+		},
+		rename: (file: FakeFile, newPath: string) => {
+			calls.push(`vault.rename:${file.path}->${newPath}`);
+			return Promise.resolve();
+		},
+	};
+	// Like Obsidian, the file manager goes through the vault.
+	const fileManager = {
+		trashFile: (file: FakeFile) => vault.trash(file),
+		renameFile: (file: FakeFile, newPath: string) => vault.rename(file, newPath),
+	};
+	const settings = { mode };
+	const service = createFileOperationGuardService({
+		getMode: () => settings.mode,
+		getTargets: () => ({ vault, fileManager }),
+		getProtectedNotes: (path) => {
+			if (path === 'docs') {
+				return ['docs/a.md', 'docs/b.md'];
+			}
+			if (path === 'archive') {
+				return archivePaths;
+			}
+			return path.startsWith('docs/') ? [path] : [];
+		},
+		confirm: (request) => {
+			requests.push(request);
+			return Promise.resolve(confirmed);
+		},
+		onRefused: (request, reason) => refused.push(`${request.operation}:${request.path}:${reason}`),
+		readFile: (path) => Promise.resolve(files.get(path) ?? null),
+		logDebug: (message, payload) => logs.push(`${message}:${JSON.stringify(payload ?? {})}`),
+		now: () => 5_000,
+	});
+	return { service, calls, refused, requests, logs, vault, fileManager, settings };
+}
+
+test('file operation guard: confirmed operations run once and deleted notes can be restored', async () => {
+	const { service, calls, requests, fileManager } = createHarness('ask');
+	service.install();
+
+	await fileManager.renameFile({ path: 'docs/a.md' }, 'archive/a.md');
+	await fileManager.trashFile({ path: 'docs' });
+	await fileManager.trashFile({ path: 'notes/c.md' });
+
+	assert.deepEqual(calls, ['vault.rename:docs/a.md->archive/a.md', 'vault.trash:docs', 'vault.trash:notes/c.md']);
+	assert.deepEqual(requests.map((request) => `${request.operation}:${request.path}:${request.newPath ?? '-'}:${request.protectedNotes.length}`), [
+		'rename:docs/a.md:archive/a.md:1',
+		'delete:docs:-:2',
+	]);
+	assert.deepEqual(service.getDeletedNotes().map((note) => note.path), ['docs/a.md', 'docs/b.md']);
+	assert.deepEqual(service.takeDeletedNote('docs/b.md'), { path: 'docs/b.md', content: 'protected b', deletedAt: 5_000 });
+	assert.equal(service.takeDeletedNote('docs/b.md'), null);
+});
+
+test('file operation guard: notes beyond the restore cap are logged when a folder is deleted', async () => {
+	const { service, calls, logs, fileManager } = createHarness('ask');
+	service.install();
+
+	await fileManager.trashFile({ path: 'archive' });
+	assert.deepEqual(calls, ['vault.trash:archive']);
+	assert.equal(service.getDeletedNotes().length, DELETED_NOTE_CAP);
+	assert.deepEqual(logs, [`deleted-notes-not-kept:{"kept":${DELETED_NOTE_CAP},"skipped":3}`]);
+});
+
+test('file operation guard: cancelled and refused operations do not reach the vault', async () => {
+	const { service, calls, refused, vault, settings } = createHarness('ask', false);
+	service.install();
+
+	await vault.delete({ path: 'docs/a.md' });
+	settings.mode = 'block';
+	await vault.rename({ path: 'docs/a.md' }, 'elsewhere/a.md');
+	settings.mode = 'off';
+	await vault.trash({ path: 'docs/a.md' });
+
+	assert.deepEqual(refused, ['delete:docs/a.md:cancelled', 'rename:docs/a.md:blocked']);
+	assert.deepEqual(calls, ['vault.trash:docs/a.md']);
+	assert.deepEqual(service.getDeletedNotes(), []);
+});
+
+test('file operation guard: uninstall restores the original methods', async () => {
+	const { service, calls, vault, fileManager } = createHarness('block');
+	const originalTrash = vault.trash;
+	const originalRenameFile = fileManager.renameFile;
+	service.install();
+	assert.notEqual(vault.trash, originalTrash);
+
+	service.uninstall();
+	assert.equal(vault.trash, originalTrash);
+	assert.equal(fileManager.renameFile, originalRenameFile);
+	await vault.trash({ path: 'docs/a.md' });
+	assert.deepEqual(calls, ['vault.trash:docs/a.md']);
+});
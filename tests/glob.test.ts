@@ -0,0 +1,110 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import {
+	compileGlob,
+	escapeGlobLiteral,
+	GLOB_MAX_NEGATIONS,
+	findGlobSyntaxIndex,
+	getGlobLiteralPrefix,
+	getGlobSyntaxIssues,
+} from '../src/glob.js';
+import { normalizeRulePattern } from '../src/path-utils.js';
+
+function matches(pattern: string, path: string): boolean {
+	return new RegExp(compileGlob(pattern).source).test(path);
+}
+
+test('glob: brace alternation, including nested groups and wildcards inside', () => {
+	assert.equal(matches('docs/{guides,specs}/*.md', 'docs/guides/a.md'), true);
+	assert.equal(matches('docs/{guides,specs}/*.md', 'docs/specs/a.md'), true);
+	assert.equal(matches('docs/{guides,specs}/*.md', 'docs/drafts/a.md'), false);
+	assert.equal(matches('{a,b{1,2}}/x.md', 'b2/x.md'), true);
+	assert.equal(matches('{a,b{1,2}}/x.md', 'b3/x.md'), false);
+	assert.equal(matches('{archive/**,inbox}/*.md', 'archive/2024/q1/a.md'), true);
+	assert.equal(matches('notes/{}.md', 'notes/{}.md'), true);
+	assert.equal(matches('notes/{draft}.md', 'notes/{draft}.md'), true);
+	assert.equal(matches('notes/{a,}x.md', 'notes/x.md'), true);
+});
+
+test('glob: character classes, ranges and negation never match a slash', () => {
+	assert.equal(matches('log/202[34]-*.md', 'log/2023-01.md'), true);
+	assert.equal(matches('log/202[34]-*.md', 'log/2025-01.md'), false);
+	assert.equal(matches('[a-c]*.md', 'beta.md'), true);
+	assert.equal(matches('[a-c]*.md', 'delta.md'), false);
+	assert.equal(matches('[!_]*.md', '_draft.md'), false);
+	assert.equal(matches('[^_]*.md', 'final.md'), true);
+	assert.equal(matches('a[!x]b.md', 'a/b.md'), false);
+	assert.equal(matches('[]]x.md', ']x.md'), true);
+	assert.equal(matches('[a-]x.md', '-x.md'), true);
+});
+
+test('glob: extglob groups', () => {
+	assert.equal(matches('notes/@(todo|done).md', 'notes/done.md'), true);
+	assert.equal(matches('notes/@(todo|done).md', 'notes/doing.md'), false);
+	assert.equal(matches('notes/draft?(-v2).md', 'notes/draft.md'), true);
+	assert.equal(matches('notes/draft?(-v2).md', 'notes/draft-v2.md'), true);
+	assert.equal(matches('log/+([0-9]).md', 'log/2024.md'), true);
+	assert.equal(matches('log/+([0-9]).md', 'log/.md'), false);
+	assert.equal(matches('log/*(ab).md', 'log/abab.md'), true);
+	assert.equal(matches('notes/!(draft).md', 'notes/final.md'), true);
+	assert.equal(matches('notes/!(draft).md', 'notes/draft.md'), false);
+	assert.equal(matches('notes/!(draft).md', 'notes/drafts.md'), true);
+});
+
+test('glob: optional groups and negations stay fast on pathological patterns', () => {
+	const name = 'a'.repeat(300);
+	assert.equal(matches('?(*)?(*)?(*)?(*)b', name), false);
+	assert.equal(matches('!(*a)!(*a)!(*a)*b', name), false);
+	assert.ok(compileGlob('!(a)'.repeat(18)).source.length < 1_000);
+
+	assert.deepEqual(getGlobSyntaxIssues('!(*a)!(*a)*b'), [
+		'"!(" at position 6 is matched literally: only one "!(...)" per path segment is supported.',
+	]);
+	assert.equal(matches('!(a)!(b|c).md', 'x!(b|c).md'), true);
+	assert.equal(matches('!(a)/!(b)/x.md', 'c/d/x.md'), true);
+	assert.equal(matches('!(a)/!(b)/x.md', 'c/b/x.md'), false);
+
+	const negations = Array.from({ length: GLOB_MAX_NEGATIONS + 1 }, () => '!(x)').join('/');
+	assert.deepEqual(getGlobSyntaxIssues(negations), [
+		`"!(" at position ${5 * GLOB_MAX_NEGATIONS + 1} is matched literally: at most ${GLOB_MAX_NEGATIONS} "!(...)" groups are supported.`,
+	]);
+});
+
+test('glob: backslash escapes special characters', () => {
+	assert.equal(matches('notes/\\[draft\\].md', 'notes/[draft].md'), true);
+	assert.equal(matches('notes/\\[draft\\].md', 'notes/d.md'), false);
+	assert.equal(matches('notes/\\*.md', 'notes/*.md'), true);
+	assert.equal(matches('notes/\\*.md', 'notes/a.md'), false);
+	assert.equal(matches('notes/\\{a,b\\}.md', 'notes/{a,b}.md'), true);
+	assert.equal(matches('notes/\\@(x).md', 'notes/@(x).md'), true);
+});
+
+test('glob: unclosed or invalid constructs are literal and reported', () => {
+	assert.equal(matches('notes/[draft.md', 'notes/[draft.md'), true);
+	assert.equal(matches('notes/{a,b.md', 'notes/{a,b.md'), true);
+	assert.equal(matches('notes/[z-a].md', 'notes/[z-a].md'), true);
+	assert.deepEqual(getGlobSyntaxIssues('notes/[draft.md'), ['Unclosed "[" at position 7 is matched literally.']);
+	assert.deepEqual(getGlobSyntaxIssues('notes/{a,b.md'), ['Unclosed "{" at position 7 is matched literally.']);
+	assert.deepEqual(getGlobSyntaxIssues('notes/@(a|b.md'), ['Unclosed "(" at position 8 is matched literally.']);
+	assert.deepEqual(getGlobSyntaxIssues('notes/[z-a].md'), [
+		'Character class range "z-a" is reversed. The class is matched literally.',
+	]);
+	assert.deepEqual(getGlobSyntaxIssues('docs/{a,b}/[0-9]*.md'), []);
+});
+
+test('glob: literal prefixes and escaping helpers', () => {
+	assert.equal(findGlobSyntaxIndex('docs/guides/*.md'), 12);
+	assert.equal(findGlobSyntaxIndex('docs/\\*/x.md'), -1);
+	assert.equal(findGlobSyntaxIndex('docs/@(a)'), 5);
+	assert.equal(findGlobSyntaxIndex('docs/me@home.md'), -1);
+	assert.equal(getGlobLiteralPrefix('docs/\\[x\\]/{a,b}/**'), 'docs/[x]/');
+	assert.equal(escapeGlobLiteral('Meetings/Q1 [draft] {v2}*.md'), 'Meetings/Q1 \\[draft\\] \\{v2\\}\\*.md');
+	assert.equal(escapeGlobLiteral('notes/(1) me@home!(x).md'), 'notes/(1) me@home\\!(x).md');
+	assert.equal(matches(escapeGlobLiteral('a/[x]{y}?*.md'), 'a/[x]{y}?*.md'), true);
+});
+
+test('glob: rule normalization keeps escapes but still converts path backslashes', () => {
+	assert.equal(normalizeRulePattern(' notes\\sub\\[x\\].md '), 'notes/sub\\[x\\].md');
+	assert.equal(normalizeRulePattern('.\\docs\\a.md'), 'docs/a.md');
+});
@@ -45,6 +45,18 @@ export class MockHTMLElement {
 		this.selectors.add(selector);
 	}
 
+	toggleClass(className: string, value: boolean): void {
+		if (value) {
+			this.selectors.add(`.${className}`);
+		} else {
+			this.selectors.delete(`.${className}`);
+		}
+	}
+
+	hasClass(className: string): boolean {
+		return this.selectors.has(`.${className}`);
+	}
+
 	appendChild(child: MockHTMLElement): void {
 		child.parentElement = this;
 		this.children.push(child);
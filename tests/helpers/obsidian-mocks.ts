@@ -1,4 +1,4 @@
-import { MarkdownView } from 'obsidian';
+import { MarkdownView, TFile, TFolder } from 'obsidian';
 
 export type MockViewMode = 'preview' | 'source';
 
@@ -8,6 +8,7 @@ export type MockViewState = {
 	type: 'markdown';
 	state: {
 		mode: MockViewMode;
+		source?: boolean;
 	};
 };
 
@@ -23,6 +24,7 @@ type MockVaultFile = {
 
 type CreateMockLeafOptions = {
 	mode?: MockViewMode;
+	source?: boolean;
 	filePath?: string;
 	isMarkdownView?: boolean;
 	throwOnReplaceCall?: boolean;
@@ -32,8 +34,17 @@ function createContainerElement(): HTMLElement {
 	if (typeof HTMLElement === 'function') {
 		return new HTMLElement();
 	}
+	const classes = new Set<string>();
 	return {
 		contains: () => false,
+		toggleClass: (className: string, value: boolean) => {
+			if (value) {
+				classes.add(className);
+			} else {
+				classes.delete(className);
+			}
+		},
+		hasClass: (className: string) => classes.has(className),
 	} as unknown as HTMLElement;
 }
 
@@ -57,6 +68,7 @@ export type MockWorkspaceLeaf = {
 
 export function createMockWorkspaceLeaf(options: CreateMockLeafOptions = {}): MockWorkspaceLeaf {
 	let mode = options.mode ?? 'source';
+	let source = options.source ?? false;
 	let filePath = options.filePath;
 	const isMarkdownView = options.isMarkdownView ?? true;
 	let throwOnReplaceCall = options.throwOnReplaceCall ?? false;
@@ -94,7 +106,7 @@ export function createMockWorkspaceLeaf(options: CreateMockLeafOptions = {}): Mo
 		view: isMarkdownView ? markdownView : nonMarkdownView,
 		getViewState: () => ({
 			type: 'markdown',
-			state: { mode },
+			state: { mode, source },
 		}),
 		setViewState: async (state, arg) => {
 			if (throwOnReplaceCall && typeof arg === 'object' && arg?.replace) {
@@ -103,6 +115,7 @@ export function createMockWorkspaceLeaf(options: CreateMockLeafOptions = {}): Mo
 			}
 			setViewStateCalls.push({ state, arg });
 			mode = state.state.mode;
+			source = state.state.source ?? source;
 		},
 		setViewStateCalls,
 		setMode: (nextMode) => {
@@ -113,14 +126,45 @@ export function createMockWorkspaceLeaf(options: CreateMockLeafOptions = {}): Mo
 		},
 	};
 
+	Object.defineProperty(markdownView, 'leaf', { value: leaf, enumerable: false, configurable: true });
 	return leaf;
 }
 
+export function createMockTFile(path: string): TFile {
+	const file = {
+		path,
+		name: path.split('/').pop() ?? path,
+		extension: extensionFromPath(path),
+	};
+	Object.setPrototypeOf(file, TFile.prototype);
+	if (!(file instanceof TFile)) {
+		throw new Error('mock TFile prototype not applied');
+	}
+	return file;
+}
+
+export function createMockTFolder(path: string): TFolder {
+	const folder = {
+		path,
+		name: path.split('/').pop() ?? path,
+		children: [],
+		isRoot: () => path === '/' || path === '',
+	};
+	Object.setPrototypeOf(folder, TFolder.prototype);
+	if (!(folder instanceof TFolder)) {
+		throw new Error('mock TFolder prototype not applied');
+	}
+	return folder;
+}
+
 type WorkspaceEventCallback = (...args: unknown[]) => unknown;
 
 export type MockWorkspace = {
 	getLeavesOfType: (type: string) => MockWorkspaceLeaf[];
 	getLeavesOfTypeCalls: string[];
+	getActiveViewOfType: (type: abstract new (...args: never[]) => unknown) => MockWorkspaceLeaf['view'] | null;
+	setActiveLeaf: (leaf: MockWorkspaceLeaf | null) => void;
+	onLayoutReady: (callback: () => void) => void;
 	on: (event: string, callback: WorkspaceEventCallback) => () => void;
 	trigger: (event: string, ...args: unknown[]) => void;
 };
@@ -133,6 +177,7 @@ export function createMockWorkspace(options: CreateMockWorkspaceOptions = {}): M
 	const leaves = options.leaves ?? [];
 	const getLeavesOfTypeCalls: string[] = [];
 	const listeners = new Map<string, Set<WorkspaceEventCallback>>();
+	let activeLeaf: MockWorkspaceLeaf | null = leaves[0] ?? null;
 
 	return {
 		getLeavesOfType: (type: string) => {
@@ -143,6 +188,13 @@ export function createMockWorkspace(options: CreateMockWorkspaceOptions = {}): M
 			return [];
 		},
 		getLeavesOfTypeCalls,
+		getActiveViewOfType: (type) => (activeLeaf && activeLeaf.view instanceof type ? activeLeaf.view : null),
+		setActiveLeaf: (leaf) => {
+			activeLeaf = leaf;
+		},
+		onLayoutReady: (callback) => {
+			callback();
+		},
 		on: (event, callback) => {
 			const callbacks = listeners.get(event) ?? new Set<WorkspaceEventCallback>();
 			callbacks.add(callback);
@@ -170,16 +222,86 @@ export function createMockWorkspace(options: CreateMockWorkspaceOptions = {}): M
 	};
 }
 
+export type MockCachedMetadata = {
+	frontmatter?: Record<string, unknown>;
+	tags?: Array<{ tag: string }>;
+};
+
+export type MockMetadataCache = {
+	getCache: (path: string) => MockCachedMetadata | null;
+	setCache: (path: string, cache: MockCachedMetadata | null) => void;
+	on: (event: string, callback: WorkspaceEventCallback) => () => void;
+	trigger: (event: string, ...args: unknown[]) => void;
+};
+
+export function createMockMetadataCache(): MockMetadataCache {
+	const cacheByPath = new Map<string, MockCachedMetadata>();
+	const events = createMockWorkspace();
+
+	return {
+		getCache: (path) => cacheByPath.get(path) ?? null,
+		setCache: (path, cache) => {
+			if (cache) {
+				cacheByPath.set(path, cache);
+				return;
+			}
+			cacheByPath.delete(path);
+		},
+		on: events.on,
+		trigger: events.trigger,
+	};
+}
+
+export type MockVault = {
+	on: (event: string, callback: WorkspaceEventCallback) => () => void;
+	trigger: (event: string, ...args: unknown[]) => void;
+	getAbstractFileByPath: (path: string) => TFile | null;
+	read: (file: TFile) => Promise<string>;
+	cachedRead: (file: TFile) => Promise<string>;
+	modify: (file: TFile, data: string) => Promise<void>;
+	setContent: (path: string, content: string) => void;
+	getContent: (path: string) => string | undefined;
+};
+
+// File contents live in memory; `modify` writes and triggers the vault `modify` event like Obsidian does.
+export function createMockVault(): MockVault {
+	const events = createMockWorkspace();
+	const contents = new Map<string, string>();
+	const read = (file: TFile) => Promise.resolve(contents.get(file.path) ?? '');
+	return {
+		on: events.on,
+		trigger: events.trigger,
+		getAbstractFileByPath: (path) => (contents.has(path) ? createMockTFile(path) : null),
+		read,
+		cachedRead: read,
+		modify: (file, data) => {
+			contents.set(file.path, data);
+			events.trigger('modify', file);
+			return Promise.resolve();
+		},
+		setContent: (path, content) => {
+			contents.set(path, content);
+		},
+		getContent: (path) => contents.get(path),
+	};
+}
+
 export type MockApp = {
 	workspace: MockWorkspace;
+	metadataCache: MockMetadataCache;
+	vault: MockVault;
 };
 
 type CreateMockAppOptions = {
 	workspace?: MockWorkspace;
+	metadataCache?: MockMetadataCache;
+	vault?: MockVault;
 	leaves?: MockWorkspaceLeaf[];
 };
 
 export function createMockApp(options: CreateMockAppOptions = {}): MockApp {
 	const workspace = options.workspace ?? createMockWorkspace({ leaves: options.leaves });
-	return { workspace };
+	const metadataCache = options.metadataCache ?? createMockMetadataCache();
+	const vault = options.vault ?? createMockVault();
+	return { workspace, metadataCache, vault };
 }
@@ -1,4 +1,4 @@
-import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { mkdir, readdir, readFile, writeFile } from 'node:fs/promises';
 import path from 'node:path';
 import { fileURLToPath } from 'node:url';
 
@@ -24,15 +24,71 @@ await writeFile(
 	'utf8',
 );
 
-const runtimeSource = `export class App {}
+const runtimeSource = `import { StateField } from '@codemirror/state';
+export class App {}
+export const editorInfoField = StateField.define({
+  create: () => null,
+  update: (value) => value,
+});
+export function getAllTags(cache) {
+  const tags = (cache.tags ?? []).map((entry) => entry.tag);
+  const frontmatterTags = cache.frontmatter?.tags;
+  const list = Array.isArray(frontmatterTags) ? frontmatterTags : frontmatterTags ? [frontmatterTags] : [];
+  for (const tag of list) {
+    tags.push(String(tag).startsWith('#') ? String(tag) : '#' + tag);
+  }
+  return tags;
+}
 export class WorkspaceLeaf {}
-export class MarkdownView {}
+export class TAbstractFile {}
+export class TFile extends TAbstractFile {}
+export class TFolder extends TAbstractFile {}
+export class ItemView {
+  constructor(leaf) {
+    this.leaf = leaf;
+  }
+}
+export class MarkdownView extends ItemView {}
+export class Notice {
+  constructor(message) {
+    this.message = message;
+  }
+  hide() {}
+}
+export class Modal {
+  constructor(app) {
+    this.app = app;
+  }
+  open() {}
+  close() {}
+}
+export class SuggestModal extends Modal {
+  setPlaceholder() {}
+}
 export class Plugin {
   constructor(app = new App()) {
     this.app = app;
   }
   addCommand() {}
   registerEvent() {}
+  registerView() {}
+  registerEditorExtension() {}
+  registerDomEvent(el, type, callback) {
+    el.listeners = { ...el.listeners, [type]: callback };
+  }
+  addStatusBarItem() {
+    return {
+      text: '',
+      visible: true,
+      classes: [],
+      attributes: {},
+      listeners: {},
+      setText(text) { this.text = text; },
+      addClass(cls) { this.classes.push(cls); },
+      setAttr(name, value) { this.attributes[name] = value; },
+      toggle(show) { this.visible = show; },
+    };
+  }
   addSettingTab() {}
 }
 export class PluginSettingTab {
@@ -59,50 +115,14 @@ export class Setting {
 
 await writeFile(path.join(runtimeDir, 'index.js'), runtimeSource, 'utf8');
 
-const mainPath = path.join(scriptDir, '..', '..', 'build-tests', 'src', 'main.js');
-const mainSource = await readFile(mainPath, 'utf8');
-const patchedMainSource = mainSource
-	.replace("'./matcher'", "'./matcher.js'")
-	.replace("'./path-utils'", "'./path-utils.js'")
-	.replace("'./rule-limits'", "'./rule-limits.js'")
-	.replace("'./command-controls'", "'./command-controls.js'")
-	.replace("'./enforcement'", "'./enforcement.js'")
-	.replace("'./popover-observer'", "'./popover-observer.js'")
-	.replace("'./settings-tab'", "'./settings-tab.js'");
-await writeFile(mainPath, patchedMainSource, 'utf8');
-
-const enforcementPath = path.join(scriptDir, '..', '..', 'build-tests', 'src', 'enforcement.js');
-const enforcementSource = await readFile(enforcementPath, 'utf8');
-const patchedEnforcementSource = enforcementSource
-	.replace("'./matcher'", "'./matcher.js'")
-	.replace("'./rule-limits'", "'./rule-limits.js'");
-await writeFile(enforcementPath, patchedEnforcementSource, 'utf8');
-
-const settingsTabPath = path.join(scriptDir, '..', '..', 'build-tests', 'src', 'settings-tab.js');
-const settingsTabSource = await readFile(settingsTabPath, 'utf8');
-const patchedSettingsTabSource = settingsTabSource
-	.replace("'./matcher'", "'./matcher.js'")
-	.replace("'./rule-diagnostics'", "'./rule-diagnostics.js'")
-	.replace("'./rule-limits'", "'./rule-limits.js'");
-await writeFile(settingsTabPath, patchedSettingsTabSource, 'utf8');
-
-const ruleDiagnosticsPath = path.join(scriptDir, '..', '..', 'build-tests', 'src', 'rule-diagnostics.js');
-const ruleDiagnosticsSource = await readFile(ruleDiagnosticsPath, 'utf8');
-const patchedRuleDiagnosticsSource = ruleDiagnosticsSource
-	.replace("'./matcher'", "'./matcher.js'")
-	.replace("'./rule-limits'", "'./rule-limits.js'");
-await writeFile(ruleDiagnosticsPath, patchedRuleDiagnosticsSource, 'utf8');
-
-const matcherPath = path.join(scriptDir, '..', '..', 'build-tests', 'src', 'matcher.js');
-const matcherSource = await readFile(matcherPath, 'utf8');
-const patchedMatcherSource = matcherSource
-	.replace("'./path-utils'", "'./path-utils.js'")
-	.replace("'./rule-limits'", "'./rule-limits.js'");
-await writeFile(matcherPath, patchedMatcherSource, 'utf8');
-
-const ruleLimitsPath = path.join(scriptDir, '..', '..', 'build-tests', 'src', 'rule-limits.js');
-const ruleLimitsSource = await readFile(ruleLimitsPath, 'utf8');
-const patchedRuleLimitsSource = ruleLimitsSource
-	.replace("'./constants'", "'./constants.js'")
-	.replace("'./path-utils'", "'./path-utils.js'");
-await writeFile(ruleLimitsPath, patchedRuleLimitsSource, 'utf8');
+// tsc keeps extensionless relative specifiers; Node ESM needs explicit `.js` for each local import.
+const srcDir = path.join(scriptDir, '..', '..', 'build-tests', 'src');
+for (const entry of await readdir(srcDir)) {
+	if (!entry.endsWith('.js')) {
+		continue;
+	}
+	const modulePath = path.join(srcDir, entry);
+	const moduleSource = await readFile(modulePath, 'utf8');
+	const patchedModuleSource = moduleSource.replace(/(from\s+)'(\.\/[^']+?)(?<!\.js)'/g, "$1'$2.js'");
+	await writeFile(modulePath, patchedModuleSource, 'utf8');
+}
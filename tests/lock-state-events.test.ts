@@ -0,0 +1,38 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import { buildRulesKey, createLockStateEventsService, type LockStateChangedPayload } from '../src/lock-state-events.js';
+import { DEFAULT_SETTINGS } from '../src/matcher.js';
+
+test('lock state events: the first check records the state and later differing checks are reported', () => {
+	const changes: LockStateChangedPayload[] = [];
+	const service = createLockStateEventsService({ onChange: (payload) => changes.push(payload) });
+
+	assert.equal(service.observe('./docs/a.md', 'read-only', 'file-open'), false);
+	assert.equal(service.observe('docs/a.md', 'read-only', 'layout-change'), false);
+	assert.equal(service.observe('docs/a.md', 'temporarily-unlocked', 'temporary-unlock'), true);
+	assert.deepEqual(changes, [{ path: 'docs/a.md', oldState: 'read-only', newState: 'temporarily-unlocked', reason: 'temporary-unlock' }]);
+});
+
+test('lock state events: states follow renames and are dropped for deleted notes', () => {
+	const changes: LockStateChangedPayload[] = [];
+	const service = createLockStateEventsService({ onChange: (payload) => changes.push(payload) });
+	service.observe('docs/a.md', 'read-only', 'file-open');
+	service.observe('docs/b.md', 'editable', 'file-open');
+
+	service.renamePath('docs/a.md', 'archive/a.md');
+	assert.equal(service.observe('archive/a.md', 'editable', 'settings-include-rules'), true);
+	assert.equal(service.observe('docs/a.md', 'editable', 'file-open'), false);
+
+	service.forgetPath('docs/b.md');
+	assert.equal(service.observe('docs/b.md', 'read-only', 'file-open'), false);
+	assert.deepEqual(changes.map((change) => `${change.path}:${change.oldState}->${change.newState}`), ['archive/a.md:read-only->editable']);
+});
+
+test('lock state events: the rules key ignores settings that do not decide protection', () => {
+	const settings = { ...DEFAULT_SETTINGS, includeRules: ['docs/**'] };
+	const key = buildRulesKey(settings);
+	assert.equal(buildRulesKey({ ...settings, debug: true, modeSwitchControl: 'hide' }), key);
+	assert.notEqual(buildRulesKey({ ...settings, includeRules: ['docs/**', 'notes/**'] }), key);
+	assert.notEqual(buildRulesKey({ ...settings, ruleMode: 'ordered' }), key);
+});
@@ -1,9 +1,19 @@
 import assert from 'node:assert/strict';
 import test from 'node:test';
-
+import { setImmediate } from 'node:timers';
+
+import {
+	ENABLED_CHANGED_EVENT,
+	LOCK_STATE_CHANGED_EVENT,
+	RULES_SAVED_EVENT,
+	type EnabledChangedPayload,
+	type LockStateChangedPayload,
+	type RulesSavedPayload,
+} from '../src/lock-state-events.js';
 import ReadOnlyViewPlugin from '../src/main.js';
 import { DEFAULT_SETTINGS } from '../src/matcher.js';
 import { MockHTMLElement, MockMutationObserver } from './helpers/dom-mocks.js';
+import { createMockTFile, createMockTFolder } from './helpers/obsidian-mocks.js';
 import { createMainTestHarness } from './helpers/test-setup.js';
 
 type PatchablePlugin = ReadOnlyViewPlugin & {
@@ -43,17 +53,19 @@ function createObserverPlugin() {
 	};
 }
 
-function withFakeTimeouts(callback: (tools: { flushAll: () => Promise<void> }) => Promise<void>): Promise<void> {
+function withFakeTimeouts(callback: (tools: { flushAll: () => Promise<void>; flushDelay: (delayMs: number) => Promise<void> }) => Promise<void>): Promise<void> {
 	const originalSetTimeout = globalThis.setTimeout;
 	const originalClearTimeout = globalThis.clearTimeout;
 
 	let nextId = 1;
 	const queue = new Map<number, () => void>();
+	const delays = new Map<number, number>();
 
-	globalThis.setTimeout = ((handler: TimerHandler) => {
+	globalThis.setTimeout = ((handler: TimerHandler, delayMs?: number) => {
 		const callbackHandler = typeof handler === 'function' ? handler : () => undefined;
 		const id = nextId++;
 		queue.set(id, callbackHandler as () => void);
+		delays.set(id, delayMs ?? 0);
 		return id as unknown as ReturnType<typeof setTimeout>;
 	}) as typeof setTimeout;
 
@@ -69,7 +81,18 @@ function withFakeTimeouts(callback: (tools: { flushAll: () => Promise<void> }) =
 		}
 	};
 
-	return callback({ flushAll }).finally(() => {
+	const flushDelay = async (delayMs: number) => {
+		for (const [id, callbackHandler] of Array.from(queue.entries())) {
+			if (delays.get(id) !== delayMs) {
+				continue;
+			}
+			queue.delete(id);
+			callbackHandler();
+			await Promise.resolve();
+		}
+	};
+
+	return callback({ flushAll, flushDelay }).finally(() => {
 		globalThis.setTimeout = originalSetTimeout;
 		globalThis.clearTimeout = originalClearTimeout;
 	});
@@ -213,13 +236,13 @@ test('layout-change invalidates leaf container cache', async () => {
 			await plugin.onload();
 			internals.findLeafByNode(nestedNode as unknown as HTMLElement);
 			internals.findLeafByNode(nestedNode as unknown as HTMLElement);
-			assert.equal(harness.workspace.getLeavesOfTypeCalls.length, 1);
+			assert.equal(harness.workspace.getLeavesOfTypeCalls.filter((type) => type === 'markdown').length, 1);
 
 			harness.workspace.trigger('layout-change');
 			await Promise.resolve();
 
 			internals.findLeafByNode(nestedNode as unknown as HTMLElement);
-			assert.equal(harness.workspace.getLeavesOfTypeCalls.length, 2);
+			assert.equal(harness.workspace.getLeavesOfTypeCalls.filter((type) => type === 'markdown').length, 2);
 		});
 	} finally {
 		harness.restore();
@@ -246,6 +269,62 @@ test('onunload invalidates leaf container cache', () => {
 	}
 });
 
+test('onload reads the enforcement log only when it is on and survives a failed read', async () => {
+	const { harness, plugin } = createObserverPlugin();
+	const reads: string[] = [];
+	const debugMessages: string[] = [];
+	(harness.app.vault as unknown as { adapter: unknown }).adapter = {
+		exists: async (path: string) => {
+			reads.push(path);
+			throw new Error('EBUSY');
+		},
+	};
+	(plugin as unknown as { manifest: { dir: string } }).manifest = { dir: 'plugins/read-only-view' };
+	plugin.loadSettings = async () => undefined;
+	plugin.registerEvent = () => undefined;
+	(plugin as unknown as { saveData: () => Promise<void> }).saveData = async () => undefined;
+	const logDebug = plugin.logDebug.bind(plugin);
+	plugin.logDebug = (message, payload) => {
+		debugMessages.push(message);
+		logDebug(message, payload);
+	};
+
+	try {
+		await withFakeTimeouts(async () => {
+			await plugin.onload();
+			assert.deepEqual(reads, []);
+
+			plugin.settings.enforcementLog = true;
+			await plugin.saveSettings();
+			assert.equal(reads.length, 1);
+			assert.ok(debugMessages.includes('enforcement-log-load-failed'));
+
+			await plugin.saveSettings();
+			assert.equal(reads.length, 1);
+		});
+	} finally {
+		plugin.onunload();
+		harness.restore();
+	}
+});
+
+test('onunload does not re-create the enforcement log for late debug messages', () => {
+	const { harness, plugin } = createObserverPlugin();
+	const internals = plugin as unknown as { enforcementLog: unknown };
+
+	try {
+		plugin.logDebug('before-unload');
+		assert.notEqual(internals.enforcementLog, null);
+
+		plugin.onunload();
+		assert.equal(internals.enforcementLog, null);
+		plugin.logDebug('after-unload');
+		assert.equal(internals.enforcementLog, null);
+	} finally {
+		harness.restore();
+	}
+});
+
 test('onunload disconnects active mutation observer', () => {
 	const { harness, plugin } = createObserverPlugin();
 
@@ -425,3 +504,389 @@ test('re-apply command remains immediate and bypasses workspace event scheduler'
 		harness.restore();
 	}
 });
+
+test('metadata change on an open file schedules targeted reapply when frontmatter property is enabled', async () => {
+	const { harness, leaf, plugin } = createObserverPlugin();
+	const reapplyReasons: string[] = [];
+	plugin.settings.includeRules = [];
+	plugin.settings.useFrontmatterProperty = true;
+	harness.app.metadataCache.setCache('docs/file.md', { frontmatter: { readonly: true } });
+
+	plugin.loadSettings = async () => undefined;
+	plugin.applyAllOpenMarkdownLeaves = async (reason: string) => {
+		reapplyReasons.push(reason);
+	};
+	plugin.registerEvent = () => undefined;
+	(plugin as unknown as { addCommand: (command: unknown) => unknown }).addCommand = () => ({});
+
+	try {
+		await withFakeTimeouts(async ({ flushAll }) => {
+			await plugin.onload();
+
+			harness.app.metadataCache.trigger('changed', { path: 'notes/closed.md' });
+			await flushAll();
+			assert.equal(leaf.setViewStateCalls.length, 0);
+
+			harness.app.metadataCache.trigger('changed', { path: 'docs/file.md' });
+			await flushAll();
+			await new Promise<void>((resolve) => setImmediate(resolve));
+
+			assert.deepEqual(reapplyReasons, ['onload']);
+			assert.equal(leaf.setViewStateCalls.length, 1);
+			assert.equal(leaf.setViewStateCalls[0]?.state.state.mode, 'preview');
+		});
+	} finally {
+		harness.restore();
+	}
+});
+
+test('tag change on an open file re-evaluates the leaf when tag rules are configured', async () => {
+	const { harness, leaf, plugin } = createObserverPlugin();
+	plugin.settings.includeRules = [];
+	plugin.settings.tagRules = ['locked'];
+
+	plugin.loadSettings = async () => undefined;
+	plugin.applyAllOpenMarkdownLeaves = async () => undefined;
+	plugin.registerEvent = () => undefined;
+	(plugin as unknown as { addCommand: (command: unknown) => unknown }).addCommand = () => ({});
+
+	try {
+		await withFakeTimeouts(async ({ flushAll }) => {
+			await plugin.onload();
+
+			harness.app.metadataCache.setCache('docs/file.md', { tags: [{ tag: '#locked' }] });
+			harness.app.metadataCache.trigger('changed', { path: 'docs/file.md' });
+			await flushAll();
+			await new Promise<void>((resolve) => setImmediate(resolve));
+
+			assert.equal(leaf.setViewStateCalls.length, 1);
+		});
+	} finally {
+		harness.restore();
+	}
+});
+
+test('next rule profile command switches rules and re-applies all open leaves', async () => {
+	const { harness, plugin } = createObserverPlugin();
+	const reapplyReasons: string[] = [];
+	const commands = new Map<string, (checking: boolean) => boolean>();
+	plugin.settings.profiles = [
+		{ name: 'Default', ruleMode: 'include-exclude', includeRules: ['docs/**'], excludeRules: [], orderedRules: [], useGlobPatterns: true, caseSensitive: true },
+		{ name: 'Review', ruleMode: 'include-exclude', includeRules: ['notes/**'], excludeRules: [], orderedRules: [], useGlobPatterns: true, caseSensitive: true },
+	];
+
+	plugin.loadSettings = async () => undefined;
+	plugin.saveSettings = async () => undefined;
+	plugin.applyAllOpenMarkdownLeaves = async (reason: string) => {
+		reapplyReasons.push(reason);
+	};
+	plugin.registerEvent = () => undefined;
+	(plugin as unknown as {
+		addCommand: (command: { id: string; checkCallback?: (checking: boolean) => boolean }) => unknown;
+	}).addCommand = (command) => {
+		if (command.checkCallback) {
+			commands.set(command.id, command.checkCallback);
+		}
+		return {};
+	};
+
+	try {
+		await withFakeTimeouts(async () => {
+			await plugin.onload();
+			const nextProfileCommand = commands.get('switch-to-next-rule-profile');
+			assert.ok(nextProfileCommand);
+			assert.equal(nextProfileCommand(true), true);
+
+			nextProfileCommand(false);
+			await new Promise<void>((resolve) => setImmediate(resolve));
+
+			assert.equal(plugin.settings.activeProfileName, 'Review');
+			assert.deepEqual(plugin.settings.includeRules, ['notes/**']);
+			assert.deepEqual(reapplyReasons, ['onload', 'profile-switch:command-next-profile']);
+		});
+	} finally {
+		harness.restore();
+	}
+});
+
+test('status bar shows the lock state of the active note and counts down temporary unlocks', async () => {
+	const { harness, plugin } = createObserverPlugin();
+	const originalDateNow = Date.now;
+	const commands = new Map<string, (checking: boolean) => boolean>();
+	type StubStatusBarItem = { text: string; visible: boolean; listeners: Record<string, () => void> };
+	let statusBarItem: StubStatusBarItem | null = null;
+
+	plugin.loadSettings = async () => undefined;
+	plugin.registerEvent = () => undefined;
+	(plugin as unknown as { saveData: () => Promise<void> }).saveData = async () => undefined;
+	const pluginWithStatusBar = plugin as unknown as { addStatusBarItem: () => StubStatusBarItem };
+	const addStatusBarItem = pluginWithStatusBar.addStatusBarItem.bind(plugin);
+	pluginWithStatusBar.addStatusBarItem = () => {
+		statusBarItem = addStatusBarItem();
+		return statusBarItem;
+	};
+	(plugin as unknown as {
+		addCommand: (command: { id: string; checkCallback?: (checking: boolean) => boolean }) => unknown;
+	}).addCommand = (command) => {
+		if (command.checkCallback) {
+			commands.set(command.id, command.checkCallback);
+		}
+		return {};
+	};
+
+	try {
+		await withFakeTimeouts(async ({ flushDelay }) => {
+			await plugin.onload();
+			const item = statusBarItem;
+			assert.ok(item);
+			assert.equal(item.text, 'Read-only');
+			assert.equal(item.visible, true);
+			assert.equal(typeof item.listeners.click, 'function');
+
+			const unlockCommand = commands.get('unlock-current-note-temporarily');
+			assert.ok(unlockCommand);
+			unlockCommand(false);
+			await new Promise<void>((resolve) => setImmediate(resolve));
+			assert.equal(item.text, 'Unlocked temporarily (5 min left)');
+
+			const startedAt = Date.now();
+			Date.now = () => startedAt + 90_000;
+			await flushDelay(1000);
+			assert.equal(item.text, 'Unlocked temporarily (3 min 30 s left)');
+
+			plugin.settings.includeRules = [];
+			await plugin.saveSettings();
+			commands.get('relock-current-note')?.(false);
+			assert.equal(item.text, 'Editable');
+
+			plugin.settings.enabled = false;
+			await plugin.saveSettings();
+			assert.equal(item.visible, false);
+		});
+	} finally {
+		Date.now = originalDateNow;
+		plugin.onunload();
+		harness.restore();
+	}
+});
+
+test('locked rules show as read-only in the status bar and in lock state events', async () => {
+	const { harness, plugin } = createObserverPlugin();
+	const events: string[] = [];
+	type StubStatusBarItem = { text: string };
+	let statusBarItem: StubStatusBarItem | null = null;
+	plugin.settings.includeRules = ['live:docs/**'];
+
+	plugin.loadSettings = async () => undefined;
+	plugin.registerEvent = () => undefined;
+	(plugin as unknown as { saveData: () => Promise<void> }).saveData = async () => undefined;
+	const pluginWithStatusBar = plugin as unknown as { addStatusBarItem: () => StubStatusBarItem };
+	const addStatusBarItem = pluginWithStatusBar.addStatusBarItem.bind(plugin);
+	pluginWithStatusBar.addStatusBarItem = () => {
+		statusBarItem = addStatusBarItem();
+		return statusBarItem;
+	};
+	(plugin as unknown as { addCommand: (command: unknown) => unknown }).addCommand = () => ({});
+	harness.app.workspace.on(LOCK_STATE_CHANGED_EVENT, (payload) => {
+		const { oldState, newState } = payload as LockStateChangedPayload;
+		events.push(`${oldState}->${newState}`);
+	});
+
+	try {
+		await withFakeTimeouts(async () => {
+			await plugin.onload();
+			const item = statusBarItem;
+			assert.ok(item);
+			assert.equal(item.text, 'Live preview enforced');
+
+			plugin.settings.includeRules = ['locked:docs/**'];
+			await plugin.saveSettings();
+			await plugin.applyAllOpenMarkdownLeaves('settings-include-rules');
+			assert.equal(item.text, 'Read-only');
+			assert.deepEqual(events, ['live-preview->read-only']);
+		});
+	} finally {
+		plugin.onunload();
+		harness.restore();
+	}
+});
+
+test('file menu "Make read-only" appends a folder rule, saves and re-applies', async () => {
+	const { harness, plugin } = createObserverPlugin();
+	const reapplyReasons: string[] = [];
+	let saveCount = 0;
+	plugin.settings.includeRules = [];
+
+	plugin.loadSettings = async () => undefined;
+	plugin.saveSettings = async () => {
+		saveCount += 1;
+	};
+	plugin.applyAllOpenMarkdownLeaves = async (reason: string) => {
+		reapplyReasons.push(reason);
+	};
+	(plugin as unknown as { addCommand: (command: unknown) => unknown }).addCommand = () => ({});
+
+	type FakeMenuItem = { title: string; click: () => void };
+	const items: FakeMenuItem[] = [];
+	const menu = {
+		addItem: (callback: (item: unknown) => void) => {
+			const entry: FakeMenuItem = { title: '', click: () => undefined };
+			const item = {
+				setTitle: (title: string) => {
+					entry.title = title;
+					return item;
+				},
+				setIcon: () => item,
+				onClick: (handler: () => void) => {
+					entry.click = handler;
+					return item;
+				},
+			};
+			callback(item);
+			items.push(entry);
+			return menu;
+		},
+	};
+
+	try {
+		await withFakeTimeouts(async () => {
+			await plugin.onload();
+			harness.workspace.trigger('file-menu', menu, createMockTFolder('docs'));
+			assert.deepEqual(items.map((item) => item.title), ['Make read-only', 'Exclude from read-only']);
+
+			items[0]?.click();
+			await new Promise<void>((resolve) => setImmediate(resolve));
+			assert.deepEqual(plugin.settings.includeRules, ['docs/**']);
+			assert.equal(saveCount, 1);
+			assert.deepEqual(reapplyReasons, ['onload', 'file-menu:include-rules']);
+
+			items.length = 0;
+			harness.workspace.trigger('files-menu', menu, [createMockTFile('image.png')]);
+			assert.equal(items.length, 0);
+		});
+	} finally {
+		harness.restore();
+	}
+});
+
+test('folder rename rewrites rules automatically when rename tracking is set to auto', async () => {
+	const { harness, plugin } = createObserverPlugin();
+	const reapplyReasons: string[] = [];
+	plugin.settings.includeRules = ['project_a/**'];
+	plugin.settings.ruleRenameTracking = 'auto';
+
+	plugin.loadSettings = async () => undefined;
+	plugin.saveSettings = async () => undefined;
+	plugin.applyAllOpenMarkdownLeaves = async (reason: string) => {
+		reapplyReasons.push(reason);
+	};
+	(plugin as unknown as { addCommand: (command: unknown) => unknown }).addCommand = () => ({});
+
+	try {
+		await withFakeTimeouts(async ({ flushAll }) => {
+			await plugin.onload();
+			harness.app.vault.trigger('rename', createMockTFolder('project_alpha'), 'project_a');
+			harness.app.vault.trigger('rename', createMockTFile('project_alpha/a.md'), 'project_a/a.md');
+			await flushAll();
+			await new Promise<void>((resolve) => setImmediate(resolve));
+
+			assert.deepEqual(plugin.settings.includeRules, ['project_alpha/**']);
+			assert.ok(reapplyReasons.includes('rename-auto'));
+		});
+	} finally {
+		harness.restore();
+	}
+});
+
+test('mode commands on a protected active note are intercepted until the note is unlocked', async () => {
+	const { harness, plugin, leaf } = createObserverPlugin();
+	const commands = new Map<string, (checking: boolean) => boolean>();
+	const coreCalls: string[] = [];
+	const togglePreview = {
+		checkCallback: (checking: boolean) => {
+			if (!checking) {
+				coreCalls.push('toggle-preview');
+			}
+			return true;
+		},
+	};
+	const originalCheckCallback = togglePreview.checkCallback;
+	(harness.app as unknown as { commands: unknown }).commands = {
+		commands: { 'markdown:toggle-preview': togglePreview },
+	};
+	harness.workspace.setActiveLeaf(leaf as never);
+
+	plugin.loadSettings = async () => undefined;
+	plugin.registerEvent = () => undefined;
+	(plugin as unknown as {
+		addCommand: (command: { id: string; checkCallback?: (checking: boolean) => boolean }) => unknown;
+	}).addCommand = (command) => {
+		if (command.checkCallback) {
+			commands.set(command.id, command.checkCallback);
+		}
+		return {};
+	};
+
+	try {
+		await withFakeTimeouts(async () => {
+			await plugin.onload();
+			assert.equal(leaf.getViewState().state.mode, 'preview');
+
+			assert.equal(togglePreview.checkCallback(false), true);
+			assert.deepEqual(coreCalls, []);
+
+			commands.get('unlock-current-note-temporarily')?.(false);
+			await new Promise<void>((resolve) => setImmediate(resolve));
+			leaf.setMode('preview');
+			togglePreview.checkCallback(false);
+			assert.deepEqual(coreCalls, ['toggle-preview']);
+		});
+	} finally {
+		plugin.onunload();
+		harness.restore();
+	}
+	assert.equal(togglePreview.checkCallback, originalCheckCallback);
+});
+
+test('lock state, rules saved and enabled events are triggered on the workspace with their reasons', async () => {
+	const { harness, plugin } = createObserverPlugin();
+	const events: string[] = [];
+	(plugin as unknown as { saveData: () => Promise<void> }).saveData = async () => undefined;
+	harness.app.workspace.on(LOCK_STATE_CHANGED_EVENT, (payload) => {
+		const { path, oldState, newState, reason } = payload as LockStateChangedPayload;
+		events.push(`lock:${path}:${oldState}->${newState}:${reason}`);
+	});
+	harness.app.workspace.on(RULES_SAVED_EVENT, (payload) => {
+		events.push(`rules:${(payload as RulesSavedPayload).reason}`);
+	});
+	harness.app.workspace.on(ENABLED_CHANGED_EVENT, (payload) => {
+		const { oldState, newState, reason } = payload as EnabledChangedPayload;
+		events.push(`enabled:${String(oldState)}->${String(newState)}:${reason}`);
+	});
+
+	try {
+		await withFakeTimeouts(async () => {
+			await plugin.applyAllOpenMarkdownLeaves('file-open');
+			plugin.settings.includeRules = [];
+			await plugin.saveSettings('settings-include-rules');
+			await plugin.applyAllOpenMarkdownLeaves('settings-include-rules');
+			await plugin.saveSettings('settings-debug');
+			plugin.settings.includeRules = ['docs/**'];
+			await plugin.saveSettings('settings-include-rules');
+			await plugin.applyAllOpenMarkdownLeaves('settings-include-rules');
+			await plugin.setPluginEnabled(false, 'command-disable');
+		});
+
+		assert.deepEqual(events, [
+			'rules:settings-include-rules',
+			'lock:docs/file.md:read-only->editable:settings-include-rules',
+			'rules:settings-include-rules',
+			'lock:docs/file.md:editable->read-only:settings-include-rules',
+			'enabled:true->false:command-disable',
+			'lock:docs/file.md:read-only->editable:command-disable',
+		]);
+	} finally {
+		plugin.onunload();
+		harness.restore();
+	}
+});
@@ -3,6 +3,7 @@ import { performance } from 'node:perf_hooks';
 import test from 'node:test';
 
 import { clearGlobRegexCache, matchPath } from '../src/matcher.js';
+import { clearRegexRuleCache } from '../src/regex-rules.js';
 
 const GLOB_OPTIONS = { useGlobPatterns: true, caseSensitive: true };
 
@@ -70,3 +71,51 @@ test('S3) mixed wildcard stress cases (*, **, ?) stay within conservative runtim
 
 	assert.ok(durationMs <= budgetMs, `Expected <= ${budgetMs}ms, got ${durationMs.toFixed(2)}ms`);
 });
+
+test('S4) braces, classes and extglob stay within conservative runtime budget', () => {
+	clearGlobRegexCache();
+
+	const longPath = buildLongPath(120);
+	const bracePattern = '{segment-000,other}/**/segment-1[01][0-9]/note-{final,draft}.md';
+	const extglobPattern = 'segment-000/**/+(segment-|[0-9])/note-!(draft).md';
+	const iterations = 10_000;
+	const budgetMs = 900;
+
+	const durationMs = measureRuntimeMs(() => {
+		for (let index = 0; index < iterations; index++) {
+			assert.equal(matchPath(longPath, bracePattern, GLOB_OPTIONS), true);
+			assert.equal(matchPath(longPath, extglobPattern, GLOB_OPTIONS), true);
+		}
+	});
+
+	assert.ok(durationMs <= budgetMs, `Expected <= ${budgetMs}ms, got ${durationMs.toFixed(2)}ms`);
+});
+
+test('S5) repeated extglob groups do not backtrack catastrophically on near misses', () => {
+	clearGlobRegexCache();
+
+	const nearMiss = `notes/${'a'.repeat(2_000)}b.md`;
+	const budgetMs = 200;
+
+	const durationMs = measureRuntimeMs(() => {
+		assert.equal(matchPath(nearMiss, 'notes/+(a|aa).md', GLOB_OPTIONS), false);
+		assert.equal(matchPath(nearMiss, 'notes/*(a|aa|*)c.md', GLOB_OPTIONS), false);
+	});
+
+	assert.ok(durationMs <= budgetMs, `Expected <= ${budgetMs}ms, got ${durationMs.toFixed(2)}ms`);
+});
+
+test('S6) regex rules that could backtrack catastrophically are rejected instead of run', () => {
+	clearRegexRuleCache();
+
+	const nearMiss = `notes/${'a'.repeat(5_000)}!.md`;
+	const budgetMs = 200;
+
+	const durationMs = measureRuntimeMs(() => {
+		assert.equal(matchPath(nearMiss, 're:^notes/(a+)+\\.md$', GLOB_OPTIONS), false);
+		assert.equal(matchPath(nearMiss, 're:^notes/(a|aa)*\\.md$', GLOB_OPTIONS), false);
+		assert.equal(matchPath(nearMiss, 're:^notes/(\\w+\\s?)*$', GLOB_OPTIONS), false);
+	});
+
+	assert.ok(durationMs <= budgetMs, `Expected <= ${budgetMs}ms, got ${durationMs.toFixed(2)}ms`);
+});
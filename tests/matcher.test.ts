@@ -2,12 +2,20 @@ import assert from 'node:assert/strict';
 import test from 'node:test';
 
 import {
+    DEFAULT_SETTINGS,
+    applyTemporaryLock,
     GLOB_REGEX_CACHE_CAP,
     clearGlobRegexCache,
     compileGlobToRegex,
+    evaluateOrderedRules,
     getGlobRegexCacheSize,
+    isFolderFullyCovered,
     matchPath,
+    matchTag,
+    matchTagRules,
     normalizeVaultPath,
+    readFrontmatterOverride,
+    resolveEnforcedMode,
     shouldForceReadOnly,
     type ForceReadModeSettings,
 } from '../src/matcher.js';
@@ -17,6 +25,7 @@ const fileNoMatch = 'project_a/project_a.md';
 
 function createSettings(overrides: Partial<ForceReadModeSettings>): ForceReadModeSettings {
     return {
+        ...DEFAULT_SETTINGS,
         enabled: true,
         useGlobPatterns: true,
         caseSensitive: true,
@@ -209,3 +218,274 @@ test('M) normalization handles repeated dot-prefix and surrounding spaces', () =
 		'docs/nested/readme.md',
 	);
 });
+
+test('P) frontmatter property overrides include/exclude rules when enabled', () => {
+	const frontmatterByPath: Record<string, Record<string, unknown>> = {
+		'docs/locked.md': { readonly: true },
+		'docs/unlocked.md': { readonly: false },
+		'notes/locked.md': { readonly: 'TRUE' },
+		'notes/other.md': { readonly: 'maybe' },
+	};
+	const resolveMetadata = (filePath: string) => ({ frontmatter: frontmatterByPath[filePath] ?? null });
+	const settings = createSettings({
+		useGlobPatterns: true,
+		includeRules: ['docs/**'],
+		excludeRules: ['docs/excluded/**'],
+		useFrontmatterProperty: true,
+		frontmatterPropertyName: 'readonly',
+	});
+
+	assert.equal(shouldForceReadOnly('docs/unlocked.md', settings, resolveMetadata), false);
+	assert.equal(shouldForceReadOnly('notes/locked.md', settings, resolveMetadata), true);
+	assert.equal(shouldForceReadOnly('docs/locked.md', settings, resolveMetadata), true);
+	assert.equal(shouldForceReadOnly('notes/other.md', settings, resolveMetadata), false);
+	assert.equal(shouldForceReadOnly('docs/plain.md', settings, resolveMetadata), true);
+
+	assert.equal(readFrontmatterOverride('docs/unlocked.md', settings, resolveMetadata), 'unlock');
+	assert.equal(readFrontmatterOverride('notes/other.md', settings, resolveMetadata), null);
+});
+
+test('Q) frontmatter property is ignored when disabled, unnamed, or plugin is off', () => {
+	const resolveMetadata = () => ({ frontmatter: { readonly: true, locked: false } });
+	const settings = createSettings({
+		useGlobPatterns: true,
+		includeRules: ['docs/**'],
+		useFrontmatterProperty: false,
+	});
+
+	assert.equal(shouldForceReadOnly('notes/file.md', settings, resolveMetadata), false);
+	assert.equal(
+		shouldForceReadOnly('notes/file.md', { ...settings, useFrontmatterProperty: true, frontmatterPropertyName: '  ' }, resolveMetadata),
+		false,
+	);
+	assert.equal(
+		shouldForceReadOnly('docs/file.md', { ...settings, useFrontmatterProperty: true, frontmatterPropertyName: 'locked' }, resolveMetadata),
+		false,
+	);
+	assert.equal(
+		shouldForceReadOnly('notes/file.md', { ...settings, enabled: false, useFrontmatterProperty: true }, resolveMetadata),
+		false,
+	);
+	assert.equal(shouldForceReadOnly('notes/file.png', { ...settings, useFrontmatterProperty: true }, resolveMetadata), false);
+});
+
+test('R) matchTag is case-insensitive and matches nested tags by prefix segment', () => {
+	assert.equal(matchTag('#locked', 'locked'), true);
+	assert.equal(matchTag('#Locked', '#LOCKED'), true);
+	assert.equal(matchTag('#status/final', 'status'), true);
+	assert.equal(matchTag('#status/final', '#status/final'), true);
+	assert.equal(matchTag('#status', 'status/final'), false);
+	assert.equal(matchTag('#statuses', 'status'), false);
+	assert.equal(matchTag('#locked', '#'), false);
+});
+
+test('S) tag rules force read-only regardless of folder, and exclude still wins', () => {
+	const tagsByPath: Record<string, string[]> = {
+		'inbox/final.md': ['#status/final'],
+		'docs/private/final.md': ['#status/final'],
+		'inbox/draft.md': ['#status/draft'],
+	};
+	const resolveMetadata = (filePath: string) => ({ tags: tagsByPath[filePath] ?? [] });
+	const settings = createSettings({
+		useGlobPatterns: true,
+		includeRules: [],
+		excludeRules: ['docs/private/**'],
+		tagRules: ['#locked', 'status/final'],
+	});
+
+	assert.equal(shouldForceReadOnly('inbox/final.md', settings, resolveMetadata), true);
+	assert.equal(shouldForceReadOnly('docs/private/final.md', settings, resolveMetadata), false);
+	assert.equal(shouldForceReadOnly('inbox/draft.md', settings, resolveMetadata), false);
+	assert.equal(shouldForceReadOnly('inbox/final.md', settings), false);
+	assert.deepEqual(matchTagRules('inbox/final.md', settings, resolveMetadata), ['status/final']);
+});
+
+test('T) folders are fully covered only by recursive include rules that no exclude reaches into', () => {
+	const glob = createSettings({
+		useGlobPatterns: true,
+		includeRules: ['docs/**', 'archive/*.md', 'Notes/**/*.md'],
+		excludeRules: ['docs/drafts/**'],
+	});
+	assert.equal(isFolderFullyCovered('docs/guides', glob), true);
+	assert.equal(isFolderFullyCovered('docs/drafts', glob), false);
+	assert.equal(isFolderFullyCovered('docs', glob), false);
+	assert.equal(isFolderFullyCovered('archive', glob), false);
+	assert.equal(isFolderFullyCovered('Notes/daily', glob), true);
+	assert.equal(isFolderFullyCovered('notes/daily', glob), false);
+	assert.equal(isFolderFullyCovered('notes/daily', { ...glob, caseSensitive: false }), true);
+	assert.equal(isFolderFullyCovered('docs/guides', { ...glob, enabled: false }), false);
+
+	const prefix = createSettings({
+		useGlobPatterns: false,
+		includeRules: ['projects'],
+		excludeRules: ['projects/tmp'],
+	});
+	assert.equal(isFolderFullyCovered('projects/app', prefix), true);
+	assert.equal(isFolderFullyCovered('projects', prefix), false);
+	assert.equal(isFolderFullyCovered('projectsX', prefix), false);
+});
+
+test('U) ordered mode: last matching rule wins and "!" unlocks', () => {
+	const settings = createSettings({
+		ruleMode: 'ordered',
+		includeRules: ['ignored/**'],
+		orderedRules: ['docs/**', '!docs/drafts/**', 'docs/drafts/final.md'],
+	});
+	assert.equal(shouldForceReadOnly('docs/guide.md', settings), true);
+	assert.equal(shouldForceReadOnly('docs/drafts/wip.md', settings), false);
+	assert.equal(shouldForceReadOnly('docs/drafts/final.md', settings), true);
+	assert.equal(shouldForceReadOnly('ignored/a.md', settings), false);
+
+	const evaluation = evaluateOrderedRules('docs/drafts/wip.md', settings);
+	assert.deepEqual(evaluation.steps.map((step) => step.matched), [true, true, false]);
+	assert.equal(evaluation.decision, false);
+	assert.equal(evaluation.decidingStep?.lineIndex, 1);
+	assert.equal(evaluateOrderedRules('other.md', settings).decision, null);
+});
+
+test('V) ordered mode: tags lock unmatched notes, negations beat tags, escaped "!" is literal', () => {
+	const resolveMetadata = (path: string) => (path.startsWith('tagged') ? { tags: ['locked'] } : null);
+	const settings = createSettings({
+		ruleMode: 'ordered',
+		tagRules: ['locked'],
+		orderedRules: ['!tagged/open/**', '\\!important/**'],
+	});
+	assert.equal(shouldForceReadOnly('tagged/a.md', settings, resolveMetadata), true);
+	assert.equal(shouldForceReadOnly('tagged/open/a.md', settings, resolveMetadata), false);
+	assert.equal(shouldForceReadOnly('!important/a.md', settings), true);
+	assert.equal(shouldForceReadOnly('important/a.md', settings), false);
+});
+
+test('W) ordered mode: a folder is covered unless a later negation reaches into it', () => {
+	const settings = createSettings({
+		ruleMode: 'ordered',
+		orderedRules: ['!docs/drafts/**', 'docs/**', '!docs/private/**'],
+	});
+	assert.equal(isFolderFullyCovered('docs/drafts', settings), true);
+	assert.equal(isFolderFullyCovered('docs/private', settings), false);
+	assert.equal(isFolderFullyCovered('docs', settings), false);
+	assert.equal(isFolderFullyCovered('docs/guides', settings), true);
+});
+
+test('X) glob braces, classes and escapes go through matchPath, case folding and the regex cache', () => {
+	clearGlobRegexCache();
+	const glob = { useGlobPatterns: true, caseSensitive: false };
+	assert.equal(matchPath('Docs/Guides/A.md', 'docs/{guides,specs}/[a-c].md', glob), true);
+	assert.equal(matchPath('docs/guides/d.md', 'docs/{guides,specs}/[a-c].md', glob), false);
+	assert.equal(matchPath('notes/[draft].md', 'notes/\\[draft\\].md', glob), true);
+	assert.equal(matchPath('notes/d.md', 'notes/\\[draft\\].md', glob), false);
+	assert.equal(getGlobRegexCacheSize(), 2);
+	assert.equal(compileGlobToRegex('docs/{guides,specs}/[a-c].md', false), compileGlobToRegex('DOCS/{guides,specs}/[A-C].md', false));
+
+	const prefix = { useGlobPatterns: false, caseSensitive: true };
+	assert.equal(matchPath('docs/{a,b}/x.md', 'docs/{a,b}', prefix), true);
+	assert.equal(matchPath('docs/a/x.md', 'docs/{a,b}', prefix), false);
+});
+
+test('Y) escaped folder rules cover their folder; brace rules are not treated as covering', () => {
+	const settings = createSettings({ includeRules: ['Meetings \\[2024\\]/**', '{a,b}/**'] });
+	assert.equal(isFolderFullyCovered('Meetings [2024]', settings), true);
+	assert.equal(isFolderFullyCovered('a', settings), false);
+	assert.equal(shouldForceReadOnly('a/x.md', settings), true);
+});
+
+test('Z) re: rules match with a regular expression in both modes and keep their backslashes', () => {
+	const rule = 're:^journal/\\d{4}-\\d{2}-\\d{2}\\.md$';
+	for (const useGlobPatterns of [true, false]) {
+		assert.equal(matchPath('journal/2024-01-31.md', rule, { useGlobPatterns, caseSensitive: true }), true);
+		assert.equal(matchPath('journal/notes.md', rule, { useGlobPatterns, caseSensitive: true }), false);
+	}
+	assert.equal(matchPath('Journal/2024-01-31.md', rule, { useGlobPatterns: true, caseSensitive: true }), false);
+	assert.equal(matchPath('Journal/2024-01-31.md', rule, { useGlobPatterns: true, caseSensitive: false }), true);
+	assert.equal(matchPath('journal/x.md', 're:(a+)+$', { useGlobPatterns: true, caseSensitive: true }), false);
+	assert.equal(matchPath('journal/x.md', 're:(', { useGlobPatterns: true, caseSensitive: true }), false);
+
+	const settings = createSettings({ includeRules: ['re:^journal/'], excludeRules: ['re:/draft-'] });
+	assert.equal(shouldForceReadOnly('journal/a.md', settings), true);
+	assert.equal(shouldForceReadOnly('journal/draft-a.md', settings), false);
+	assert.equal(isFolderFullyCovered('journal', settings), false);
+
+	const ordered = createSettings({ ruleMode: 'ordered', orderedRules: ['re:\\.md$', '!re:^inbox/'] });
+	assert.equal(shouldForceReadOnly('docs/a.md', ordered), true);
+	assert.equal(shouldForceReadOnly('inbox/a.md', ordered), false);
+});
+
+test('AA) mode prefixes: the strictest matching include decides, exclude and frontmatter still win', () => {
+	const settings = createSettings({
+		includeRules: ['live:dashboards/**', 'source:snippets/**', 'dashboards/locked/**', 'source:dashboards/code/**'],
+		excludeRules: ['dashboards/scratch/**'],
+		tagRules: ['final'],
+		useFrontmatterProperty: true,
+	});
+	const resolveMetadata = (filePath: string) => ({
+		tags: filePath.endsWith('tagged.md') ? ['#final'] : [],
+		frontmatter: filePath.endsWith('pinned.md') ? { readonly: true } : null,
+	});
+	assert.equal(resolveEnforcedMode('dashboards/home.md', settings), 'live');
+	assert.equal(resolveEnforcedMode('snippets/a.md', settings), 'source');
+	assert.equal(resolveEnforcedMode('dashboards/locked/a.md', settings), 'reading');
+	assert.equal(resolveEnforcedMode('dashboards/code/a.md', settings), 'live');
+	assert.equal(resolveEnforcedMode('dashboards/tagged.md', settings, resolveMetadata), 'reading');
+	assert.equal(resolveEnforcedMode('snippets/pinned.md', settings, resolveMetadata), 'reading');
+	assert.equal(resolveEnforcedMode('dashboards/scratch/a.md', settings), null);
+	assert.equal(resolveEnforcedMode('other.md', settings), null);
+	assert.equal(shouldForceReadOnly('dashboards/home.md', settings), false);
+	assert.equal(shouldForceReadOnly('dashboards/locked/a.md', settings), true);
+});
+
+test('AB) mode prefixes in ordered mode: the deciding line sets the mode', () => {
+	const settings = createSettings({
+		ruleMode: 'ordered',
+		orderedRules: ['projects/**', 'live:projects/*/dashboard.md', '!projects/drafts/**', 'source:projects/drafts/*.md'],
+	});
+	assert.equal(resolveEnforcedMode('projects/a/notes.md', settings), 'reading');
+	assert.equal(resolveEnforcedMode('projects/a/dashboard.md', settings), 'live');
+	assert.equal(resolveEnforcedMode('projects/drafts/x/y.md', settings), null);
+	assert.equal(resolveEnforcedMode('projects/drafts/y.md', settings), 'source');
+	assert.equal(evaluateOrderedRules('projects/a/dashboard.md', settings).decidingStep?.pattern, 'live:projects/*/dashboard.md');
+});
+
+test('AC) only Reading rules mark folders as covered', () => {
+	const includeSettings = createSettings({ includeRules: ['live:dashboards/**', 'docs/**', 'live:docs/live/**'] });
+	assert.equal(isFolderFullyCovered('dashboards', includeSettings), false);
+	assert.equal(isFolderFullyCovered('docs', includeSettings), true);
+
+	const orderedSettings = createSettings({ ruleMode: 'ordered', orderedRules: ['docs/**', 'live:docs/live/**', 'archive/**'] });
+	assert.equal(isFolderFullyCovered('docs', orderedSettings), false);
+	assert.equal(isFolderFullyCovered('docs/other', orderedSettings), true);
+	assert.equal(isFolderFullyCovered('archive', orderedSettings), true);
+});
+
+test('AD) read-only style "editor" locks unprefixed rules, tags and frontmatter in the editor', () => {
+	const settings = createSettings({
+		readOnlyStyle: 'editor',
+		includeRules: ['docs/**', 'reading:docs/strict/**', 'live:docs/**'],
+		tagRules: ['final'],
+	});
+	assert.equal(resolveEnforcedMode('docs/a.md', settings), 'locked');
+	assert.equal(resolveEnforcedMode('docs/strict/a.md', settings), 'reading');
+	assert.equal(resolveEnforcedMode('inbox/a.md', settings, () => ({ tags: ['#final'] })), 'locked');
+	assert.equal(shouldForceReadOnly('docs/a.md', settings), true);
+	assert.equal(isFolderFullyCovered('docs', settings), true);
+
+	const perRule = createSettings({ includeRules: ['locked:docs/**', 'live:docs/**'] });
+	assert.equal(resolveEnforcedMode('docs/a.md', perRule), 'locked');
+	assert.equal(isFolderFullyCovered('docs', perRule), true);
+});
+
+test('AE) append-only rules are not read-only and do not cover folders', () => {
+	const settings = createSettings({ includeRules: ['append:logs/**', 'source:logs/**'] });
+	assert.equal(resolveEnforcedMode('logs/2024.md', settings), 'append');
+	assert.equal(shouldForceReadOnly('logs/2024.md', settings), false);
+	assert.equal(isFolderFullyCovered('logs', settings), false);
+	assert.equal(resolveEnforcedMode('logs/2024.md', createSettings({ includeRules: ['append:logs/**', 'logs/**'] })), 'reading');
+});
+
+test('AF) a temporary lock holds editable notes in the default read-only mode', () => {
+	const settings = createSettings({ includeRules: ['live:drafts/**'] });
+	assert.equal(applyTemporaryLock(null, settings), 'reading');
+	assert.equal(applyTemporaryLock(resolveEnforcedMode('drafts/a.md', settings), settings), 'reading');
+	assert.equal(applyTemporaryLock('append', createSettings({ readOnlyStyle: 'editor' })), 'locked');
+	assert.equal(applyTemporaryLock('locked', settings), 'locked');
+	assert.equal(applyTemporaryLock(null, createSettings({ enabled: false })), null);
+});
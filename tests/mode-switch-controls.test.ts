@@ -0,0 +1,71 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import {
+	applyEditMenuControl,
+	applyModeButtonControl,
+	MODE_BUTTON_DISABLED_CLASS,
+	MODE_BUTTON_HIDDEN_CLASS,
+} from '../src/mode-switch-controls.js';
+
+function createElement(text = '') {
+	const classes = new Set<string>();
+	const attributes = new Map<string, string>();
+	return {
+		textContent: text,
+		classes,
+		attributes,
+		toggleClass: (className: string, value: boolean) => {
+			if (value) {
+				classes.add(className);
+			} else {
+				classes.delete(className);
+			}
+		},
+		setAttribute: (name: string, value: string) => attributes.set(name, value),
+		removeAttribute: (name: string) => attributes.delete(name),
+	};
+}
+
+test('mode switch controls: the header button is hidden or disabled for protected notes and restored otherwise', () => {
+	const modeButtonEl = createElement();
+	const view = { modeButtonEl };
+
+	applyModeButtonControl(view, 'hide', true);
+	assert.deepEqual([...modeButtonEl.classes], [MODE_BUTTON_HIDDEN_CLASS]);
+
+	applyModeButtonControl(view, 'disable', true);
+	assert.deepEqual([...modeButtonEl.classes], [MODE_BUTTON_DISABLED_CLASS]);
+	assert.equal(modeButtonEl.attributes.get('aria-disabled'), 'true');
+
+	applyModeButtonControl(view, 'disable', false);
+	assert.deepEqual([...modeButtonEl.classes], []);
+	assert.equal(modeButtonEl.attributes.has('aria-disabled'), false);
+
+	applyModeButtonControl(view, 'show', true);
+	assert.deepEqual([...modeButtonEl.classes], []);
+	applyModeButtonControl({}, 'hide', true);
+	applyModeButtonControl(null, 'hide', true);
+});
+
+test('mode switch controls: only the edit items of a view menu are hidden or disabled', () => {
+	const createItem = (title: string) => {
+		const disabled: boolean[] = [];
+		return {
+			titleEl: createElement(title),
+			dom: createElement(),
+			disabled,
+			setDisabled: (value: boolean) => disabled.push(value),
+		};
+	};
+	const items = [createItem('Edit'), createItem('Source mode'), createItem('Open in new window'), createItem('Make read-only')];
+
+	assert.equal(applyEditMenuControl({ items }, 'hide'), 2);
+	assert.deepEqual(items.map((item) => item.dom.classes.has(MODE_BUTTON_HIDDEN_CLASS)), [true, true, false, false]);
+
+	assert.equal(applyEditMenuControl({ items }, 'disable'), 2);
+	assert.deepEqual(items.map((item) => item.disabled), [[true], [true], [], []]);
+
+	assert.equal(applyEditMenuControl({ items }, 'show'), 0);
+	assert.equal(applyEditMenuControl({}, 'hide'), 0);
+});
@@ -0,0 +1,97 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import { DEFAULT_SETTINGS, type ForceReadModeSettings } from '../src/matcher.js';
+import {
+	createProfile,
+	deleteProfile,
+	getNextProfileName,
+	normalizeProfiles,
+	renameProfile,
+	switchProfile,
+	syncActiveProfile,
+} from '../src/profiles.js';
+
+function createSettings(overrides: Partial<ForceReadModeSettings> = {}): ForceReadModeSettings {
+	const settings: ForceReadModeSettings = {
+		...DEFAULT_SETTINGS,
+		includeRules: ['docs/**'],
+		excludeRules: ['docs/drafts/**'],
+		useGlobPatterns: true,
+		caseSensitive: true,
+		...overrides,
+	};
+	normalizeProfiles(settings);
+	return settings;
+}
+
+test('profiles: legacy settings without profiles get one default profile from current rules', () => {
+	const settings = createSettings();
+	assert.equal(settings.activeProfileName, 'Default');
+	assert.equal(settings.profiles.length, 1);
+	assert.deepEqual(settings.profiles[0]?.includeRules, ['docs/**']);
+	assert.deepEqual(DEFAULT_SETTINGS.profiles, []);
+});
+
+test('profiles: switching snapshots the active rules and restores the target profile', () => {
+	const settings = createSettings({
+		profiles: [
+			{ name: 'Default', ruleMode: 'include-exclude', includeRules: [], excludeRules: [], orderedRules: [], useGlobPatterns: true, caseSensitive: true },
+			{ name: 'Review week', ruleMode: 'include-exclude', includeRules: ['**'], excludeRules: [], orderedRules: [], useGlobPatterns: false, caseSensitive: false },
+		],
+	});
+	settings.includeRules = ['edited/**'];
+
+	assert.equal(switchProfile(settings, 'Review week'), true);
+	assert.equal(settings.activeProfileName, 'Review week');
+	assert.deepEqual(settings.includeRules, ['**']);
+	assert.equal(settings.useGlobPatterns, false);
+	assert.equal(settings.caseSensitive, false);
+
+	assert.equal(switchProfile(settings, 'Default'), true);
+	assert.deepEqual(settings.includeRules, ['edited/**']);
+	assert.equal(settings.useGlobPatterns, true);
+
+	assert.equal(switchProfile(settings, 'Default'), false);
+	assert.equal(switchProfile(settings, 'Missing'), false);
+});
+
+test('profiles: unknown active profile falls back to the first stored profile', () => {
+	const settings = createSettings({
+		activeProfileName: 'Gone',
+		profiles: [
+			{ name: 'Normal', ruleMode: 'include-exclude', includeRules: ['a/**'], excludeRules: [], orderedRules: [], useGlobPatterns: true, caseSensitive: true },
+		],
+	});
+	assert.equal(settings.activeProfileName, 'Normal');
+	assert.deepEqual(settings.includeRules, ['a/**']);
+});
+
+test('profiles: next profile cycles in stored order', () => {
+	const settings = createSettings();
+	assert.equal(getNextProfileName(settings), null);
+
+	const second = createProfile(settings);
+	assert.equal(second, 'Profile 2');
+	assert.equal(getNextProfileName(settings), 'Profile 2');
+	switchProfile(settings, second);
+	assert.equal(getNextProfileName(settings), 'Default');
+});
+
+test('profiles: rename keeps names unique and delete keeps at least one profile', () => {
+	const settings = createSettings();
+	const second = createProfile(settings);
+
+	assert.equal(renameProfile(settings, second, 'Default'), false);
+	assert.equal(renameProfile(settings, second, '  '), false);
+	assert.equal(renameProfile(settings, 'Default', 'Normal'), true);
+	assert.equal(settings.activeProfileName, 'Normal');
+
+	switchProfile(settings, second);
+	settings.includeRules = ['changed/**'];
+	syncActiveProfile(settings);
+	assert.equal(deleteProfile(settings, second), true);
+	assert.equal(settings.activeProfileName, 'Normal');
+	assert.deepEqual(settings.includeRules, ['docs/**']);
+	assert.equal(deleteProfile(settings, 'Normal'), false);
+});
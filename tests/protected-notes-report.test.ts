@@ -0,0 +1,60 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import { DEFAULT_SETTINGS, type ForceReadModeSettings } from '../src/matcher.js';
+import {
+	buildProtectedNotesReport,
+	countProtectedNotes,
+	describeProtectedNoteMatches,
+	filterProtectedNotesReport,
+} from '../src/protected-notes-report.js';
+
+function createSettings(overrides: Partial<ForceReadModeSettings> = {}): ForceReadModeSettings {
+	return {
+		...DEFAULT_SETTINGS,
+		enabled: true,
+		useGlobPatterns: true,
+		includeRules: ['docs/**', 'notes/pinned.md'],
+		excludeRules: ['docs/drafts/**'],
+		...overrides,
+	};
+}
+
+const paths = ['docs/b.md', 'docs/a.md', 'docs/drafts/x.md', 'notes/pinned.md', 'notes/other.md', 'root.md'];
+
+test('protected notes report: groups protected notes by folder with sorted entries', () => {
+	const groups = buildProtectedNotesReport(paths, createSettings());
+
+	assert.deepEqual(groups.map((group) => group.folder), ['docs', 'notes']);
+	assert.deepEqual(groups[0]?.entries.map((entry) => entry.name), ['a.md', 'b.md']);
+	assert.deepEqual(groups[0]?.entries[0]?.includeMatches, ['docs/**']);
+	assert.equal(countProtectedNotes(groups), 3);
+	assert.deepEqual(buildProtectedNotesReport(paths, createSettings({ enabled: false })), []);
+});
+
+test('protected notes report: tag and frontmatter matches are reported', () => {
+	const settings = createSettings({ includeRules: [], excludeRules: [], tagRules: ['locked'], useFrontmatterProperty: true });
+	const resolveMetadata = (filePath: string) => (filePath === 'root.md'
+		? { frontmatter: { readonly: true } }
+		: { tags: filePath === 'notes/other.md' ? ['#locked'] : [] });
+	const groups = buildProtectedNotesReport(paths, settings, resolveMetadata);
+
+	assert.deepEqual(groups.map((group) => group.folder), ['', 'notes']);
+	const [rootEntry] = groups[0]?.entries ?? [];
+	const [taggedEntry] = groups[1]?.entries ?? [];
+	assert.ok(rootEntry && taggedEntry);
+	assert.equal(describeProtectedNoteMatches(rootEntry, settings), 'Frontmatter: readonly = true');
+	assert.equal(describeProtectedNoteMatches(taggedEntry, settings), 'Tags: #locked · Exclude: none');
+});
+
+test('protected notes report: filter matches note paths and matched rules', () => {
+	const groups = buildProtectedNotesReport(paths, createSettings());
+
+	assert.deepEqual(
+		filterProtectedNotesReport(groups, 'PINNED').flatMap((group) => group.entries.map((entry) => entry.path)),
+		['notes/pinned.md'],
+	);
+	assert.equal(countProtectedNotes(filterProtectedNotesReport(groups, 'docs/**')), 2);
+	assert.equal(filterProtectedNotesReport(groups, '  '), groups);
+	assert.deepEqual(filterProtectedNotesReport(groups, 'missing'), []);
+});
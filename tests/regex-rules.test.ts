@@ -0,0 +1,101 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import {
+	REGEX_RULE_CACHE_CAP,
+	clearRegexRuleCache,
+	compileRegexRule,
+	findBacktrackingRisk,
+	getRegexRuleCacheSize,
+	getRegexRuleSource,
+	isRegexRule,
+} from '../src/regex-rules.js';
+
+test('regex rules: prefix detection and source extraction', () => {
+	assert.equal(isRegexRule('re:^docs/'), true);
+	assert.equal(isRegexRule('  re:^docs/'), true);
+	assert.equal(isRegexRule('docs/re:x'), false);
+	assert.equal(getRegexRuleSource(' re:^docs/\\d+\\.md$ '), '^docs/\\d+\\.md$');
+});
+
+test('regex rules: invalid, empty and oversized patterns report an error and never compile', () => {
+	assert.deepEqual(compileRegexRule('re:', true), { regex: null, error: 'Regular expression is empty.' });
+	assert.equal(compileRegexRule(`re:${'a'.repeat(501)}`, true).error, 'Regular expression is longer than 500 characters.');
+	const invalid = compileRegexRule('re:docs/(draft', true);
+	assert.equal(invalid.regex, null);
+	assert.match(invalid.error ?? '', /^Invalid regular expression: /);
+});
+
+test('regex rules: nested and overlapping repetition is rejected as a backtracking risk', () => {
+	const nested = 'Nested quantifier inside a repeated group can cause catastrophic backtracking.';
+	const overlapping = 'Overlapping alternatives inside a repeated group can cause catastrophic backtracking.';
+	assert.equal(findBacktrackingRisk('(a+)+$'), nested);
+	assert.equal(findBacktrackingRisk('^(.*)*x'), nested);
+	assert.equal(findBacktrackingRisk('(?:\\w+\\s?)*$'), nested);
+	assert.equal(findBacktrackingRisk('((ab)?c)+'), nested);
+	assert.equal(findBacktrackingRisk('(a|ab)*c'), overlapping);
+	assert.equal(findBacktrackingRisk('(\\d|x)+'), overlapping);
+	assert.equal(findBacktrackingRisk('(a|)+'), overlapping);
+
+	assert.equal(findBacktrackingRisk('^docs/(guides|specs)/[^/]+\\.md$'), null);
+	assert.equal(findBacktrackingRisk('^log/\\d{4}-\\d{2}\\.md$'), null);
+	assert.equal(findBacktrackingRisk('(ab){3}'), null);
+	assert.equal(findBacktrackingRisk('(?:[a-z]{2})+'), null);
+	assert.equal(findBacktrackingRisk('(a|b)+'), null);
+	assert.equal(compileRegexRule('re:(a+)+$', true).error, nested);
+});
+
+test('regex rules: adjacent overlapping repetition and too many unbounded quantifiers are rejected', () => {
+	const adjacent = 'Adjacent unbounded quantifiers over overlapping characters can cause catastrophic backtracking.';
+	const tooMany = 'More than 3 unbounded quantifiers (*, +, {n,} or {n,m} wider than 10) can cause catastrophic backtracking.';
+	assert.equal(findBacktrackingRisk('^a*a*a*a*a*a*a*b$'), adjacent);
+	assert.equal(findBacktrackingRisk('^\\d+.*x$'), adjacent);
+	assert.equal(findBacktrackingRisk('^(?:ab)+[a-z]{2,}$'), adjacent);
+	assert.equal(findBacktrackingRisk('^.*a.*a.*a.*a.*a.*a.*b$'), tooMany);
+	assert.equal(compileRegexRule('re:^a*a*a*a*a*a*a*b$', true).error, adjacent);
+	assert.equal(compileRegexRule('re:^.*a.*a.*a.*a.*a.*a.*b$', true).error, tooMany);
+
+	assert.equal(findBacktrackingRisk('^a*b*c$'), null);
+	assert.equal(findBacktrackingRisk('^[^/]+/.*\\.md$'), null);
+	assert.equal(findBacktrackingRisk('^docs/.*/drafts/.*\\.md$'), null);
+	assert.equal(findBacktrackingRisk('a+|a+'), null);
+	assert.equal(findBacktrackingRisk('^a*?x*$'), null);
+});
+
+test('regex rules: wide bounded ranges count as unbounded and optional atoms do not separate repetitions', () => {
+	const adjacent = 'Adjacent unbounded quantifiers over overlapping characters can cause catastrophic backtracking.';
+	const tooMany = 'More than 3 unbounded quantifiers (*, +, {n,} or {n,m} wider than 10) can cause catastrophic backtracking.';
+	assert.equal(compileRegexRule('re:.{0,200}.{0,200}.{0,200}.{0,200}b', true).error, adjacent);
+	assert.equal(findBacktrackingRisk('^x.{0,200}a.{0,200}a.{0,200}a.{0,200}b$'), tooMany);
+	assert.equal(compileRegexRule('re:a*b?a*b?a*c', true).error, adjacent);
+	assert.equal(findBacktrackingRisk('a+b{0,3}a+'), adjacent);
+	assert.equal(findBacktrackingRisk('a+(?:bc)?a+'), adjacent);
+
+	assert.equal(findBacktrackingRisk('^\\d{1,4}-\\d{1,2}\\.md$'), null);
+	assert.equal(findBacktrackingRisk('^[a-z]{0,10}/.*$'), null);
+	assert.equal(findBacktrackingRisk('a*b{1,3}a*'), null);
+	assert.equal(findBacktrackingRisk('a*bc?a*'), null);
+});
+
+test('regex rules: case-insensitive matching uses the i flag instead of folding the source', () => {
+	const insensitive = compileRegexRule('re:^Docs/\\D+\\.md$', false).regex;
+	assert.equal(insensitive?.test('docs/Intro.md'), true);
+	assert.equal(insensitive?.test('docs/123.md'), false);
+	assert.equal(compileRegexRule('re:^Docs/', true).regex?.test('docs/a.md'), false);
+});
+
+test('regex rules: compiled rules and errors are cached with a FIFO cap', () => {
+	clearRegexRuleCache();
+	const first = compileRegexRule('re:^a', true);
+	assert.equal(compileRegexRule('re:^a', true), first);
+	assert.notEqual(compileRegexRule('re:^a', false), first);
+	const invalid = compileRegexRule('re:(', true);
+	assert.equal(compileRegexRule('re:(', true), invalid);
+	assert.equal(getRegexRuleCacheSize(), 3);
+
+	for (let index = 0; index < REGEX_RULE_CACHE_CAP + 10; index++) {
+		compileRegexRule(`re:^n${index}`, true);
+	}
+	assert.equal(getRegexRuleCacheSize(), REGEX_RULE_CACHE_CAP);
+	assert.notEqual(compileRegexRule('re:^a', true), first);
+});
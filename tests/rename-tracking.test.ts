@@ -0,0 +1,30 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import { createRenameTrackingService } from '../src/rename-tracking.js';
+import type { PathRename } from '../src/rule-actions.js';
+
+test('rename tracking: a folder rename and its descendants produce one batch', async () => {
+	const batches: PathRename[][] = [];
+	const service = createRenameTrackingService({ onRenames: (renames) => batches.push(renames) });
+
+	service.trackRename('project_a', 'project_alpha');
+	service.trackRename('project_a/notes/a.md', 'project_alpha/notes/a.md');
+	service.trackRename('inbox/b.md', 'archive/b.md');
+	await new Promise((resolve) => setTimeout(resolve, 250));
+
+	assert.deepEqual(batches, [[
+		{ oldPath: 'project_a', newPath: 'project_alpha' },
+		{ oldPath: 'inbox/b.md', newPath: 'archive/b.md' },
+	]]);
+});
+
+test('rename tracking: clear drops pending renames', async () => {
+	const batches: PathRename[][] = [];
+	const service = createRenameTrackingService({ onRenames: (renames) => batches.push(renames) });
+
+	service.trackRename('a.md', 'b.md');
+	service.clear();
+	await new Promise((resolve) => setTimeout(resolve, 250));
+	assert.deepEqual(batches, []);
+});
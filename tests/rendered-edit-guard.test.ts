@@ -0,0 +1,164 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import { createRenderedEditGuardService, isRenderedEditTarget, type RenderedEditBlockKind } from '../src/rendered-edit-guard.js';
+
+function createHarness(protectedPaths: string[]) {
+	let now = 1_000;
+	const files = new Map<string, string>();
+	const writes: Array<{ path: string; content: string }> = [];
+	const blocked: Array<{ path: string; kind: RenderedEditBlockKind }> = [];
+	const protectedSet = new Set(protectedPaths);
+	const service = createRenderedEditGuardService({
+		isProtectedPath: (path) => protectedSet.has(path),
+		readFile: (path) => Promise.resolve(files.get(path) ?? null),
+		writeFile: (path, content) => {
+			writes.push({ path, content });
+			files.set(path, content);
+			return Promise.resolve();
+		},
+		onBlocked: (path, kind) => blocked.push({ path, kind }),
+		now: () => now,
+	});
+	return {
+		service,
+		files,
+		writes,
+		blocked,
+		protectedSet,
+		advance: (ms: number) => {
+			now += ms;
+		},
+	};
+}
+
+type FakeElement = { tokens: string[]; parent: FakeElement | null; closest: (selector: string) => FakeElement | null };
+
+// Supports the selector forms the guard uses: `.class`, `tag`, `[attribute]` and `ancestor descendant`.
+function createElement(tokens: string[], parent: FakeElement | null = null): FakeElement {
+	const element: FakeElement = {
+		tokens,
+		parent,
+		closest: (selector) => {
+			const matchesPart = (candidate: FakeElement, part: string): boolean => {
+				const [ancestor, own] = part.includes(' ') ? part.split(' ') : [null, part];
+				if (!own || !candidate.tokens.includes(own)) {
+					return false;
+				}
+				for (let current = candidate.parent; ancestor && current; current = current.parent) {
+					if (current.tokens.includes(ancestor)) {
+						return true;
+					}
+				}
+				return ancestor === null;
+			};
+			for (let current: FakeElement | null = element; current; current = current.parent) {
+				const candidate = current;
+				if (selector.split(',').some((part) => matchesPart(candidate, part.trim()))) {
+					return candidate;
+				}
+			}
+			return null;
+		},
+	};
+	return element;
+}
+
+test('rendered edit guard: property edit controls and checkboxes are edit targets, links and tags are not', () => {
+	const container = createElement(['.metadata-container']);
+	const property = createElement(['.metadata-property'], container);
+	const value = createElement(['.metadata-property-value'], property);
+
+	assert.equal(isRenderedEditTarget(createElement(['input', '.metadata-property-key-input'], createElement(['.metadata-property-key'], property))), true);
+	assert.equal(isRenderedEditTarget(createElement(['input', '.metadata-input-checkbox'], value)), true);
+	assert.equal(isRenderedEditTarget(createElement(['div', '[contenteditable]', '.multi-select-input'], value)), true);
+	assert.equal(isRenderedEditTarget(createElement(['span'], createElement(['.multi-select-pill-remove-button'], value))), true);
+	assert.equal(isRenderedEditTarget(createElement(['.metadata-add-button'], container)), true);
+	assert.equal(isRenderedEditTarget(createElement(['input', '.task-list-item-checkbox'])), true);
+
+	const pill = createElement(['.multi-select-pill'], value);
+	assert.equal(isRenderedEditTarget(createElement(['span'], createElement(['.multi-select-pill-content'], pill))), false);
+	assert.equal(isRenderedEditTarget(createElement(['.metadata-link-inner', '.internal-link'], createElement(['.metadata-link'], value))), false);
+	assert.equal(isRenderedEditTarget(createElement(['a', '.tag'], value)), false);
+	assert.equal(isRenderedEditTarget(createElement(['.metadata-properties-heading'], container)), false);
+});
+
+function createEvent() {
+	const calls: string[] = [];
+	const event = {
+		preventDefault: () => calls.push('preventDefault'),
+		stopPropagation: () => calls.push('stopPropagation'),
+	} as unknown as Event;
+	return { event, calls };
+}
+
+test('rendered edit guard: interactions in protected notes are cancelled, others pass through', () => {
+	const { service, blocked } = createHarness(['docs/a.md']);
+	const protectedEvent = createEvent();
+	const editableEvent = createEvent();
+
+	assert.equal(service.handleInteraction('./docs/a.md', protectedEvent.event), true);
+	assert.deepEqual(protectedEvent.calls, ['preventDefault', 'stopPropagation']);
+	assert.equal(service.handleInteraction('notes/b.md', editableEvent.event), false);
+	assert.deepEqual(editableEvent.calls, []);
+	assert.deepEqual(blocked, [{ path: 'docs/a.md', kind: 'interaction' }]);
+});
+
+test('rendered edit guard: a change right after an interaction is reverted to the snapshot', async () => {
+	const { service, files, writes, blocked, advance } = createHarness(['docs/a.md']);
+	files.set('docs/a.md', '- [ ] task');
+	await service.trackPath('docs/a.md');
+
+	service.handleInteraction('docs/a.md', createEvent().event);
+	advance(500);
+	files.set('docs/a.md', '- [x] task');
+	assert.equal(await service.handleModify('docs/a.md'), true);
+	assert.equal(files.get('docs/a.md'), '- [ ] task');
+	assert.deepEqual(writes, [{ path: 'docs/a.md', content: '- [ ] task' }]);
+	assert.deepEqual(blocked.map((entry) => entry.kind), ['interaction', 'revert']);
+
+	// The revert itself triggers another modify event, which matches the snapshot.
+	assert.equal(await service.handleModify('docs/a.md'), false);
+});
+
+test('rendered edit guard: changes without a recent interaction are accepted as the new snapshot', async () => {
+	const { service, files, writes, protectedSet, advance } = createHarness(['docs/a.md']);
+	files.set('docs/a.md', 'v1');
+	await service.trackPath('docs/a.md');
+
+	files.set('docs/a.md', 'v2 from sync');
+	assert.equal(await service.handleModify('docs/a.md'), false);
+
+	service.handleInteraction('docs/a.md', createEvent().event);
+	advance(5_000);
+	files.set('docs/a.md', 'v3');
+	assert.equal(await service.handleModify('docs/a.md'), false);
+
+	service.handleInteraction('docs/a.md', createEvent().event);
+	protectedSet.delete('docs/a.md');
+	files.set('docs/a.md', 'v4 after unlock');
+	assert.equal(await service.handleModify('docs/a.md'), false);
+	assert.deepEqual(writes, []);
+});
+
+test('rendered edit guard: snapshots follow renames and are dropped for deleted or unprotected notes', async () => {
+	const { service, files, writes } = createHarness(['docs/a.md', 'docs/c.md']);
+	files.set('docs/a.md', 'original');
+	files.set('notes/b.md', 'editable');
+	await service.trackPath('docs/a.md');
+	await service.trackPath('notes/b.md');
+
+	service.renamePath('docs/a.md', 'docs/c.md');
+	service.handleInteraction('docs/c.md', createEvent().event);
+	files.set('docs/c.md', 'changed');
+	assert.equal(await service.handleModify('docs/c.md'), true);
+	assert.equal(files.get('docs/c.md'), 'original');
+
+	files.set('notes/b.md', 'changed');
+	assert.equal(await service.handleModify('notes/b.md'), false);
+
+	service.forgetPath('docs/c.md');
+	files.set('docs/c.md', 'changed again');
+	assert.equal(await service.handleModify('docs/c.md'), false);
+	assert.equal(writes.length, 1);
+});
@@ -0,0 +1,204 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import { RULE_LIMIT_INCLUDE_MAX } from '../src/constants.js';
+import { DEFAULT_SETTINGS, type ForceReadModeSettings } from '../src/matcher.js';
+import {
+	appendRules,
+	appendRulesForPaths,
+	applyRuleRenames,
+	buildRuleForPath,
+	formatAppendRulesSummary,
+	formatRuleRenameSummary,
+	planRuleRenames,
+	removeRules,
+} from '../src/rule-actions.js';
+
+function createSettings(overrides: Partial<ForceReadModeSettings> = {}): ForceReadModeSettings {
+	return {
+		...DEFAULT_SETTINGS,
+		enabled: true,
+		includeRules: [],
+		excludeRules: [],
+		...overrides,
+	};
+}
+
+test('rule actions: folder and note rules follow the matching mode', () => {
+	assert.equal(buildRuleForPath({ path: 'docs/guides', isFolder: true }, true), 'docs/guides/**');
+	assert.equal(buildRuleForPath({ path: 'docs/guides/', isFolder: true }, false), 'docs/guides/');
+	assert.equal(buildRuleForPath({ path: './docs//a.md', isFolder: false }, true), 'docs/a.md');
+	assert.equal(buildRuleForPath({ path: 'docs/a.md', isFolder: false }, false), 'docs/a.md');
+});
+
+test('rule actions: appending skips rules that are already present after normalization', () => {
+	const settings = createSettings({ useGlobPatterns: false, includeRules: ['docs', 'notes/a.md'] });
+	const result = appendRulesForPaths(settings, 'include', [
+		{ path: 'docs', isFolder: true },
+		{ path: 'notes/a.md', isFolder: false },
+		{ path: 'archive', isFolder: true },
+		{ path: 'archive', isFolder: true },
+	]);
+
+	assert.deepEqual(result.added, ['archive/']);
+	assert.deepEqual(result.duplicates, ['docs/', 'notes/a.md', 'archive/']);
+	assert.deepEqual(result.rules, ['docs', 'notes/a.md', 'archive/']);
+	assert.deepEqual(settings.includeRules, ['docs', 'notes/a.md']);
+});
+
+test('rule actions: duplicate detection honors case sensitivity', () => {
+	const settings = createSettings({ useGlobPatterns: true, caseSensitive: false, excludeRules: ['Docs/**'] });
+	const result = appendRulesForPaths(settings, 'exclude', [{ path: 'docs', isFolder: true }]);
+	assert.deepEqual(result.added, []);
+	assert.deepEqual(result.duplicates, ['docs/**']);
+});
+
+test('rule actions: rules beyond the hard cap are rejected instead of added', () => {
+	const includeRules = Array.from({ length: RULE_LIMIT_INCLUDE_MAX }, (_, index) => `folder-${index}/**`);
+	const settings = createSettings({ useGlobPatterns: true, includeRules });
+	const result = appendRulesForPaths(settings, 'include', [{ path: 'docs', isFolder: true }]);
+
+	assert.deepEqual(result.added, []);
+	assert.deepEqual(result.rejectedByLimit, ['docs/**']);
+	assert.equal(result.rules.length, RULE_LIMIT_INCLUDE_MAX);
+	assert.match(formatAppendRulesSummary('include', result), /rule limit reached: docs\/\*\*/);
+});
+
+test('rule actions: diagnostics warnings for added rules are reported', () => {
+	const settings = createSettings({ useGlobPatterns: false });
+	const result = appendRulesForPaths(settings, 'include', [{ path: 'drafts/what?.md', isFolder: false }]);
+
+	assert.deepEqual(result.added, ['drafts/what?.md']);
+	assert.equal(result.warnings.length, 1);
+	assert.match(result.warnings[0] ?? '', /treated as a literal character/);
+	assert.equal(
+		formatAppendRulesSummary('include', result).split('\n')[0],
+		'Added 1 include rule: drafts/what?.md',
+	);
+});
+
+test('rule renames: rules whose literal prefix points at the renamed path are rewritten', () => {
+	const settings = createSettings({
+		useGlobPatterns: true,
+		includeRules: ['project_a/**', 'project_a/notes/*.md', 'project_ab/**', 'project_a*/**', '**/project_a/**'],
+		excludeRules: ['project_a/drafts/**'],
+	});
+	const changes = planRuleRenames(settings, [{ oldPath: 'project_a', newPath: 'project_alpha' }]);
+
+	assert.deepEqual(changes.map((change) => `${change.list}:${change.from}->${change.to}`), [
+		'include:project_a/**->project_alpha/**',
+		'include:project_a/notes/*.md->project_alpha/notes/*.md',
+		'exclude:project_a/drafts/**->project_alpha/drafts/**',
+	]);
+});
+
+test('rule renames: prefix mode, file renames and case-insensitive matching', () => {
+	const prefix = createSettings({ useGlobPatterns: false, includeRules: ['project_a', 'project_a/'] });
+	assert.deepEqual(
+		planRuleRenames(prefix, [{ oldPath: 'project_a', newPath: 'archive/project_a' }]).map((change) => change.to),
+		['archive/project_a', 'archive/project_a/'],
+	);
+
+	const files = createSettings({ useGlobPatterns: true, caseSensitive: false, includeRules: ['Notes/Plan.md'] });
+	assert.deepEqual(
+		planRuleRenames(files, [{ oldPath: 'notes/plan.md', newPath: 'notes/roadmap.md' }]).map((change) => change.to),
+		['notes/roadmap.md'],
+	);
+});
+
+test('rule renames: inactive profiles are rewritten and the summary names them', () => {
+	const settings = createSettings({
+		useGlobPatterns: true,
+		includeRules: ['docs/**'],
+		activeProfileName: 'Default',
+		profiles: [
+			{ name: 'Default', ruleMode: 'include-exclude', includeRules: ['docs/**'], excludeRules: [], orderedRules: [], useGlobPatterns: true, caseSensitive: true },
+			{ name: 'Review', ruleMode: 'include-exclude', includeRules: [], excludeRules: ['docs'], orderedRules: [], useGlobPatterns: false, caseSensitive: true },
+		],
+	});
+	const changes = planRuleRenames(settings, [{ oldPath: 'docs', newPath: 'handbook' }]);
+	applyRuleRenames(settings, changes);
+
+	assert.deepEqual(settings.includeRules, ['handbook/**']);
+	assert.deepEqual(settings.profiles[1]?.excludeRules, ['handbook']);
+	assert.equal(formatRuleRenameSummary(changes, settings), [
+		'Updated 2 rules after rename:',
+		'docs/** → handbook/**',
+		'docs → handbook (Review)',
+	].join('\n'));
+});
+
+test('rule actions: ordered mode appends signed rules that win over earlier lines', () => {
+	const settings = createSettings({
+		useGlobPatterns: true,
+		ruleMode: 'ordered',
+		orderedRules: ['docs/**', '!docs/drafts/**'],
+	});
+	const excluded = appendRulesForPaths(settings, 'exclude', [
+		{ path: 'docs/drafts', isFolder: true },
+		{ path: 'docs/private', isFolder: true },
+	]);
+	assert.deepEqual(excluded.added, ['!docs/private/**']);
+	assert.deepEqual(excluded.duplicates, ['!docs/drafts/**']);
+
+	const included = appendRulesForPaths(settings, 'include', [{ path: 'docs/drafts', isFolder: true }]);
+	assert.deepEqual(included.added, ['docs/drafts/**']);
+	assert.deepEqual(included.rules, ['docs/**', '!docs/drafts/**', 'docs/drafts/**']);
+	assert.deepEqual(settings.includeRules, []);
+});
+
+test('rule renames: ordered rules keep their negation when rewritten', () => {
+	const settings = createSettings({
+		useGlobPatterns: true,
+		ruleMode: 'ordered',
+		orderedRules: ['project_a/**', '!project_a/drafts/**', 'other/**'],
+	});
+	const changes = planRuleRenames(settings, [{ oldPath: 'project_a', newPath: 'project_alpha' }]);
+	assert.deepEqual(changes.map((change) => `${change.list}:${change.from}->${change.to}`), [
+		'ordered:project_a/**->project_alpha/**',
+		'ordered:!project_a/drafts/**->!project_alpha/drafts/**',
+	]);
+
+	applyRuleRenames(settings, changes);
+	assert.deepEqual(settings.orderedRules, ['project_alpha/**', '!project_alpha/drafts/**', 'other/**']);
+});
+
+test('rule actions: glob rules escape special characters in note and folder names', () => {
+	assert.equal(buildRuleForPath({ path: 'Meetings [2024]', isFolder: true }, true), 'Meetings \\[2024\\]/**');
+	assert.equal(buildRuleForPath({ path: 'notes/{draft}*.md', isFolder: false }, true), 'notes/\\{draft\\}\\*.md');
+	assert.equal(buildRuleForPath({ path: 'Meetings [2024]', isFolder: true }, false), 'Meetings [2024]/');
+
+	const settings = createSettings({ useGlobPatterns: true, includeRules: ['Meetings \\[2024\\]/**', 'Meetings \\[2024\\]/{a,b}.md'] });
+	const changes = planRuleRenames(settings, [{ oldPath: 'Meetings [2024]', newPath: 'Meetings (2024)' }]);
+	assert.deepEqual(changes.map((change) => change.to), ['Meetings (2024)/**', 'Meetings (2024)/{a,b}.md']);
+});
+
+test('rule renames: regex rules are never rewritten', () => {
+	const settings = createSettings({ useGlobPatterns: true, includeRules: ['re:^project_a/', 'project_a/**'] });
+	const changes = planRuleRenames(settings, [{ oldPath: 'project_a', newPath: 'project_b' }]);
+	assert.deepEqual(changes.map((change) => change.to), ['project_b/**']);
+});
+
+test('rule renames: mode prefixes are kept when the path part is rewritten', () => {
+	const settings = createSettings({ useGlobPatterns: true, includeRules: ['live:project_a/**', 'source:re:^project_a/'] });
+	const changes = planRuleRenames(settings, [{ oldPath: 'project_a', newPath: 'project_b' }]);
+	assert.deepEqual(changes.map((change) => change.to), ['live:project_b/**']);
+});
+
+test('rule actions: single rules are normalized on add and removed by equivalent text', () => {
+	const settings = createSettings({ useGlobPatterns: true, caseSensitive: false, includeRules: ['Docs/**', 'notes/a.md'] });
+	const added = appendRules(settings, 'include', ['./archive//**', 'docs/**']);
+	assert.deepEqual(added.added, ['archive/**']);
+	assert.deepEqual(added.duplicates, ['docs/**']);
+
+	const removed = removeRules(settings, 'include', ['./docs/**', 'missing/**']);
+	assert.deepEqual(removed.removed, ['Docs/**']);
+	assert.deepEqual(removed.rules, ['notes/a.md']);
+});
+
+test('rule actions: ordered mode removes only lines with the sign of the target list', () => {
+	const settings = createSettings({ useGlobPatterns: true, ruleMode: 'ordered', orderedRules: ['docs/**', '!docs/**', 'notes/**'] });
+	assert.deepEqual(removeRules(settings, 'exclude', ['docs/**']).rules, ['docs/**', 'notes/**']);
+	assert.deepEqual(removeRules(settings, 'include', ['docs/**']).rules, ['!docs/**', 'notes/**']);
+	assert.deepEqual(appendRules(settings, 'exclude', ['notes/**']).added, ['!notes/**']);
+});
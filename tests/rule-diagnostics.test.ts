@@ -1,7 +1,15 @@
 import assert from 'node:assert/strict';
 import test from 'node:test';
 
-import { buildPathTesterResult, buildRuleDiagnostics } from '../src/rule-diagnostics.js';
+import {
+	buildOrderedRuleDiagnostics,
+	buildPathTesterLines,
+	buildPathTesterResult,
+	buildRuleDiagnostics,
+	buildRuleDiagnosticsWithIgnoredLines,
+	buildTagRuleDiagnostics,
+	describeDecidingRule,
+} from '../src/rule-diagnostics.js';
 import { DEFAULT_SETTINGS } from '../src/matcher.js';
 
 test('empty diagnostic line stays empty in prefix mode and keeps empty-line warning', () => {
@@ -87,3 +95,346 @@ test('path tester uses effective rules and does not match ignored tail rules', (
 	assert.deepEqual(result.includeMatches, []);
 	assert.equal(result.finalReadOnly, false);
 });
+
+test('path tester reports frontmatter override when the property decides the result', () => {
+	const settings = {
+		...DEFAULT_SETTINGS,
+		enabled: true,
+		useGlobPatterns: true,
+		caseSensitive: true,
+		includeRules: ['docs/**'],
+		excludeRules: [],
+		useFrontmatterProperty: true,
+		frontmatterPropertyName: 'readonly',
+	};
+	const resolveMetadata = (filePath: string) => ({
+		frontmatter: filePath === 'docs/draft.md' ? { readonly: false } : null,
+	});
+
+	const unlocked = buildPathTesterResult('docs/draft.md', settings, resolveMetadata);
+	assert.deepEqual(unlocked.includeMatches, ['docs/**']);
+	assert.equal(unlocked.frontmatterOverride, 'unlock');
+	assert.equal(unlocked.finalReadOnly, false);
+
+	const byRules = buildPathTesterResult('docs/guide.md', settings, resolveMetadata);
+	assert.equal(byRules.frontmatterOverride, null);
+	assert.equal(byRules.finalReadOnly, true);
+});
+
+test('tag diagnostics normalize tags and flag empty, spaced and duplicate entries', () => {
+	const diagnostics = buildTagRuleDiagnostics('#locked\n\nstatus final\nLocked\n#');
+	assert.equal(diagnostics.length, 5);
+	assert.equal(diagnostics[0]?.normalized, '#locked');
+	assert.equal(diagnostics[0]?.isOk, true);
+	assert.equal(diagnostics[1]?.warnings.includes('Empty or whitespace-only line.'), true);
+	assert.equal(diagnostics[2]?.warnings.includes('Tags cannot contain spaces. This rule never matches.'), true);
+	assert.equal(diagnostics[3]?.warnings.includes('Duplicate of line 1.'), true);
+	assert.equal(diagnostics[4]?.warnings.includes('Tag rule has no tag name.'), true);
+});
+
+test('path tester lists matched tag rules', () => {
+	const settings = {
+		...DEFAULT_SETTINGS,
+		enabled: true,
+		useGlobPatterns: true,
+		includeRules: [],
+		excludeRules: [],
+		tagRules: ['status'],
+	};
+	const result = buildPathTesterResult('inbox/note.md', settings, () => ({ tags: ['#status/final'] }));
+	assert.deepEqual(result.includeMatches, []);
+	assert.deepEqual(result.tagMatches, ['status']);
+	assert.equal(result.finalReadOnly, true);
+});
+
+test('deciding rule names the frontmatter property, exclude, include or tag rule that decided', () => {
+	const settings = {
+		...DEFAULT_SETTINGS,
+		enabled: true,
+		useGlobPatterns: true,
+		caseSensitive: true,
+		includeRules: ['docs/**'],
+		excludeRules: ['docs/drafts/**'],
+		tagRules: ['locked'],
+		useFrontmatterProperty: true,
+	};
+	const resolveMetadata = (filePath: string) => ({
+		frontmatter: filePath === 'docs/pinned.md' ? { readonly: true } : null,
+		tags: filePath === 'inbox/note.md' ? ['#locked'] : [],
+	});
+	const describe = (filePath: string) => describeDecidingRule(
+		buildPathTesterResult(filePath, settings, resolveMetadata),
+		settings,
+	);
+
+	assert.equal(describe('docs/pinned.md'), 'Frontmatter property: readonly');
+	assert.equal(describe('docs/drafts/a.md'), 'Exclude rule: docs/drafts/**');
+	assert.equal(describe('docs/guide.md'), 'Include rule: docs/**');
+	assert.equal(describe('inbox/note.md'), 'Tag rule: #locked');
+	assert.equal(describe('other/note.md'), 'No matching rule');
+	assert.equal(
+		describeDecidingRule(buildPathTesterResult('docs/guide.md', settings, resolveMetadata), { ...settings, enabled: false }),
+		'Plugin disabled',
+	);
+});
+
+test('path tester lines list matches and the final result', () => {
+	const settings = {
+		...DEFAULT_SETTINGS,
+		enabled: true,
+		useGlobPatterns: true,
+		includeRules: ['docs/**'],
+		excludeRules: [],
+	};
+	assert.deepEqual(buildPathTesterLines(buildPathTesterResult('docs/a.md', settings), settings), [
+		'Matched include: docs/**',
+		'Matched exclude: none',
+		'Result: READ-ONLY ON',
+	]);
+});
+
+test('rule analysis flags exact duplicates even without vault paths', () => {
+	const settings = { ...DEFAULT_SETTINGS, useGlobPatterns: false };
+	const diagnostics = buildRuleDiagnosticsWithIgnoredLines('docs\ndocs/\nnotes/', false, new Set<number>(), {
+		list: 'include',
+		settings,
+		includeRules: [],
+	});
+	assert.equal(diagnostics[0]?.warnings.some((warning) => warning.startsWith('Duplicate')), false);
+	assert.equal(diagnostics[1]?.warnings.includes('Duplicate of line 1.'), true);
+	assert.equal(diagnostics[2]?.isOk, true);
+});
+
+test('rule analysis reports unused and shadowed include rules against vault paths', () => {
+	const vaultPaths = ['docs/a.md', 'docs/guides/b.md', 'notes/c.md'];
+	const settings = { ...DEFAULT_SETTINGS, useGlobPatterns: true };
+	const diagnostics = buildRuleDiagnosticsWithIgnoredLines(
+		'docs/**\ndocs/guides/**\narchive/**\nnotes/*.md\nnotes/**',
+		true,
+		new Set<number>(),
+		{ list: 'include', settings, includeRules: [], vaultPaths },
+	);
+
+	assert.equal(diagnostics[0]?.isOk, true);
+	assert.deepEqual(diagnostics[1]?.warnings, ['Every note it matches is also matched by line 1 (docs/**).']);
+	assert.deepEqual(diagnostics[2]?.warnings, ['Matches no note in the vault.']);
+	assert.equal(diagnostics[3]?.isOk, true);
+	assert.deepEqual(diagnostics[4]?.warnings, ['Every note it matches is also matched by line 4 (notes/*.md).']);
+});
+
+test('rule analysis reports exclude rules that never intersect included notes', () => {
+	const vaultPaths = ['docs/a.md', 'docs/drafts/b.md', 'notes/c.md', 'inbox/tagged.md'];
+	const settings = { ...DEFAULT_SETTINGS, useGlobPatterns: true, tagRules: ['locked'] };
+	const resolveMetadata = (filePath: string) => ({ tags: filePath === 'inbox/tagged.md' ? ['#locked'] : [] });
+	const diagnostics = buildRuleDiagnosticsWithIgnoredLines(
+		'docs/drafts/**\nnotes/**\ninbox/**\nmissing/**',
+		true,
+		new Set<number>(),
+		{ list: 'exclude', settings, includeRules: ['docs/**'], vaultPaths, resolveMetadata },
+	);
+
+	assert.equal(diagnostics[0]?.isOk, true);
+	assert.deepEqual(diagnostics[1]?.warnings, [
+		'Never excludes a protected note: no include or tag rule matches the notes it matches.',
+	]);
+	assert.equal(diagnostics[2]?.isOk, true);
+	assert.deepEqual(diagnostics[3]?.warnings, ['Matches no note in the vault.']);
+});
+
+test('rule analysis skips lines ignored by the hard caps', () => {
+	const settings = { ...DEFAULT_SETTINGS, useGlobPatterns: true };
+	const diagnostics = buildRuleDiagnosticsWithIgnoredLines('docs/**\nmissing/**', true, new Set([1]), {
+		list: 'include',
+		settings,
+		includeRules: [],
+		vaultPaths: ['docs/a.md'],
+	});
+	assert.deepEqual(diagnostics[1]?.warnings, ['Ignored due to rule limit.']);
+});
+
+test('ordered path tester lists every step and names the last match as deciding rule', () => {
+	const settings = {
+		...DEFAULT_SETTINGS,
+		enabled: true,
+		useGlobPatterns: true,
+		ruleMode: 'ordered' as const,
+		orderedRules: ['docs/**', '!docs/drafts/**', 'notes/**'],
+	};
+	const result = buildPathTesterResult('docs/drafts/a.md', settings);
+
+	assert.deepEqual(result.includeMatches, ['docs/**']);
+	assert.deepEqual(result.excludeMatches, ['docs/drafts/**']);
+	assert.equal(describeDecidingRule(result, settings), 'Rule 2: !docs/drafts/**');
+	assert.deepEqual(buildPathTesterLines(result, settings), [
+		'Evaluation order:',
+		'  1. docs/**: matches, locks',
+		'  2. !docs/drafts/**: matches, unlocks ← last match wins',
+		'  3. notes/**: no match',
+		'Result: READ-ONLY OFF',
+	]);
+	assert.equal(describeDecidingRule(buildPathTesterResult('other.md', settings), settings), 'No matching rule');
+});
+
+test('ordered diagnostics keep the sign and flag bare, dangling and duplicate negations', () => {
+	const settings = { ...DEFAULT_SETTINGS, useGlobPatterns: true, tagRules: [] };
+	const diagnostics = buildOrderedRuleDiagnostics('!docs/drafts/**\ndocs/**\n!\n!docs/drafts/**\n!docs/drafts/**\n\\!x/**', true, new Set<number>(), {
+		list: 'ordered',
+		settings,
+		includeRules: [],
+	});
+
+	assert.deepEqual(diagnostics[0]?.warnings, ['Nothing above this line locks a note, so this negation has no effect.']);
+	assert.equal(diagnostics[0]?.normalized, '!docs/drafts/**');
+	assert.equal(diagnostics[1]?.isOk, true);
+	assert.deepEqual(diagnostics[2]?.warnings, ['Negation without a pattern.']);
+	assert.equal(diagnostics[3]?.isOk, true);
+	assert.deepEqual(diagnostics[4]?.warnings, ['Duplicate of line 4.']);
+	assert.equal(diagnostics[5]?.normalized, '\\!x/**');
+});
+
+test('ordered diagnostics report rules that never decide against vault paths', () => {
+	const vaultPaths = ['docs/a.md', 'docs/drafts/b.md'];
+	const settings = { ...DEFAULT_SETTINGS, useGlobPatterns: true };
+	const diagnostics = buildOrderedRuleDiagnostics('docs/drafts/**\n!docs/**\narchive/**', true, new Set<number>(), {
+		list: 'ordered',
+		settings,
+		includeRules: [],
+		vaultPaths,
+	});
+
+	assert.deepEqual(diagnostics[0]?.warnings, ['Never decides: every note it matches is matched again by line 2 (!docs/**).']);
+	assert.deepEqual(diagnostics[1]?.warnings, []);
+	assert.deepEqual(diagnostics[2]?.warnings, ['Matches no note in the vault.']);
+});
+
+test('glob diagnostics report unclosed and invalid constructs but keep escapes as written', () => {
+	const diagnostics = buildRuleDiagnostics('notes/[draft.md\nlog/[z-a].md\nnotes/\\[draft\\].md\ndocs/{a,b}/*.md', true);
+	assert.deepEqual(diagnostics[0]?.warnings, ['Unclosed "[" at position 7 is matched literally.']);
+	assert.deepEqual(diagnostics[1]?.warnings, ['Character class range "z-a" is reversed. The class is matched literally.']);
+	assert.equal(diagnostics[2]?.isOk, true);
+	assert.equal(diagnostics[2]?.normalized, 'notes/\\[draft\\].md');
+	assert.equal(diagnostics[3]?.isOk, true);
+	assert.equal(buildRuleDiagnostics('notes/[draft.md', false)[0]?.isOk, true);
+});
+
+test('regex diagnostics report invalid and risky expressions per line and skip path checks', () => {
+	const diagnostics = buildRuleDiagnostics('re:^docs/(draft\nre:(a+)+$\nre:^journal/\\d+\\.md$\nre:^Docs', false);
+	assert.match(diagnostics[0]?.warnings[0] ?? '', /^Invalid regular expression: .* This rule never matches\.$/);
+	assert.deepEqual(diagnostics[1]?.warnings, [
+		'Nested quantifier inside a repeated group can cause catastrophic backtracking. This rule never matches.',
+	]);
+	assert.equal(diagnostics[2]?.isOk, true);
+	assert.equal(diagnostics[2]?.normalized, 're:^journal/\\d+\\.md$');
+	assert.equal(diagnostics[3]?.normalized, 're:^Docs');
+
+	const ordered = buildOrderedRuleDiagnostics('!re:(', true, new Set<number>());
+	assert.match(ordered[0]?.warnings[0] ?? '', /^Invalid regular expression: /);
+});
+
+test('regex rules are compared exactly when case-insensitive analysis looks for duplicates', () => {
+	const settings = { ...DEFAULT_SETTINGS, caseSensitive: false };
+	const diagnostics = buildRuleDiagnosticsWithIgnoredLines('re:\\d\nre:\\D\nre:\\d', true, new Set<number>(), {
+		list: 'include',
+		settings,
+		includeRules: [],
+	});
+	assert.deepEqual(diagnostics.map((entry) => entry.warnings), [[], [], ['Duplicate of line 1.']]);
+});
+
+test('mode prefix diagnostics: folder hint, unknown and empty prefixes, exclude and negation warnings', () => {
+	const diagnostics = buildRuleDiagnostics('live:dashboards\nlvie:dashboards/\nsource:\nsource:re:(a+)+', false);
+	assert.equal(diagnostics[0]?.normalized, 'live:dashboards/');
+	assert.deepEqual(diagnostics[0]?.warnings, ['Prefix mode folder hint applied: "live:dashboards/".']);
+	assert.deepEqual(diagnostics[1]?.warnings, ['Unknown prefix "lvie:". Use reading:, locked:, append:, frontmatter:, live:, source: or re:.']);
+	assert.deepEqual(diagnostics[2]?.warnings, ['Mode prefix without a pattern.']);
+	assert.deepEqual(diagnostics[3]?.warnings, [
+		'Nested quantifier inside a repeated group can cause catastrophic backtracking. This rule never matches.',
+	]);
+
+	const settings = { ...DEFAULT_SETTINGS, useGlobPatterns: true };
+	const excludes = buildRuleDiagnosticsWithIgnoredLines('live:docs/**', true, new Set<number>(), {
+		list: 'exclude',
+		settings,
+		includeRules: [],
+	});
+	assert.deepEqual(excludes[0]?.warnings, ['Mode prefixes have no effect on exclude rules.']);
+	const ordered = buildOrderedRuleDiagnostics('docs/**\n!live:docs/a.md', true, new Set<number>());
+	assert.deepEqual(ordered[1]?.warnings, []);
+	const orderedAnalyzed = buildOrderedRuleDiagnostics('docs/**\n!live:docs/a.md', true, new Set<number>(), {
+		list: 'ordered',
+		settings,
+		includeRules: [],
+	});
+	assert.deepEqual(orderedAnalyzed[1]?.warnings, ['Mode prefixes have no effect on a negation.']);
+});
+
+test('mode prefix analysis: only an equally strict rule shadows an include', () => {
+	const vaultPaths = ['docs/a.md', 'docs/dash/b.md'];
+	const settings = { ...DEFAULT_SETTINGS, useGlobPatterns: true };
+	const diagnostics = buildRuleDiagnosticsWithIgnoredLines(
+		'live:docs/**\ndocs/dash/**\nlive:docs/dash/**\nreading:docs/dash/**',
+		true,
+		new Set<number>(),
+		{ list: 'include', settings, includeRules: [], vaultPaths },
+	);
+	assert.deepEqual(diagnostics[0]?.warnings, []);
+	assert.deepEqual(diagnostics[1]?.warnings, []);
+	assert.deepEqual(diagnostics[2]?.warnings, ['Every note it matches is also matched by line 1 (live:docs/**).']);
+	assert.deepEqual(diagnostics[3]?.warnings, ['Duplicate of line 2.']);
+});
+
+test('path tester reports the enforced mode and the include rule that set it', () => {
+	const settings = {
+		...DEFAULT_SETTINGS,
+		enabled: true,
+		useGlobPatterns: true,
+		includeRules: ['live:docs/**', 'source:docs/code/**', 'docs/locked/**'],
+	};
+	const live = buildPathTesterResult('docs/code/a.md', settings);
+	assert.equal(live.enforcedMode, 'live');
+	assert.equal(live.finalReadOnly, false);
+	assert.equal(describeDecidingRule(live, settings), 'Include rule: live:docs/**');
+	assert.deepEqual(buildPathTesterLines(live, settings).slice(-1), ['Result: LIVE PREVIEW ENFORCED']);
+
+	const locked = buildPathTesterResult('docs/locked/a.md', settings);
+	assert.equal(describeDecidingRule(locked, settings), 'Include rule: docs/locked/**');
+	assert.deepEqual(buildPathTesterLines(locked, settings).slice(-1), ['Result: READ-ONLY ON']);
+
+	const ordered = { ...settings, ruleMode: 'ordered' as const, orderedRules: ['docs/**', 'source:docs/code/**'] };
+	assert.deepEqual(buildPathTesterLines(buildPathTesterResult('docs/code/a.md', ordered), ordered), [
+		'Evaluation order:',
+		'  1. docs/**: matches, locks',
+		'  2. source:docs/code/**: matches, source mode ← last match wins',
+		'Result: SOURCE MODE ENFORCED',
+	]);
+});
+
+test('path tester reports read-only editor enforcement', () => {
+	const settings = {
+		...DEFAULT_SETTINGS,
+		enabled: true,
+		useGlobPatterns: true,
+		readOnlyStyle: 'editor' as const,
+		includeRules: ['docs/**', 'reading:docs/strict/**'],
+	};
+	const locked = buildPathTesterResult('docs/a.md', settings);
+	assert.equal(locked.enforcedMode, 'locked');
+	assert.equal(locked.finalReadOnly, true);
+	assert.equal(describeDecidingRule(locked, settings), 'Include rule: docs/**');
+	assert.deepEqual(buildPathTesterLines(locked, settings).slice(-1), ['Result: READ-ONLY ON (editor)']);
+	assert.equal(buildPathTesterResult('docs/strict/a.md', settings).enforcedMode, 'reading');
+});
+
+test('path tester reports append-only notes as editable', () => {
+	const settings = {
+		...DEFAULT_SETTINGS,
+		enabled: true,
+		useGlobPatterns: true,
+		includeRules: ['append:logs/**', 'live:logs/**'],
+	};
+	const result = buildPathTesterResult('logs/2024.md', settings);
+	assert.equal(result.enforcedMode, 'append');
+	assert.equal(result.finalReadOnly, false);
+	assert.equal(describeDecidingRule(result, settings), 'Include rule: append:logs/**');
+	assert.deepEqual(buildPathTesterLines(result, settings).slice(-1), ['Result: APPEND-ONLY']);
+});
@@ -2,7 +2,7 @@ import assert from 'node:assert/strict';
 import test from 'node:test';
 
 import { DEFAULT_SETTINGS, shouldForceReadOnly, type ForceReadModeSettings } from '../src/matcher.js';
-import { buildEffectiveRules } from '../src/rule-limits.js';
+import { buildEffectiveRules, buildEffectiveTagRules } from '../src/rule-limits.js';
 
 function makeRules(count: number, prefix: string): string[] {
 	return Array.from({ length: count }, (_, index) => `${prefix}/${index}.md`);
@@ -76,3 +76,15 @@ test('matching uses only effective rules and ignores truncated tail', () => {
 	assert.equal(shouldForceReadOnly('secret/blocked.md', settings), false);
 	assert.equal(shouldForceReadOnly('notes/10.md', settings), true);
 });
+
+test('tag rule limits: normalize, dedupe and cap tag rules', () => {
+	assert.deepEqual(
+		buildEffectiveTagRules(['#Locked', 'locked', '  ', '#status/final/', '##']),
+		['locked', 'status/final'],
+	);
+
+	const manyTags = Array.from({ length: 205 }, (_, index) => `tag-${index}`);
+	const effective = buildEffectiveTagRules(manyTags);
+	assert.equal(effective.length, 200);
+	assert.equal(effective.includes('tag-200'), false);
+});
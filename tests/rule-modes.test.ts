@@ -0,0 +1,55 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import { normalizeRulePattern } from '../src/path-utils.js';
+import {
+	formatEnforcedViewMode,
+	getRuleMode,
+	pickStrictestMode,
+	satisfiesEnforcedMode,
+	splitRuleModePrefix,
+	stripRuleModePrefix,
+} from '../src/rule-modes.js';
+
+test('rule modes: prefixes are split off and default to Reading mode', () => {
+	assert.deepEqual(splitRuleModePrefix('live:dashboards/**'), { mode: 'live', explicit: true, pattern: 'dashboards/**' });
+	assert.deepEqual(splitRuleModePrefix(' source:re:^code/'), { mode: 'source', explicit: true, pattern: 're:^code/' });
+	assert.deepEqual(splitRuleModePrefix('docs/**'), { mode: 'reading', explicit: false, pattern: 'docs/**' });
+	assert.equal(getRuleMode('reading:docs/**'), 'reading');
+	assert.equal(getRuleMode('Live:docs/**'), 'reading');
+	assert.equal(getRuleMode('docs/**', 'locked'), 'locked');
+	assert.equal(getRuleMode('reading:docs/**', 'locked'), 'reading');
+	assert.equal(stripRuleModePrefix('live:docs/**'), 'docs/**');
+	assert.equal(formatEnforcedViewMode('live'), 'Live preview');
+});
+
+test('rule modes: the strictest mode wins', () => {
+	assert.equal(pickStrictestMode(['source', 'live']), 'live');
+	assert.equal(pickStrictestMode(['live', 'reading', 'source']), 'reading');
+	assert.equal(pickStrictestMode(['source', 'locked', 'live']), 'locked');
+	assert.equal(pickStrictestMode(['live', 'append', 'source']), 'append');
+	assert.equal(pickStrictestMode(['append', 'locked']), 'locked');
+	assert.equal(pickStrictestMode(['frontmatter', 'live']), 'frontmatter');
+	assert.equal(pickStrictestMode(['frontmatter', 'append']), 'append');
+	assert.equal(pickStrictestMode([]), null);
+});
+
+test('rule modes: append-only notes can be read in Reading mode or edited in either editor mode', () => {
+	assert.equal(satisfiesEnforcedMode('reading', 'append'), true);
+	assert.equal(satisfiesEnforcedMode('live', 'append'), true);
+	assert.equal(satisfiesEnforcedMode('source', 'append'), true);
+	assert.equal(satisfiesEnforcedMode(null, 'append'), false);
+	assert.equal(satisfiesEnforcedMode('reading', 'locked'), false);
+});
+
+test('rule modes: frontmatter-locked notes can be read in Reading mode or edited in either editor mode', () => {
+	assert.equal(satisfiesEnforcedMode('reading', 'frontmatter'), true);
+	assert.equal(satisfiesEnforcedMode('live', 'frontmatter'), true);
+	assert.equal(satisfiesEnforcedMode('source', 'frontmatter'), true);
+	assert.equal(satisfiesEnforcedMode(null, 'frontmatter'), false);
+});
+
+test('rule modes: normalization keeps the prefix and normalizes the rest', () => {
+	assert.equal(normalizeRulePattern(' live: .\\dash\\board/ '), 'live:dash/board/');
+	assert.equal(normalizeRulePattern('source:re:^code\\/.*\\.md$'), 'source:re:^code\\/.*\\.md$');
+});
@@ -1,7 +1,7 @@
 import assert from 'node:assert/strict';
 import test from 'node:test';
 
-import { DebouncedRuleChangeSaver } from '../src/settings-tab.js';
+import { createDiagnosticsMemo, DebouncedDiagnosticsRenderer, DebouncedRuleChangeSaver } from '../src/settings-tab.js';
 
 function withFakeTimeouts(callback: (tools: { flushAll: () => Promise<void> }) => Promise<void>): Promise<void> {
 	const originalSetTimeout = globalThis.setTimeout;
@@ -99,3 +99,40 @@ test('debounced rule saver keeps latest edit even without blur/change flush', as
 		assert.deepEqual(savedValues, ['include/docs/**']);
 	});
 });
+
+test('rule diagnostics render once after a burst of input, or right away on flush', async () => {
+	let renders = 0;
+	const renderer = new DebouncedDiagnosticsRenderer(300, () => {
+		renders += 1;
+	});
+
+	await withFakeTimeouts(async ({ flushAll }) => {
+		renderer.schedule();
+		renderer.schedule();
+		renderer.schedule();
+		assert.equal(renders, 0);
+		await flushAll();
+		assert.equal(renders, 1);
+
+		renderer.schedule();
+		renderer.flush();
+		assert.equal(renders, 2);
+		await flushAll();
+		assert.equal(renders, 2);
+	});
+});
+
+test('rule diagnostics are analyzed again only when their inputs change', () => {
+	const memo = createDiagnosticsMemo();
+	let builds = 0;
+	const build = () => {
+		builds += 1;
+		return [];
+	};
+
+	const first = memo('docs/**', build);
+	assert.equal(memo('docs/**', build), first);
+	assert.equal(builds, 1);
+	memo('docs/**\nnotes/**', build);
+	assert.equal(builds, 2);
+});
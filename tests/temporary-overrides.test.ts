@@ -0,0 +1,79 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import {
+	createTemporaryOverrideService,
+	formatRemainingTime,
+	type TemporaryOverrideEndReason,
+} from '../src/temporary-overrides.js';
+
+function createHarness() {
+	let now = 1_000;
+	const ends: Array<{ path: string; reason: TemporaryOverrideEndReason }> = [];
+	const service = createTemporaryOverrideService({
+		onEnd: (path, reason) => ends.push({ path, reason }),
+		now: () => now,
+	});
+	return {
+		service,
+		ends,
+		advance: (ms: number) => {
+			now += ms;
+		},
+	};
+}
+
+test('temporary overrides: active path reports remaining time until expiry', () => {
+	const { service, advance } = createHarness();
+	service.start('./docs/a.md', 60_000);
+
+	assert.equal(service.isActive('docs/a.md'), true);
+	advance(15_000);
+	assert.equal(service.getRemainingMs('docs/a.md'), 45_000);
+	advance(45_000);
+	assert.equal(service.isActive('docs/a.md'), false);
+	service.clear();
+});
+
+test('temporary overrides: timer expiry ends the override and notifies once', async () => {
+	const { service, ends } = createHarness();
+	service.start('docs/a.md', 5);
+
+	await new Promise((resolve) => setTimeout(resolve, 20));
+	assert.deepEqual(ends, [{ path: 'docs/a.md', reason: 'expired' }]);
+	assert.equal(service.end('docs/a.md', 'manual'), false);
+	assert.equal(ends.length, 1);
+});
+
+test('temporary overrides: manual end and close report their reason', () => {
+	const { service, ends } = createHarness();
+	service.start('docs/a.md', 60_000);
+	service.start('docs/b.md', 60_000);
+
+	assert.equal(service.end('docs/a.md', 'manual'), true);
+	assert.equal(service.end('docs/b.md', 'closed'), true);
+	assert.deepEqual(ends, [
+		{ path: 'docs/a.md', reason: 'manual' },
+		{ path: 'docs/b.md', reason: 'closed' },
+	]);
+	assert.deepEqual(service.getActivePaths(), []);
+});
+
+test('temporary overrides: rename keeps the override with its original expiry', () => {
+	const { service, advance } = createHarness();
+	service.start('docs/a.md', 60_000);
+	advance(10_000);
+	service.renamePath('docs/a.md', 'archive/a.md');
+
+	assert.equal(service.isActive('docs/a.md'), false);
+	assert.equal(service.getRemainingMs('archive/a.md'), 50_000);
+	service.clear();
+	assert.equal(service.isActive('archive/a.md'), false);
+});
+
+test('temporary overrides: remaining time formatting', () => {
+	assert.equal(formatRemainingTime(45_000), '45 s');
+	assert.equal(formatRemainingTime(240_000), '4 min');
+	assert.equal(formatRemainingTime(270_400), '4 min 31 s');
+	assert.equal(formatRemainingTime(-5), '0 s');
+});
@@ -0,0 +1,105 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import type { WriteGuardMode } from '../src/matcher.js';
+import { createWriteGuardService, WRITE_GUARD_LOG_CAP, type WriteGuardDecision } from '../src/write-guard.js';
+
+function createHarness(mode: WriteGuardMode, protectedPaths: string[], decision: WriteGuardDecision = 'revert') {
+	const files = new Map<string, string>();
+	const writes: Array<{ path: string; content: string }> = [];
+	const prompts: string[] = [];
+	const protectedSet = new Set(protectedPaths);
+	const settings = { mode };
+	const service = createWriteGuardService({
+		getMode: () => settings.mode,
+		isProtectedPath: (path) => protectedSet.has(path),
+		readFile: (path) => Promise.resolve(files.get(path) ?? null),
+		writeFile: (path, content) => {
+			writes.push({ path, content });
+			files.set(path, content);
+			return Promise.resolve();
+		},
+		confirm: (path) => {
+			prompts.push(path);
+			return Promise.resolve(decision);
+		},
+		now: () => 1_000,
+	});
+	return { service, files, writes, prompts, protectedSet, settings };
+}
+
+test('write guard: revert mode writes the snapshot back and logs an automatic revert', async () => {
+	const { service, files, writes, prompts } = createHarness('revert', ['docs/a.md']);
+	files.set('docs/a.md', 'original');
+	await service.trackPath('./docs/a.md');
+
+	files.set('docs/a.md', 'changed by sync');
+	assert.equal(await service.handleModify('docs/a.md'), 'revert');
+	assert.equal(files.get('docs/a.md'), 'original');
+	assert.deepEqual(writes, [{ path: 'docs/a.md', content: 'original' }]);
+	assert.deepEqual(prompts, []);
+	assert.deepEqual(service.getLog(), [{ path: 'docs/a.md', at: 1_000, action: 'reverted', automatic: true }]);
+
+	// The revert triggers another modify event that matches the snapshot.
+	assert.equal(await service.handleModify('docs/a.md'), null);
+});
+
+test('write guard: ask mode keeps an accepted change as the new snapshot', async () => {
+	const { service, files, writes, prompts } = createHarness('ask', ['docs/a.md'], 'accept');
+	files.set('docs/a.md', 'v1');
+	await service.trackPath('docs/a.md');
+
+	files.set('docs/a.md', 'v2');
+	assert.equal(await service.handleModify('docs/a.md'), 'accept');
+	assert.deepEqual(prompts, ['docs/a.md']);
+	assert.deepEqual(writes, []);
+	assert.equal(await service.handleModify('docs/a.md'), null);
+	assert.deepEqual(service.getLog().map((entry) => `${entry.action}:${String(entry.automatic)}`), ['accepted:false']);
+
+	service.clearLog();
+	assert.deepEqual(service.getLog(), []);
+});
+
+test('write guard: unprotected notes, the off mode and untracked notes are left alone', async () => {
+	const { service, files, writes, protectedSet, settings } = createHarness('revert', ['docs/a.md', 'docs/b.md']);
+	files.set('docs/a.md', 'a1');
+	files.set('docs/b.md', 'b1');
+	files.set('notes/c.md', 'c1');
+	await service.trackPath('docs/a.md');
+	await service.trackPath('docs/b.md');
+	await service.trackPath('notes/c.md');
+
+	protectedSet.delete('docs/a.md');
+	files.set('docs/a.md', 'a2 after unlock');
+	assert.equal(await service.handleModify('docs/a.md'), null);
+	protectedSet.add('docs/a.md');
+	assert.equal(await service.handleModify('docs/a.md'), null);
+
+	files.set('notes/c.md', 'c2');
+	assert.equal(await service.handleModify('notes/c.md'), null);
+
+	settings.mode = 'off';
+	files.set('docs/b.md', 'b2');
+	assert.equal(await service.handleModify('docs/b.md'), null);
+	settings.mode = 'revert';
+	assert.equal(await service.handleModify('docs/b.md'), null);
+	assert.deepEqual(writes, []);
+});
+
+test('write guard: snapshots follow renames and the log keeps the latest entries', async () => {
+	const { service, files } = createHarness('revert', ['docs/a.md', 'docs/moved.md']);
+	files.set('docs/a.md', 'original');
+	await service.trackPath('docs/a.md');
+	service.renamePath('docs/a.md', 'docs/moved.md');
+
+	for (let index = 0; index <= WRITE_GUARD_LOG_CAP; index++) {
+		files.set('docs/moved.md', `change ${index}`);
+		assert.equal(await service.handleModify('docs/moved.md'), 'revert');
+	}
+	assert.equal(files.get('docs/moved.md'), 'original');
+	assert.equal(service.getLog().length, WRITE_GUARD_LOG_CAP);
+
+	service.forgetPath('docs/moved.md');
+	files.set('docs/moved.md', 'changed after delete');
+	assert.equal(await service.handleModify('docs/moved.md'), null);
+});